@@ -2,6 +2,7 @@ import multer from 'multer';
 import { Request } from 'express';
 import path from 'path';
 import fs from 'fs';
+import { SIGNATURE_MAX_BYTES } from '../services/signatureImages';
 
 // Create uploads directory if it doesn't exist
 const uploadsDir = path.join(process.cwd(), 'uploads', 'assignments');
@@ -55,6 +56,22 @@ export const uploadAssignmentArray = multer({
   }
 });
 
+// Signature images are small and stored in the database, so they are kept in memory;
+// services/signatureImages.ts checks the actual bytes
+export const uploadSignatureImage = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    if (file.mimetype === 'image/png' || file.mimetype === 'image/jpeg') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PNG and JPEG signature images are allowed'));
+    }
+  },
+  limits: {
+    fileSize: SIGNATURE_MAX_BYTES
+  }
+});
+
 // Middleware to handle multer errors
 export function handleUploadError(err: any, req: Request, res: any, next: any) {
   if (err instanceof multer.MulterError) {
@@ -86,3 +103,12 @@ export function handleUploadError(err: any, req: Request, res: any, next: any) {
   next();
 }
 
+export function handleSignatureUploadError(err: any, req: Request, res: any, next: any) {
+  if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+    return res.status(400).json({
+      success: false,
+      message: `Signature image exceeds ${SIGNATURE_MAX_BYTES / 1024}KB limit`
+    });
+  }
+  return handleUploadError(err, req, res, next);
+}
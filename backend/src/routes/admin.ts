@@ -2,6 +2,29 @@ import { Router, Response } from 'express';
 import prisma from '../prisma';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import bcrypt from 'bcrypt';
+import { STAGE_APPROVER_TYPES } from '../services/approvalChain';
+import {
+  RubricError,
+  findRubric,
+  formatRubric,
+  parseRubricInput,
+  replaceRubricParts,
+  rubricInclude
+} from '../services/rubrics';
+import {
+  getDepartmentSettings,
+  parseDepartmentSettingsInput,
+  saveDepartmentSettings
+} from '../services/departmentSettings';
+import { getOverdueReport } from '../services/sla';
+import {
+  ApprovalRevocationError,
+  listApprovedAssignments,
+  parseRevocationInput,
+  revokeApproval
+} from '../services/approvalRevocation';
+import { AssignmentTransitionError } from '../services/assignmentTransitions';
+import { verifyHistoryChain } from '../services/historyChain';
 
 const router = Router();
 
@@ -179,6 +202,70 @@ router.get('/departments/:id/edit', authenticateToken, async (req: AuthRequest,
   }
 });
 
+router.get('/departments/:id/settings', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid department id' });
+    }
+
+    const department = await prisma.department.findUnique({ where: { id }, select: { id: true } });
+    if (!department) {
+      return res.status(404).json({ success: false, message: 'Department not found' });
+    }
+
+    return res.json({
+      success: true,
+      data: { settings: await getDepartmentSettings(id) }
+    });
+  } catch (error) {
+    console.error('Get department settings error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching department settings'
+    });
+  }
+});
+
+router.put('/departments/:id/settings', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid department id' });
+    }
+
+    const department = await prisma.department.findUnique({ where: { id }, select: { id: true } });
+    if (!department) {
+      return res.status(404).json({ success: false, message: 'Department not found' });
+    }
+
+    const parsed = parseDepartmentSettingsInput(req.body, await getDepartmentSettings(id));
+    if ('error' in parsed) {
+      return res.status(400).json({ success: false, message: parsed.error });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Department settings updated successfully',
+      data: { settings: await saveDepartmentSettings(id, parsed.settings) }
+    });
+  } catch (error) {
+    console.error('Update department settings error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while updating department settings'
+    });
+  }
+});
+
 router.put('/departments/:id/update', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
     const id = Number(req.params.id);
@@ -781,4 +868,654 @@ router.delete('/users/:id', authenticateToken, async (req: AuthRequest, res: Res
   }
 });
 
-export default router;
\ No newline at end of file
+type StageInput = { name?: string; approverType?: string; approverId?: number | string | null };
+
+async function parseApprovalStages(
+  stages: unknown
+): Promise<{ error: string } | { stages: Array<{ order: number; name: string; approverType: string; approverId: number | null }> }> {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    return { error: 'At least one approval stage is required' };
+  }
+
+  const parsed = [];
+  for (let i = 0; i < stages.length; i++) {
+    const stage = stages[i] as StageInput;
+    const name = typeof stage?.name === 'string' ? stage.name.trim() : '';
+    const approverType = String(stage?.approverType || '').toUpperCase();
+
+    if (!name) {
+      return { error: `Stage ${i + 1} needs a name` };
+    }
+    if (!(STAGE_APPROVER_TYPES as readonly string[]).includes(approverType)) {
+      return { error: `Invalid approver type for stage ${i + 1}. Allowed: ${STAGE_APPROVER_TYPES.join(', ')}` };
+    }
+    if (approverType === 'SUPERVISOR' && i !== 0) {
+      return { error: 'Only the first stage can be the supervisor stage' };
+    }
+    if (i === 0 && approverType !== 'SUPERVISOR') {
+      return { error: 'The first stage must be the supervisor the student submits to' };
+    }
+
+    let approverId: number | null = null;
+    if (approverType === 'USER') {
+      approverId = Number(stage.approverId);
+      if (Number.isNaN(approverId)) {
+        return { error: `Stage ${i + 1} needs an approver user` };
+      }
+      const approver = await prisma.user.findFirst({
+        where: { id: approverId, role: { in: ['PROFESSOR', 'HOD'] } }
+      });
+      if (!approver) {
+        return { error: `Approver for stage ${i + 1} must be an existing professor or HOD` };
+      }
+    }
+
+    parsed.push({ order: i + 1, name, approverType, approverId });
+  }
+
+  return { stages: parsed };
+}
+
+function formatApprovalPolicy(policy: any) {
+  return {
+    id: policy.id,
+    departmentId: policy.departmentId,
+    department: policy.department ? { id: policy.department.id, name: policy.department.name } : undefined,
+    category: policy.category,
+    stages: policy.stages.map((stage: any) => ({
+      id: stage.id,
+      order: stage.order,
+      name: stage.name,
+      approverType: stage.approverType,
+      approver: stage.approver ?? null
+    })),
+    createdAt: policy.createdAt,
+    actions: {
+      edit: `/admin/approval-policies/${policy.id}/edit`,
+      delete: `/admin/approval-policies/${policy.id}`
+    }
+  };
+}
+
+const approvalPolicyInclude = {
+  department: { select: { id: true, name: true } },
+  stages: {
+    orderBy: { order: 'asc' as const },
+    include: {
+      approver: { select: { id: true, name: true, email: true, role: true } }
+    }
+  }
+};
+
+router.post('/approval-policies/create', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const { departmentId, category, stages } = req.body as {
+      departmentId?: number | string;
+      category?: string;
+      stages?: unknown;
+    };
+
+    const normalizedCategory = String(category || '').toUpperCase();
+    if (!departmentId || !['ASSIGNMENT', 'THESIS', 'REPORT'].includes(normalizedCategory)) {
+      return res.status(400).json({
+        success: false,
+        message: 'departmentId and category (ASSIGNMENT/THESIS/REPORT) are required'
+      });
+    }
+
+    const dept = await prisma.department.findUnique({ where: { id: Number(departmentId) } });
+    if (!dept) {
+      return res.status(404).json({ success: false, message: 'Invalid Department' });
+    }
+
+    const existing = await prisma.approvalPolicy.findUnique({
+      where: {
+        departmentId_category: {
+          departmentId: dept.id,
+          category: normalizedCategory as 'ASSIGNMENT' | 'THESIS' | 'REPORT'
+        }
+      }
+    });
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: 'An approval policy already exists for this department and category'
+      });
+    }
+
+    const parsed = await parseApprovalStages(stages);
+    if ('error' in parsed) {
+      return res.status(400).json({ success: false, message: parsed.error });
+    }
+
+    const policy = await prisma.approvalPolicy.create({
+      data: {
+        departmentId: dept.id,
+        category: normalizedCategory as 'ASSIGNMENT' | 'THESIS' | 'REPORT',
+        stages: { create: parsed.stages }
+      },
+      include: approvalPolicyInclude
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Approval policy created successfully',
+      data: { policy: formatApprovalPolicy(policy) }
+    });
+  } catch (error) {
+    console.error('Create approval policy error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while creating approval policy'
+    });
+  }
+});
+
+router.get('/approval-policies', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const departmentParam = Array.isArray(req.query.departmentId)
+      ? req.query.departmentId[0]
+      : req.query.departmentId;
+
+    const where: any = {};
+    if (departmentParam) {
+      const departmentId = Number(departmentParam);
+      if (Number.isNaN(departmentId)) {
+        return res.status(400).json({ success: false, message: 'Invalid department filter' });
+      }
+      where.departmentId = departmentId;
+    }
+
+    const policies = await prisma.approvalPolicy.findMany({
+      where,
+      orderBy: [{ departmentId: 'asc' }, { category: 'asc' }],
+      include: approvalPolicyInclude
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        items: policies.map(formatApprovalPolicy),
+        filters: {
+          departmentId: departmentParam || null
+        }
+      }
+    });
+  } catch (error) {
+    console.error('List approval policies error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while listing approval policies'
+    });
+  }
+});
+
+router.get('/approval-policies/:id/edit', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid approval policy id' });
+    }
+
+    const policy = await prisma.approvalPolicy.findUnique({
+      where: { id },
+      include: approvalPolicyInclude
+    });
+
+    if (!policy) {
+      return res.status(404).json({ success: false, message: 'Approval policy not found' });
+    }
+
+    return res.json({
+      success: true,
+      data: { policy: formatApprovalPolicy(policy) }
+    });
+  } catch (error) {
+    console.error('Get approval policy error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching approval policy'
+    });
+  }
+});
+
+router.put('/approval-policies/:id/update', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid approval policy id' });
+    }
+
+    const existing = await prisma.approvalPolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: 'Approval policy not found' });
+    }
+
+    const parsed = await parseApprovalStages((req.body as { stages?: unknown }).stages);
+    if ('error' in parsed) {
+      return res.status(400).json({ success: false, message: parsed.error });
+    }
+
+    // Stages are replaced wholesale; assignments keep their stage order and pick up the new chain
+    const [, , policy] = await prisma.$transaction([
+      prisma.approvalStage.deleteMany({ where: { policyId: id } }),
+      prisma.approvalStage.createMany({
+        data: parsed.stages.map((stage) => ({ ...stage, policyId: id }))
+      }),
+      prisma.approvalPolicy.findUniqueOrThrow({
+        where: { id },
+        include: approvalPolicyInclude
+      })
+    ]);
+
+    return res.json({
+      success: true,
+      message: 'Approval policy updated successfully',
+      data: { policy: formatApprovalPolicy(policy) }
+    });
+  } catch (error) {
+    console.error('Update approval policy error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while updating approval policy'
+    });
+  }
+});
+
+router.delete('/approval-policies/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid approval policy id' });
+    }
+
+    const policy = await prisma.approvalPolicy.findUnique({ where: { id } });
+    if (!policy) {
+      return res.status(404).json({ success: false, message: 'Approval policy not found' });
+    }
+
+    await prisma.approvalPolicy.delete({ where: { id } });
+
+    return res.json({
+      success: true,
+      message: 'Approval policy deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete approval policy error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while deleting approval policy'
+    });
+  }
+});
+
+router.post('/rubrics/create', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const { departmentId, category } = req.body as { departmentId?: number | string; category?: string };
+
+    const normalizedCategory = String(category || '').toUpperCase();
+    if (!departmentId || !['ASSIGNMENT', 'THESIS', 'REPORT'].includes(normalizedCategory)) {
+      return res.status(400).json({
+        success: false,
+        message: 'departmentId and category (ASSIGNMENT/THESIS/REPORT) are required'
+      });
+    }
+
+    const dept = await prisma.department.findUnique({ where: { id: Number(departmentId) } });
+    if (!dept) {
+      return res.status(404).json({ success: false, message: 'Invalid Department' });
+    }
+
+    if (await findRubric(dept.id, normalizedCategory)) {
+      return res.status(409).json({
+        success: false,
+        message: 'A rubric already exists for this department and category'
+      });
+    }
+
+    const parsed = parseRubricInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ success: false, message: parsed.error });
+    }
+
+    const rubric = await prisma.rubric.create({
+      data: {
+        departmentId: dept.id,
+        category: normalizedCategory as 'ASSIGNMENT' | 'THESIS' | 'REPORT',
+        name: parsed.name,
+        criteria: { create: parsed.criteria.map(({ id: _id, ...criterion }) => criterion) },
+        bands: { create: parsed.bands }
+      },
+      include: rubricInclude
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Rubric created successfully',
+      data: { rubric: formatRubric(rubric) }
+    });
+  } catch (error) {
+    console.error('Create rubric error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while creating rubric'
+    });
+  }
+});
+
+router.get('/rubrics', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const departmentParam = Array.isArray(req.query.departmentId)
+      ? req.query.departmentId[0]
+      : req.query.departmentId;
+
+    const where: any = {};
+    if (departmentParam) {
+      const departmentId = Number(departmentParam);
+      if (Number.isNaN(departmentId)) {
+        return res.status(400).json({ success: false, message: 'Invalid department filter' });
+      }
+      where.departmentId = departmentId;
+    }
+
+    const rubrics = await prisma.rubric.findMany({
+      where,
+      orderBy: [{ departmentId: 'asc' }, { category: 'asc' }],
+      include: rubricInclude
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        items: rubrics.map(formatRubric),
+        filters: {
+          departmentId: departmentParam || null
+        }
+      }
+    });
+  } catch (error) {
+    console.error('List rubrics error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while listing rubrics'
+    });
+  }
+});
+
+router.get('/rubrics/:id/edit', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid rubric id' });
+    }
+
+    const rubric = await prisma.rubric.findUnique({ where: { id }, include: rubricInclude });
+    if (!rubric) {
+      return res.status(404).json({ success: false, message: 'Rubric not found' });
+    }
+
+    return res.json({
+      success: true,
+      data: { rubric: formatRubric(rubric) }
+    });
+  } catch (error) {
+    console.error('Get rubric error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching rubric'
+    });
+  }
+});
+
+router.put('/rubrics/:id/update', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid rubric id' });
+    }
+
+    const existing = await prisma.rubric.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: 'Rubric not found' });
+    }
+
+    const parsed = parseRubricInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ success: false, message: parsed.error });
+    }
+
+    const rubric = await replaceRubricParts(id, parsed);
+
+    return res.json({
+      success: true,
+      message: 'Rubric updated successfully',
+      data: { rubric: formatRubric(rubric) }
+    });
+  } catch (error) {
+    if (error instanceof RubricError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
+    console.error('Update rubric error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while updating rubric'
+    });
+  }
+});
+
+router.delete('/rubrics/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid rubric id' });
+    }
+
+    const rubric = await prisma.rubric.findUnique({ where: { id } });
+    if (!rubric) {
+      return res.status(404).json({ success: false, message: 'Rubric not found' });
+    }
+
+    // Deleting would cascade to the scores, i.e. wipe grades students have already received
+    const scoreCount = await prisma.assignmentScore.count({ where: { criterion: { rubricId: id } } });
+    if (scoreCount > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'This rubric has already been used to grade assignments and cannot be deleted'
+      });
+    }
+
+    await prisma.rubric.delete({ where: { id } });
+
+    return res.json({
+      success: true,
+      message: 'Rubric deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete rubric error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while deleting rubric'
+    });
+  }
+});
+
+// GET /admin/reports/overdue - Reviews past their department's SLA, optionally for one department
+router.get('/reports/overdue', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const departmentParam = req.query.departmentId;
+    const departmentId =
+      typeof departmentParam === 'string' && departmentParam ? Number(departmentParam) : undefined;
+    if (departmentId !== undefined && !Number.isInteger(departmentId)) {
+      return res.status(400).json({ success: false, message: 'Invalid department id' });
+    }
+
+    const items = await getOverdueReport(departmentId);
+
+    return res.json({
+      success: true,
+      data: {
+        items,
+        summary: {
+          total: items.length,
+          escalationDue: items.filter((item) => item.stage === 'ESCALATION').length,
+          escalated: items.filter((item) => item.escalatedAt).length
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Overdue report error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while building overdue report'
+    });
+  }
+});
+
+router.get('/assignments/approved', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const departmentParam = req.query.departmentId;
+    const departmentId =
+      typeof departmentParam === 'string' && departmentParam ? Number(departmentParam) : undefined;
+    if (departmentId !== undefined && !Number.isInteger(departmentId)) {
+      return res.status(400).json({ success: false, message: 'Invalid department id' });
+    }
+
+    return res.json({
+      success: true,
+      data: { assignments: await listApprovedAssignments(departmentId) }
+    });
+  } catch (error) {
+    console.error('Get approved assignments error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching approved assignments'
+    });
+  }
+});
+
+router.post('/assignments/:id/revoke-approval', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid assignment id' });
+    }
+
+    const parsed = parseRevocationInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ success: false, message: parsed.error });
+    }
+
+    const result = await revokeApproval({
+      assignmentId: id,
+      actor: { id: req.admin.id, role: 'ADMIN', name: `Administrator (${req.admin.email})` },
+      ...parsed
+    });
+
+    return res.json({
+      success: true,
+      message: `Approval revoked. The assignment has been ${result.outcome}.`
+    });
+  } catch (error) {
+    if (error instanceof ApprovalRevocationError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
+    if (error instanceof AssignmentTransitionError) {
+      return res.status(error.status).json(error.toResponse());
+    }
+    console.error('Revoke approval error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while revoking approval'
+    });
+  }
+});
+
+// GET /admin/history/verify?assignmentId= - Check the history hash chain of one assignment or the whole database
+router.get('/history/verify', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.admin) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const assignmentParam = req.query.assignmentId;
+    const assignmentId =
+      typeof assignmentParam === 'string' && assignmentParam ? Number(assignmentParam) : undefined;
+    if (assignmentId !== undefined && !Number.isInteger(assignmentId)) {
+      return res.status(400).json({ success: false, message: 'Invalid assignment id' });
+    }
+
+    if (assignmentId !== undefined) {
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId }, select: { id: true } });
+      if (!assignment) {
+        return res.status(404).json({ success: false, message: 'Assignment not found' });
+      }
+    }
+
+    const result = await verifyHistoryChain(assignmentId);
+    return res.json({
+      success: true,
+      message: result.valid ? 'History chain is intact' : 'History chain is broken',
+      data: result
+    });
+  } catch (error) {
+    console.error('Verify history chain error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while verifying history'
+    });
+  }
+});
+
+export default router;
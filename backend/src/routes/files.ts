@@ -0,0 +1,541 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs';
+import { AuthRequest, authenticateToken } from '../middleware/auth';
+import prisma from '../prisma';
+import {
+  createSignedUrl,
+  findAccessibleAssignment,
+  resolveUploadPath,
+  verifySignedUrl
+} from '../services/fileAccess';
+import { listAssignmentVersions } from '../services/assignmentVersions';
+import { diffText, extractPdfText } from '../services/versionDiff';
+import {
+  APPROVAL_DOCUMENTS,
+  ApprovalCertificateError,
+  ApprovalDocument,
+  renderApprovalCertificate,
+  renderStampedPdf
+} from '../services/approvalCertificate';
+
+const router = Router();
+
+function parseId(idParam: unknown): number {
+  return typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+}
+
+function sendPdf(req: Request, res: Response, storedPath: string, title: string) {
+  const filePath = resolveUploadPath(storedPath);
+  if (!fs.existsSync(filePath)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Assignment file not found on server'
+    });
+  }
+
+  const fileName = safeFileName(title);
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.setHeader(
+    'Content-Disposition',
+    `${req.query.download === '1' ? 'attachment' : 'inline'}; filename="${fileName}"`
+  );
+  res.type('application/pdf');
+  return res.sendFile(filePath, (err) => {
+    if (err) {
+      console.error('Error sending file:', err);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          message: 'Error downloading file'
+        });
+      }
+    }
+  });
+}
+
+function safeFileName(title: string) {
+  return title.replace(/[^a-zA-Z0-9.-]/g, '_') + '.pdf';
+}
+
+function isApprovalDocument(value: unknown): value is ApprovalDocument {
+  return typeof value === 'string' && (APPROVAL_DOCUMENTS as readonly string[]).includes(value);
+}
+
+// GET /files/assignments/:id/link - Issue a short-lived signed URL for the assignment PDF
+router.get(
+  '/assignments/:id/link',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const assignmentId = parseId(req.params.id);
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await findAccessibleAssignment(req.user!, assignmentId);
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      if (!assignment.filePath) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment file not found'
+        });
+      }
+
+      const { url, expiresAt } = createSignedUrl(
+        `/files/assignments/${assignmentId}`,
+        `assignment:${assignmentId}`
+      );
+
+      return res.json({
+        success: true,
+        message: 'Download link created',
+        data: { url, expiresAt }
+      });
+    } catch (error) {
+      console.error('Create file link error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating download link'
+      });
+    }
+  }
+);
+
+// GET /files/assignments/:id?expires=&signature= - Serve the PDF for a valid signed URL
+router.get('/assignments/:id', async (req: Request, res: Response) => {
+  try {
+    const assignmentId = parseId(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid assignment ID'
+      });
+    }
+
+    if (!verifySignedUrl(`assignment:${assignmentId}`, req.query.expires, req.query.signature)) {
+      return res.status(403).json({
+        success: false,
+        message: 'This download link is invalid or has expired'
+      });
+    }
+
+    const assignment = await prisma.assignment.findUnique({
+      where: { id: assignmentId },
+      select: { title: true, filePath: true }
+    });
+
+    if (!assignment?.filePath) {
+      return res.status(404).json({
+        success: false,
+        message: 'Assignment file not found'
+      });
+    }
+
+    return sendPdf(req, res, assignment.filePath, assignment.title);
+  } catch (error) {
+    console.error('Signed file download error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while downloading file'
+    });
+  }
+});
+
+// GET /files/assignments/:id/versions - Every uploaded version of the assignment file
+router.get(
+  '/assignments/:id/versions',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const assignmentId = parseId(req.params.id);
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await findAccessibleAssignment(req.user!, assignmentId);
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      const versions = await listAssignmentVersions(assignmentId);
+
+      return res.json({
+        success: true,
+        message: 'Assignment versions retrieved successfully',
+        data: { versions }
+      });
+    } catch (error) {
+      console.error('List assignment versions error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while retrieving versions'
+      });
+    }
+  }
+);
+
+// GET /files/assignments/:id/versions/compare?from=&to= - Text diff between two versions
+// Defaults to the previous version against the latest one.
+router.get(
+  '/assignments/:id/versions/compare',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const assignmentId = parseId(req.params.id);
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await findAccessibleAssignment(req.user!, assignmentId);
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      const versions = await listAssignmentVersions(assignmentId);
+      if (versions.length < 2) {
+        return res.status(400).json({
+          success: false,
+          message: 'This assignment has only one version, so there is nothing to compare'
+        });
+      }
+
+      const latest = versions[versions.length - 1]!.version;
+      const toVersion = req.query.to ? parseId(req.query.to) : latest;
+      const fromVersion = req.query.from ? parseId(req.query.from) : toVersion - 1;
+      const from = versions.find((v) => v.version === fromVersion);
+      const to = versions.find((v) => v.version === toVersion);
+
+      if (!from || !to || fromVersion >= toVersion) {
+        return res.status(400).json({
+          success: false,
+          message: 'Choose two existing versions, the older one first'
+        });
+      }
+
+      const files = await prisma.assignmentVersion.findMany({
+        where: { assignmentId, version: { in: [fromVersion, toVersion] } },
+        select: { version: true, filePath: true }
+      });
+      const pathOf = (version: number) => files.find((f) => f.version === version)!.filePath;
+
+      let previousText: string;
+      let currentText: string;
+      try {
+        [previousText, currentText] = await Promise.all([
+          extractPdfText(pathOf(fromVersion)),
+          extractPdfText(pathOf(toVersion))
+        ]);
+      } catch (extractError) {
+        console.error('PDF text extraction error:', extractError);
+        return res.status(422).json({
+          success: false,
+          message: 'Could not read text from one of the PDFs. It may be scanned or corrupted.'
+        });
+      }
+
+      // The feedback the new version was meant to address: a rejection or a change request
+      const feedback = await prisma.assignmentHistory.findFirst({
+        where: {
+          assignmentId,
+          action: { in: ['REJECTED', 'CHANGES_REQUESTED'] },
+          createdAt: { lte: to.uploadedAt }
+        },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          action: true,
+          remark: true,
+          createdAt: true,
+          reviewer: { select: { id: true, name: true, role: true } }
+        }
+      });
+
+      return res.json({
+        success: true,
+        message: 'Versions compared successfully',
+        data: {
+          from,
+          to,
+          ...diffText(previousText, currentText),
+          feedback
+        }
+      });
+    } catch (error) {
+      console.error('Compare versions error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while comparing versions'
+      });
+    }
+  }
+);
+
+// GET /files/assignments/:id/versions/:version/link - Signed URL for one version's file
+router.get(
+  '/assignments/:id/versions/:version/link',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const assignmentId = parseId(req.params.id);
+      const version = parseId(req.params.version);
+
+      if (isNaN(assignmentId) || isNaN(version)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID or version'
+        });
+      }
+
+      const assignment = await findAccessibleAssignment(req.user!, assignmentId);
+      const row = assignment
+        ? await prisma.assignmentVersion.findUnique({
+            where: { assignmentId_version: { assignmentId, version } },
+            select: { id: true }
+          })
+        : null;
+
+      if (!row) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment version not found'
+        });
+      }
+
+      const { url, expiresAt } = createSignedUrl(
+        `/files/assignments/${assignmentId}/versions/${version}`,
+        `assignment:${assignmentId}:v${version}`
+      );
+
+      return res.json({
+        success: true,
+        message: 'Download link created',
+        data: { url, expiresAt }
+      });
+    } catch (error) {
+      console.error('Create version link error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating download link'
+      });
+    }
+  }
+);
+
+// GET /files/assignments/:id/versions/:version?expires=&signature= - Serve one version's PDF
+router.get('/assignments/:id/versions/:version', async (req: Request, res: Response) => {
+  try {
+    const assignmentId = parseId(req.params.id);
+    const version = parseId(req.params.version);
+
+    if (isNaN(assignmentId) || isNaN(version)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid assignment ID or version'
+      });
+    }
+
+    if (
+      !verifySignedUrl(
+        `assignment:${assignmentId}:v${version}`,
+        req.query.expires,
+        req.query.signature
+      )
+    ) {
+      return res.status(403).json({
+        success: false,
+        message: 'This download link is invalid or has expired'
+      });
+    }
+
+    const row = await prisma.assignmentVersion.findUnique({
+      where: { assignmentId_version: { assignmentId, version } },
+      select: { filePath: true, assignment: { select: { title: true } } }
+    });
+
+    if (!row) {
+      return res.status(404).json({
+        success: false,
+        message: 'Assignment version not found'
+      });
+    }
+
+    return sendPdf(req, res, row.filePath, `${row.assignment.title}-v${version}`);
+  } catch (error) {
+    console.error('Signed version download error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while downloading file'
+    });
+  }
+});
+
+// GET /files/assignments/:id/approval/:document/link - Signed URL for the approval certificate or the stamped PDF
+router.get(
+  '/assignments/:id/approval/:document/link',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const assignmentId = parseId(req.params.id);
+      const { document } = req.params;
+
+      if (isNaN(assignmentId) || !isApprovalDocument(document)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID or document'
+        });
+      }
+
+      const assignment = await findAccessibleAssignment(req.user!, assignmentId);
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      if (assignment.status !== 'APPROVED') {
+        return res.status(409).json({
+          success: false,
+          message: 'Certificates are only available for approved assignments'
+        });
+      }
+
+      const { url, expiresAt } = createSignedUrl(
+        `/files/assignments/${assignmentId}/approval/${document}`,
+        `assignment:${assignmentId}:${document}`
+      );
+
+      return res.json({
+        success: true,
+        message: 'Download link created',
+        data: { url, expiresAt }
+      });
+    } catch (error) {
+      console.error('Create approval document link error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating download link'
+      });
+    }
+  }
+);
+
+// GET /files/assignments/:id/approval/:document?expires=&signature= - Generate and serve the approval PDF
+router.get('/assignments/:id/approval/:document', async (req: Request, res: Response) => {
+  try {
+    const assignmentId = parseId(req.params.id);
+    const { document } = req.params;
+
+    if (isNaN(assignmentId) || !isApprovalDocument(document)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid assignment ID or document'
+      });
+    }
+
+    if (!verifySignedUrl(`assignment:${assignmentId}:${document}`, req.query.expires, req.query.signature)) {
+      return res.status(403).json({
+        success: false,
+        message: 'This download link is invalid or has expired'
+      });
+    }
+
+    const assignment = await prisma.assignment.findUnique({
+      where: { id: assignmentId },
+      select: { title: true }
+    });
+    const pdf =
+      document === 'certificate' ? await renderApprovalCertificate(assignmentId) : await renderStampedPdf(assignmentId);
+    const fileName = safeFileName(`${assignment?.title ?? 'assignment'}-${document === 'certificate' ? 'certificate' : 'approved'}`);
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.setHeader(
+      'Content-Disposition',
+      `${req.query.download === '1' ? 'attachment' : 'inline'}; filename="${fileName}"`
+    );
+    res.type('application/pdf');
+    return res.send(Buffer.from(pdf));
+  } catch (error) {
+    if (error instanceof ApprovalCertificateError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
+    console.error('Approval document download error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while generating document'
+    });
+  }
+});
+
+// GET /files/signatures/:id?expires=&signature= - Serve a reviewer's signature image; links come with history entries
+router.get('/signatures/:id', async (req: Request, res: Response) => {
+  try {
+    const imageId = parseId(req.params.id);
+
+    if (isNaN(imageId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid signature ID'
+      });
+    }
+
+    if (!verifySignedUrl(`signature:${imageId}`, req.query.expires, req.query.signature)) {
+      return res.status(403).json({
+        success: false,
+        message: 'This link is invalid or has expired'
+      });
+    }
+
+    const image = await prisma.signatureImage.findUnique({
+      where: { id: imageId },
+      select: { mimeType: true, data: true }
+    });
+
+    if (!image) {
+      return res.status(404).json({
+        success: false,
+        message: 'Signature not found'
+      });
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.type(image.mimeType);
+    return res.send(Buffer.from(image.data));
+  } catch (error) {
+    console.error('Signature image error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while fetching signature'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,464 @@
+import { Router, Response } from 'express';
+import prisma from '../prisma';
+import { AuthRequest, authenticateToken, requireRole } from '../middleware/auth';
+import {
+  AssignmentTransitionError,
+  IN_REVIEW_STATUSES,
+  transitionAssignment
+} from '../services/assignmentTransitions';
+import { getDepartmentSettings } from '../services/departmentSettings';
+import {
+  PANEL_APPOINTMENT_SIGNATURE,
+  PanelReviewError,
+  getPanelReview,
+  parsePanelMembers,
+  replacePanel
+} from '../services/panelReview';
+import {
+  ApprovalRevocationError,
+  listApprovedAssignments,
+  parseRevocationInput,
+  revokeApproval
+} from '../services/approvalRevocation';
+
+const router = Router();
+
+// GET /hod/dashboard - Everything pending review in the HOD's department, grouped by reviewer
+router.get(
+  '/dashboard',
+  authenticateToken,
+  requireRole('HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const hodId = req.user!.id;
+
+      const hod = await prisma.user.findUnique({
+        where: { id: hodId },
+        select: { departmentId: true, department: { select: { id: true, name: true } } }
+      });
+
+      if (!hod?.departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You must be assigned to a department to view the department queue'
+        });
+      }
+
+      const pendingAssignments = await prisma.assignment.findMany({
+        where: {
+          student: { departmentId: hod.departmentId },
+          status: { in: IN_REVIEW_STATUSES }
+        },
+        orderBy: {
+          submittedAt: 'asc'
+        },
+        select: {
+          id: true,
+          title: true,
+          category: true,
+          status: true,
+          submittedAt: true,
+          approvalStage: true,
+          _count: { select: { panelMembers: true } },
+          student: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
+          },
+          reviewer: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true
+            }
+          }
+        }
+      });
+
+      const now = new Date();
+      type Row = (typeof pendingAssignments)[number];
+      type Group = {
+        reviewer: NonNullable<Row['reviewer']> | null;
+        pendingCount: number;
+        oldestDaysPending: number;
+        assignments: Array<{
+          id: number;
+          title: string;
+          category: string;
+          status: string;
+          studentName: string;
+          studentEmail: string;
+          submittedAt: Date | null;
+          approvalStage: number | null;
+          panelSize: number;
+          daysPending: number;
+        }>;
+      };
+
+      const groups = new Map<number, Group>();
+      pendingAssignments.forEach((a: Row) => {
+        const submittedAt = a.submittedAt ? new Date(a.submittedAt) : null;
+        const daysPending = submittedAt
+          ? Math.floor((now.getTime() - submittedAt.getTime()) / (1000 * 60 * 60 * 24))
+          : 0;
+        const key = a.reviewer?.id ?? 0;
+        const group = groups.get(key) ?? {
+          reviewer: a.reviewer,
+          pendingCount: 0,
+          oldestDaysPending: 0,
+          assignments: []
+        };
+        group.pendingCount += 1;
+        group.oldestDaysPending = Math.max(group.oldestDaysPending, daysPending);
+        group.assignments.push({
+          id: a.id,
+          title: a.title,
+          category: a.category,
+          status: a.status,
+          studentName: a.student.name,
+          studentEmail: a.student.email,
+          submittedAt: a.submittedAt,
+          approvalStage: a.approvalStage,
+          panelSize: a._count.panelMembers,
+          daysPending
+        });
+        groups.set(key, group);
+      });
+
+      const reviewers = Array.from(groups.values()).sort(
+        (a, b) => b.oldestDaysPending - a.oldestDaysPending
+      );
+      const { panelCategories, panelMinSize } = await getDepartmentSettings(hod.departmentId);
+
+      return res.json({
+        success: true,
+        message: 'HOD dashboard retrieved successfully',
+        data: {
+          department: hod.department,
+          pendingCount: pendingAssignments.length,
+          assignedToMe: groups.get(hodId)?.pendingCount ?? 0,
+          reviewers,
+          panel: { categories: panelCategories, minSize: panelMinSize }
+        }
+      });
+    } catch (error) {
+      console.error('HOD dashboard error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while loading dashboard'
+      });
+    }
+  }
+);
+
+// POST /hod/assignments/:id/take-over - HOD steps in and becomes the reviewer
+router.post(
+  '/assignments/:id/take-over',
+  authenticateToken,
+  requireRole('HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const hodId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const { note } = req.body as { note?: string };
+      const trimmedNote = typeof note === 'string' ? note.trim() : '';
+
+      const hod = await prisma.user.findUnique({
+        where: { id: hodId },
+        select: { name: true, departmentId: true }
+      });
+
+      if (!hod?.departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You must be assigned to a department to take over assignments'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: {
+          id: assignmentId,
+          student: { departmentId: hod.departmentId }
+        },
+        select: { id: true, title: true, reviewerId: true, approvalStage: true }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found in your department'
+        });
+      }
+
+      if (assignment.reviewerId === hodId) {
+        return res.status(400).json({
+          success: false,
+          message: 'This assignment is already under your review'
+        });
+      }
+
+      await transitionAssignment({
+        assignmentId,
+        action: 'TAKE_OVER',
+        actor: req.user!,
+        data: { reviewerId: hodId },
+        history: {
+          stage: assignment.approvalStage,
+          remark: trimmedNote || null,
+          signature: hod.name
+        },
+        notifications: assignment.reviewerId
+          ? [
+              {
+                message: `The HOD has taken over the review of "${assignment.title}".`,
+                type: 'ASSIGNMENT_TAKEN_OVER',
+                userId: assignment.reviewerId
+              }
+            ]
+          : []
+      });
+
+      return res.json({
+        success: true,
+        message: 'You are now the reviewer for this assignment.'
+      });
+    } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error('Take over assignment error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+);
+
+// PUT /hod/assignments/:id/panel - Appoint or replace the review panel before anyone has voted
+router.put(
+  '/assignments/:id/panel',
+  authenticateToken,
+  requireRole('HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const hodId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const hod = await prisma.user.findUnique({
+        where: { id: hodId },
+        select: { name: true, departmentId: true }
+      });
+
+      if (!hod?.departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You must be assigned to a department to appoint review panels'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: {
+          id: assignmentId,
+          student: { departmentId: hod.departmentId }
+        },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          category: true,
+          approvalStage: true,
+          student: { select: { departmentId: true } }
+        }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found in your department'
+        });
+      }
+
+      const panel = await getPanelReview(assignment);
+      if (!panel) {
+        return res.status(400).json({
+          success: false,
+          message: 'This assignment is not reviewed by a panel'
+        });
+      }
+      if (panel.approvals + panel.rejections > 0 || panel.outcome) {
+        throw new PanelReviewError('Voting has already started on this submission, so the panel can no longer change', 409);
+      }
+
+      const { panelMinSize } = await getDepartmentSettings(hod.departmentId);
+      const parsed = await parsePanelMembers(req.body?.reviewerIds, hod.departmentId, panelMinSize);
+      if ('error' in parsed) {
+        return res.status(400).json({
+          success: false,
+          message: parsed.error
+        });
+      }
+      const members = parsed.members;
+      const previous = new Set(panel.members.map((m) => m.id));
+
+      // Recorded as a forward to the new chair so the queue, SLA clock and history follow along
+      await transitionAssignment({
+        assignmentId,
+        action: 'FORWARD',
+        actor: req.user!,
+        data: { reviewerId: members[0]!.id, reviewerAssignmentReason: null },
+        history: {
+          stage: assignment.approvalStage,
+          remark: `Review panel: ${members.map((m, i) => (i === 0 ? `${m.name} (chair)` : m.name)).join(', ')}`,
+          signature: `${PANEL_APPOINTMENT_SIGNATURE} ${hod.name}`
+        },
+        notifications: members
+          .filter((m) => !previous.has(m.id))
+          .map((m) => ({
+            message: `You have been appointed to the review panel for "${assignment.title}".`,
+            type: 'PANEL_ASSIGNED',
+            userId: m.id
+          })),
+        afterHistory: (tx) => replacePanel(tx, assignmentId, members.map((m) => m.id))
+      });
+
+      return res.json({
+        success: true,
+        message: `Review panel of ${members.length} appointed. ${members[0]!.name} chairs it.`
+      });
+    } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof PanelReviewError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      console.error('Assign review panel error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+);
+
+// GET /hod/approved - Approved assignments in the HOD's department, for revoking an approval
+router.get(
+  '/approved',
+  authenticateToken,
+  requireRole('HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const hod = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { departmentId: true }
+      });
+
+      if (!hod?.departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You must be assigned to a department to view approved assignments'
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Approved assignments retrieved successfully',
+        data: { assignments: await listApprovedAssignments(hod.departmentId) }
+      });
+    } catch (error) {
+      console.error('Get approved assignments error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+);
+
+// POST /hod/assignments/:id/revoke-approval - Re-open an approved assignment with a justification
+router.post(
+  '/assignments/:id/revoke-approval',
+  authenticateToken,
+  requireRole('HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const hodId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const parsed = parseRevocationInput(req.body);
+      if ('error' in parsed) {
+        return res.status(400).json({
+          success: false,
+          message: parsed.error
+        });
+      }
+
+      const hod = await prisma.user.findUnique({
+        where: { id: hodId },
+        select: { name: true, departmentId: true }
+      });
+
+      if (!hod?.departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You must be assigned to a department to revoke approvals'
+        });
+      }
+
+      const result = await revokeApproval({
+        assignmentId,
+        actor: { ...req.user!, name: hod.name },
+        departmentId: hod.departmentId,
+        ...parsed
+      });
+
+      return res.json({
+        success: true,
+        message: `Approval revoked. The assignment has been ${result.outcome}.`
+      });
+    } catch (error) {
+      if (error instanceof ApprovalRevocationError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error('Revoke approval error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,250 @@
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { AuthRequest, authenticateToken, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Notifications belong to users; administrators have none
+const NOTIFIED_ROLES = ['STUDENT', 'PROFESSOR', 'HOD'];
+
+const notificationSelect = {
+  id: true,
+  message: true,
+  type: true,
+  read: true,
+  assignmentId: true,
+  createdAt: true
+} as const;
+
+function queryValue(value: unknown) {
+  return typeof value === 'string' ? value : Array.isArray(value) && typeof value[0] === 'string' ? value[0] : undefined;
+}
+
+// `type` may list several types separated by commas, e.g. ASSIGNMENT_APPROVED,ASSIGNMENT_REJECTED
+function parseTypeFilter(value: unknown): { types: string[] } | { error: string } {
+  const raw = queryValue(value);
+  if (!raw) return { types: [] };
+  const types = raw
+    .split(',')
+    .map((t) => t.trim().toUpperCase())
+    .filter(Boolean);
+  if (types.some((t) => !/^[A-Z_]+$/.test(t))) {
+    return { error: 'Invalid notification type filter' };
+  }
+  return { types };
+}
+
+function unreadCount(userId: number) {
+  return prisma.notification.count({ where: { userId, read: false } });
+}
+
+// GET /notifications?page=&pageSize=&type=&unread=true - Your notifications, newest first
+router.get('/', authenticateToken, requireRole(...NOTIFIED_ROLES), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const page = Math.max(parseInt(queryValue(req.query.page) || '1', 10) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(queryValue(req.query.pageSize) || '20', 10) || 20, 1), 100);
+
+    const filter = parseTypeFilter(req.query.type);
+    if ('error' in filter) {
+      return res.status(400).json({ success: false, message: filter.error });
+    }
+    const unreadOnly = queryValue(req.query.unread) === 'true';
+
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      ...(filter.types.length > 0 ? { type: { in: filter.types } } : {}),
+      ...(unreadOnly ? { read: false } : {})
+    };
+
+    const [total, notifications, unread, types] = await Promise.all([
+      prisma.notification.count({ where }),
+      prisma.notification.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        select: notificationSelect
+      }),
+      unreadCount(userId),
+      prisma.notification.findMany({
+        where: { userId },
+        distinct: ['type'],
+        orderBy: { type: 'asc' },
+        select: { type: true }
+      })
+    ]);
+
+    return res.json({
+      success: true,
+      message: 'Notifications retrieved successfully',
+      data: {
+        notifications,
+        unreadCount: unread,
+        // Types you have received, for the filter
+        types: types.map((t) => t.type),
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.max(Math.ceil(total / pageSize), 1)
+        },
+        filters: {
+          type: filter.types,
+          unread: unreadOnly
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while loading notifications'
+    });
+  }
+});
+
+// GET /notifications/unread-count - Badge count for the notification bell
+router.get(
+  '/unread-count',
+  authenticateToken,
+  requireRole(...NOTIFIED_ROLES),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      return res.json({
+        success: true,
+        data: { unreadCount: await unreadCount(req.user!.id) }
+      });
+    } catch (error) {
+      console.error('Unread notification count error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while counting notifications'
+      });
+    }
+  }
+);
+
+// PATCH /notifications/read-all?type= - Mark every unread notification, or those of the given types, as read
+router.patch(
+  '/read-all',
+  authenticateToken,
+  requireRole(...NOTIFIED_ROLES),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const filter = parseTypeFilter(req.query.type);
+      if ('error' in filter) {
+        return res.status(400).json({ success: false, message: filter.error });
+      }
+
+      const result = await prisma.notification.updateMany({
+        where: {
+          userId,
+          read: false,
+          ...(filter.types.length > 0 ? { type: { in: filter.types } } : {})
+        },
+        data: { read: true }
+      });
+
+      return res.json({
+        success: true,
+        message: `${result.count} notification${result.count === 1 ? '' : 's'} marked as read`,
+        data: { updated: result.count, unreadCount: await unreadCount(userId) }
+      });
+    } catch (error) {
+      console.error('Mark all notifications read error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+);
+
+// PATCH /notifications/:id/read - Mark one notification as read
+router.patch(
+  '/:id/read',
+  authenticateToken,
+  requireRole(...NOTIFIED_ROLES),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const idParam = req.params.id;
+      const notificationId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(notificationId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid notification ID'
+        });
+      }
+
+      const result = await prisma.notification.updateMany({
+        where: { id: notificationId, userId },
+        data: { read: true }
+      });
+
+      if (result.count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Notification not found'
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Notification marked as read',
+        data: { unreadCount: await unreadCount(userId) }
+      });
+    } catch (error) {
+      console.error('Mark notification read error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+);
+
+// DELETE /notifications/:id - Remove a notification
+router.delete('/:id', authenticateToken, requireRole(...NOTIFIED_ROLES), async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const idParam = req.params.id;
+    const notificationId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+    if (isNaN(notificationId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid notification ID'
+      });
+    }
+
+    const result = await prisma.notification.deleteMany({
+      where: { id: notificationId, userId }
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Notification deleted',
+      data: { unreadCount: await unreadCount(userId) }
+    });
+  } catch (error) {
+    console.error('Delete notification error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while deleting notification'
+    });
+  }
+});
+
+export default router;
@@ -3,6 +3,63 @@ import crypto from 'crypto';
 import prisma from '../prisma';
 import { AuthRequest, authenticateToken, requireRole } from '../middleware/auth';
 import { sendOtpEmail, sendRejectionEmail } from '../services/email';
+import { ApprovalChainError, resolveChainPosition } from '../services/approvalChain';
+import { OtpError, discardOtpChallenge, issueOtpChallenge, verifyOtpChallenge } from '../services/otp';
+import {
+  AssignmentTransitionError,
+  IN_REVIEW_STATUSES,
+  allowedActions,
+  assertTransition,
+  formatTimelineEntry,
+  historyTimelineSelect,
+  transitionAssignment
+} from '../services/assignmentTransitions';
+import {
+  CommentError,
+  createAssignmentComment,
+  getAssignmentParticipants,
+  listCommentThreads
+} from '../services/assignmentComments';
+import { findAccessibleAssignment } from '../services/fileAccess';
+import { MAX_CHANGE_REQUEST_ITEMS, latestChangeRequests } from '../services/changeRequests';
+import {
+  RubricError,
+  assertRubricComplete,
+  findRubric,
+  formatRubric,
+  getAssignmentGrading,
+  parseRubricInput,
+  replaceRubricParts,
+  rubricInclude,
+  saveAssignmentScores
+} from '../services/rubrics';
+import { briefSelect, formatBrief, parseBriefInput, parseCourseInput } from '../services/courses';
+import { effectiveDueDate } from '../services/deadlines';
+import { openReviewCounts, parseSpecialisations, specialisationList } from '../services/reviewerAssignment';
+import {
+  DelegationError,
+  isOutOfOffice,
+  parseOutOfOfficeInput,
+  reassignPendingToDelegate
+} from '../services/delegation';
+import {
+  PANEL_VOTES,
+  PanelReviewError,
+  PanelVote,
+  assertNoOpenPanel,
+  getPanelReview,
+  recordPanelVote
+} from '../services/panelReview';
+import { listGroupMembers } from '../services/groupMembers';
+import { ApprovalSignatureError, approvalSigner } from '../services/approvalSignatures';
+import { handleSignatureUploadError, uploadSignatureImage } from '../middleware/upload';
+import {
+  SignatureImageError,
+  currentSignatureImageId,
+  getSignatureImage,
+  removeSignatureImage,
+  saveSignatureImage
+} from '../services/signatureImages';
 
 const router = Router();
 
@@ -11,7 +68,7 @@ const STATUS_LABELS: Record<string, string> = {
   SUBMITTED: 'Submitted',
   APPROVED: 'Approved',
   REJECTED: 'Rejected',
-  PENDING: 'Pending',
+  PENDING: 'Changes Requested',
   FORWARDED: 'Forwarded'
 };
 
@@ -23,16 +80,15 @@ const STATUS_COLORS: Record<string, string> = {
   PENDING: 'yellow'
 };
 
-// In-memory OTP store: key = assignmentId:professorId
-const otpStore = new Map<
-  string,
-  { otp: string; expiresAt: number; remarks?: string; signature?: string }
->();
-
-const OTP_EXPIRY_MS = 10 * 60 * 1000; // 10 minutes
-
-function generateOtp(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+function sendOtpError(res: Response, error: OtpError) {
+  if (error.retryAfterSeconds) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  }
+  return res.status(error.status).json({
+    success: false,
+    message: error.message,
+    ...(error.retryAfterSeconds ? { retryAfterSeconds: error.retryAfterSeconds } : {})
+  });
 }
 
 function signatureHash(signature: string): string {
@@ -50,8 +106,8 @@ router.get(
 
       const pendingAssignments = await prisma.assignment.findMany({
         where: {
-          reviewerId: professorId,
-          status: { in: ['SUBMITTED', 'FORWARDED'] }
+          OR: [{ reviewerId: professorId }, { panelMembers: { some: { reviewerId: professorId } } }],
+          status: { in: IN_REVIEW_STATUSES }
         },
         orderBy: {
           submittedAt: 'asc'
@@ -60,12 +116,23 @@ router.get(
           id: true,
           title: true,
           submittedAt: true,
+          dueDate: true,
+          isLate: true,
+          latePenaltyPercent: true,
           student: {
             select: {
               id: true,
               name: true,
               email: true
             }
+          },
+          brief: {
+            select: {
+              id: true,
+              title: true,
+              dueDate: true,
+              course: { select: { id: true, code: true, name: true } }
+            }
           }
         }
       });
@@ -83,16 +150,35 @@ router.get(
           studentName: a.student.name,
           studentEmail: a.student.email,
           submittedAt: a.submittedAt,
-          daysPending
+          daysPending,
+          isLate: a.isLate,
+          latePenaltyPercent: a.latePenaltyPercent,
+          dueDate: effectiveDueDate(a),
+          brief: a.brief
         };
       });
 
+      // Queue grouped by brief, soonest due first; submissions without a brief go last
+      const groupsByBrief = new Map<number | null, { brief: Row['brief']; assignments: typeof assignments }>();
+      for (const assignment of assignments) {
+        const key = assignment.brief?.id ?? null;
+        const group = groupsByBrief.get(key) ?? { brief: assignment.brief, assignments: [] };
+        group.assignments.push(assignment);
+        groupsByBrief.set(key, group);
+      }
+      const groups = Array.from(groupsByBrief.values()).sort((a, b) => {
+        if (!a.brief) return 1;
+        if (!b.brief) return -1;
+        return a.brief.dueDate.getTime() - b.brief.dueDate.getTime();
+      });
+
       return res.json({
         success: true,
         message: 'Professor dashboard retrieved successfully',
         data: {
           pendingCount: assignments.length,
-          assignments
+          assignments,
+          groups
         }
       });
     } catch (error) {
@@ -105,89 +191,6 @@ router.get(
   }
 );
 
-// GET /professor/notifications - Unread notifications for new submissions
-router.get(
-  '/notifications',
-  authenticateToken,
-  requireRole('PROFESSOR'),
-  async (req: AuthRequest, res: Response) => {
-    try {
-      const professorId = req.user!.id;
-
-      const notifications = await prisma.notification.findMany({
-        where: {
-          userId: professorId,
-          read: false
-        },
-        orderBy: { createdAt: 'desc' },
-        take: 20,
-        select: {
-          id: true,
-          message: true,
-          type: true,
-          read: true,
-          assignmentId: true,
-          createdAt: true
-        }
-      });
-
-      return res.json({
-        success: true,
-        message: 'Notifications retrieved successfully',
-        data: {
-          notifications
-        }
-      });
-    } catch (error) {
-      console.error('Professor notifications error:', error);
-      return res.status(500).json({
-        success: false,
-        message: 'Internal server error while loading notifications'
-      });
-    }
-  }
-);
-
-// PATCH /professor/notifications/:id/read - Mark notification as read
-router.patch(
-  '/notifications/:id/read',
-  authenticateToken,
-  requireRole('PROFESSOR'),
-  async (req: AuthRequest, res: Response) => {
-    try {
-      const professorId = req.user!.id;
-      const idParam = req.params.id;
-      const notificationId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
-
-      if (isNaN(notificationId)) {
-        return res.status(400).json({
-          success: false,
-          message: 'Invalid notification ID'
-        });
-      }
-
-      await prisma.notification.updateMany({
-        where: {
-          id: notificationId,
-          userId: professorId
-        },
-        data: { read: true }
-      });
-
-      return res.json({
-        success: true,
-        message: 'Notification marked as read'
-      });
-    } catch (error) {
-      console.error('Mark notification read error:', error);
-      return res.status(500).json({
-        success: false,
-        message: 'Internal server error'
-      });
-    }
-  }
-);
-
 // GET /professor/assignments/:id/review - Get assignment for review (details + file info)
 router.get(
   '/assignments/:id/review',
@@ -209,8 +212,8 @@ router.get(
       const assignment = await prisma.assignment.findFirst({
         where: {
           id: assignmentId,
-          reviewerId: professorId,
-          status: { in: ['SUBMITTED', 'FORWARDED'] }
+          OR: [{ reviewerId: professorId }, { panelMembers: { some: { reviewerId: professorId } } }],
+          status: { in: IN_REVIEW_STATUSES }
         },
         select: {
           id: true,
@@ -221,7 +224,13 @@ router.get(
           filePath: true,
           createdAt: true,
           submittedAt: true,
+          approvalStage: true,
           reviewerId: true,
+          dueDate: true,
+          isLate: true,
+          latePenaltyPercent: true,
+          brief: { select: briefSelect },
+          _count: { select: { versions: true } },
           reviewer: {
             select: {
               id: true,
@@ -234,26 +243,13 @@ router.get(
             select: {
               id: true,
               name: true,
-              email: true
+              email: true,
+              departmentId: true
             }
           },
           history: {
             orderBy: { createdAt: 'asc' },
-            select: {
-              id: true,
-              action: true,
-              remark: true,
-              signature: true,
-              createdAt: true,
-              reviewer: {
-                select: {
-                  id: true,
-                  name: true,
-                  email: true,
-                  role: true
-                }
-              }
-            }
+            select: historyTimelineSelect
           }
         }
       });
@@ -265,6 +261,16 @@ router.get(
         });
       }
 
+      // Panel members who do not chair only vote; while the vote is undecided nobody approves or rejects alone
+      const panel = await getPanelReview(assignment);
+      const decidedByPanel = panel !== null && (panel.open || panel.awaitingPanel);
+      const actions =
+        assignment.reviewerId !== professorId
+          ? []
+          : allowedActions(assignment.status, req.user!.role).filter(
+              (action) => !decidedByPanel || !['APPROVE', 'REJECT', 'ADVANCE_STAGE'].includes(action)
+            );
+
       const formatted = {
         id: assignment.id,
         title: assignment.title,
@@ -276,21 +282,24 @@ router.get(
         filePath: assignment.filePath,
         createdAt: assignment.createdAt,
         submittedAt: assignment.submittedAt,
-        student: assignment.student,
+        approvalStage: assignment.approvalStage,
+        allowedActions: actions,
+        panel,
+        versionCount: assignment._count.versions,
+        changeRequest: await latestChangeRequests(assignment.id),
+        grading: await getAssignmentGrading(assignment),
+        brief: assignment.brief ? formatBrief(assignment.brief) : null,
+        dueDate: effectiveDueDate(assignment),
+        isLate: assignment.isLate,
+        latePenaltyPercent: assignment.latePenaltyPercent,
+        student: {
+          id: assignment.student.id,
+          name: assignment.student.name,
+          email: assignment.student.email
+        },
+        members: await listGroupMembers(assignment.id),
         reviewer: assignment.reviewer,
-        history: assignment.history.map((h) => ({
-          id: h.id,
-          action: h.action,
-          remark: h.remark,
-          signature: h.signature || h.reviewer.name,
-          createdAt: h.createdAt,
-          reviewer: {
-            id: h.reviewer.id,
-            name: h.reviewer.name,
-            email: h.reviewer.email,
-            role: h.reviewer.role
-          }
-        }))
+        history: assignment.history.map(formatTimelineEntry)
       };
 
       return res.json({
@@ -312,7 +321,7 @@ router.get(
 router.post(
   '/assignments/:id/approve/request-otp',
   authenticateToken,
-  requireRole('PROFESSOR'),
+  requireRole('PROFESSOR', 'HOD'),
   async (req: AuthRequest, res: Response) => {
     try {
       const professorId = req.user!.id;
@@ -332,31 +341,33 @@ router.post(
       const assignment = await prisma.assignment.findFirst({
         where: {
           id: assignmentId,
-          reviewerId: professorId,
-          status: 'SUBMITTED'
+          reviewerId: professorId
         },
-        select: { id: true, title: true }
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          category: true,
+          student: { select: { departmentId: true } }
+        }
       });
 
       if (!assignment) {
         return res.status(404).json({
           success: false,
-          message: 'Assignment not found or not pending your review'
+          message: 'Assignment not found or not assigned to you'
         });
       }
 
-      const otp = generateOtp();
-      const key = `${assignmentId}:${professorId}`;
-      otpStore.set(key, {
-        otp,
-        expiresAt: Date.now() + OTP_EXPIRY_MS,
-        ...(remarks ? { remarks } : {}),
-        ...(signature ? { signature } : {})
-      });
+      assertTransition(assignment.status, 'APPROVE', req.user!.role);
+      await assertNoOpenPanel(assignment);
+      await assertRubricComplete(assignment);
+
+      const otp = await issueOtpChallenge(assignmentId, professorId, { remarks, signature });
 
       const sent = await sendOtpEmail(professorEmail, otp);
       if (!sent) {
-        otpStore.delete(key);
+        await discardOtpChallenge(assignmentId, professorId);
         return res.status(500).json({
           success: false,
           message: 'Failed to send OTP to your email. Please try again.'
@@ -368,6 +379,21 @@ router.post(
         message: 'OTP sent to your email. Enter it below to approve.'
       });
     } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof OtpError) {
+        return sendOtpError(res, error);
+      }
+      if (error instanceof RubricError) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      if (error instanceof PanelReviewError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
       console.error('Request OTP error:', error);
       return res.status(500).json({
         success: false,
@@ -377,11 +403,11 @@ router.post(
   }
 );
 
-// POST /professor/assignments/:id/approve/verify - Verify OTP and approve assignment
+// POST /professor/assignments/:id/approve/verify - Verify OTP and approve (or advance) assignment
 router.post(
   '/assignments/:id/approve/verify',
   authenticateToken,
-  requireRole('PROFESSOR'),
+  requireRole('PROFESSOR', 'HOD'),
   async (req: AuthRequest, res: Response) => {
     try {
       const professorId = req.user!.id;
@@ -409,27 +435,7 @@ router.post(
         });
       }
 
-      const key = `${assignmentId}:${professorId}`;
-      const stored = otpStore.get(key);
-      if (!stored) {
-        return res.status(400).json({
-          success: false,
-          message: 'No OTP found. Please request a new one.'
-        });
-      }
-      if (Date.now() > stored.expiresAt) {
-        otpStore.delete(key);
-        return res.status(400).json({
-          success: false,
-          message: 'OTP has expired. Please request a new one.'
-        });
-      }
-      if (stored.otp !== otp.trim()) {
-        return res.status(400).json({
-          success: false,
-          message: 'Invalid OTP. Please try again.'
-        });
-      }
+      const stored = await verifyOtpChallenge(assignmentId, professorId, otp, req.ip);
 
       const finalRemarks = remarks ?? stored.remarks ?? '';
       const finalSignature = signature ?? stored.signature ?? professorName;
@@ -441,56 +447,128 @@ router.post(
       const signatureForHistory = finalSignature
         ? signatureHash(finalSignature)
         : (professor?.name ?? professorName);
+      const signatureImageId = await currentSignatureImageId(professorId);
 
       const assignment = await prisma.assignment.findFirst({
         where: {
           id: assignmentId,
-          reviewerId: professorId,
-          status: 'SUBMITTED'
+          reviewerId: professorId
         },
-        select: { id: true, studentId: true, title: true }
+        select: {
+          id: true,
+          studentId: true,
+          title: true,
+          status: true,
+          category: true,
+          approvalStage: true,
+          student: { select: { departmentId: true } }
+        }
       });
 
       if (!assignment) {
-        otpStore.delete(key);
+        await discardOtpChallenge(assignmentId, professorId);
         return res.status(404).json({
           success: false,
           message: 'Assignment not found or already processed'
         });
       }
 
-      await prisma.$transaction([
-        prisma.assignment.update({
-          where: { id: assignmentId },
-          data: { status: 'APPROVED' }
-        }),
-        prisma.assignmentHistory.create({
-          data: {
-            assignmentId,
-            reviewerId: professorId,
-            action: 'APPROVED',
+      assertTransition(assignment.status, 'APPROVE', req.user!.role);
+      await assertNoOpenPanel(assignment);
+      await assertRubricComplete(assignment);
+
+      const chain = await resolveChainPosition(assignment);
+      const currentStage = chain.current?.order ?? null;
+      const signApproval = await approvalSigner(assignmentId, professorId, chain.next ? 'STAGE_APPROVED' : 'APPROVED');
+
+      // More stages to go: hand the assignment to the next approver instead of finalising
+      if (chain.next) {
+        const next = chain.next;
+        await transitionAssignment({
+          assignmentId,
+          action: 'ADVANCE_STAGE',
+          actor: req.user!,
+          data: { reviewerId: next.approver.id, approvalStage: next.order },
+          history: {
+            stage: currentStage,
             remark: finalRemarks || null,
-            signature: signatureForHistory
-          }
-        }),
-        prisma.notification.create({
-          data: {
+            signature: signatureForHistory,
+            signatureImageId
+          },
+          afterHistory: signApproval,
+          notifications: [
+            {
+              message: `Assignment "${assignment.title}" is awaiting your approval (stage ${next.order} of ${chain.totalStages}: ${next.name}).`,
+              type: 'ASSIGNMENT_STAGE_PENDING',
+              userId: next.approver.id
+            },
+            {
+              message: `Your assignment "${assignment.title}" passed ${chain.current?.name ?? 'review'} and moved to ${next.name}.`,
+              type: 'ASSIGNMENT_STAGE_APPROVED',
+              userId: assignment.studentId
+            }
+          ]
+        });
+
+        await discardOtpChallenge(assignmentId, professorId);
+
+        return res.json({
+          success: true,
+          message: `Stage approved. The assignment has been sent to ${next.approver.name} for ${next.name}.`
+        });
+      }
+
+      await transitionAssignment({
+        assignmentId,
+        action: 'APPROVE',
+        actor: req.user!,
+        history: {
+          stage: currentStage,
+          remark: finalRemarks || null,
+          signature: signatureForHistory,
+          signatureImageId
+        },
+        afterHistory: signApproval,
+        notifications: [
+          {
             message: `Your assignment "${assignment.title}" has been approved.`,
             type: 'ASSIGNMENT_APPROVED',
-            userId: assignment.studentId,
-            assignmentId,
-            read: false
+            userId: assignment.studentId
           }
-        })
-      ]);
+        ]
+      });
 
-      otpStore.delete(key);
+      await discardOtpChallenge(assignmentId, professorId);
 
       return res.json({
         success: true,
         message: 'Assignment approved successfully. The student has been notified.'
       });
     } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof OtpError) {
+        return sendOtpError(res, error);
+      }
+      if (error instanceof ApprovalChainError) {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+      if (error instanceof RubricError) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      if (error instanceof PanelReviewError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      if (error instanceof ApprovalSignatureError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
       console.error('Verify approve error:', error);
       return res.status(500).json({
         success: false,
@@ -608,8 +686,7 @@ router.post(
       const assignment = await prisma.assignment.findFirst({
         where: {
           id: assignmentId,
-          reviewerId: professorId,
-          status: { in: ['SUBMITTED', 'FORWARDED'] }
+          reviewerId: professorId
         },
         select: { id: true, title: true }
       });
@@ -628,38 +705,34 @@ router.post(
       const forwardNote = typeof note === 'string' ? note.trim() : '';
       const signatureForHistory = professor?.name ?? req.user!.email;
 
-      await prisma.$transaction([
-        prisma.assignment.update({
-          where: { id: assignmentId },
-          data: { reviewerId: newReviewerId, status: 'FORWARDED' }
-        }),
-        prisma.assignmentHistory.create({
-          data: {
-            assignmentId,
-            reviewerId: professorId,
-            action: 'FORWARDED',
-            remark: forwardNote || null,
-            signature: signatureForHistory
-          }
-        }),
-        prisma.notification.create({
-          data: {
+      await transitionAssignment({
+        assignmentId,
+        action: 'FORWARD',
+        actor: req.user!,
+        data: { reviewerId: newReviewerId },
+        history: {
+          remark: forwardNote || null,
+          signature: signatureForHistory
+        },
+        notifications: [
+          {
             message: forwardNote
               ? `Assignment "${assignment.title}" forwarded to you for review. Note: ${forwardNote.slice(0, 150)}${forwardNote.length > 150 ? '...' : ''}`
               : `Assignment "${assignment.title}" has been forwarded to you for review.`,
             type: 'ASSIGNMENT_FORWARDED',
-            userId: newReviewerId,
-            assignmentId,
-            read: false
+            userId: newReviewerId
           }
-        })
-      ]);
+        ]
+      });
 
       return res.json({
         success: true,
         message: 'Assignment forwarded successfully. The new reviewer has been notified.'
       });
     } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
       console.error('Forward assignment error:', error);
       return res.status(500).json({
         success: false,
@@ -669,11 +742,138 @@ router.post(
   }
 );
 
-// POST /professor/assignments/:id/reject - Reject assignment with mandatory feedback
+// POST /professor/assignments/:id/return - HOD sends an assignment back down to a professor
 router.post(
-  '/assignments/:id/reject',
+  '/assignments/:id/return',
+  authenticateToken,
+  requireRole('HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const hodId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const { returnToId, note } = req.body as { returnToId?: number; note?: string };
+      const trimmedNote = typeof note === 'string' ? note.trim() : '';
+
+      if (!trimmedNote) {
+        return res.status(400).json({
+          success: false,
+          message: 'Please explain why the assignment is being sent back'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: {
+          id: assignmentId,
+          reviewerId: hodId
+        },
+        select: {
+          id: true,
+          title: true,
+          approvalStage: true,
+          history: {
+            where: {
+              action: { in: ['SUBMITTED', 'FORWARDED', 'STAGE_APPROVED'] },
+              reviewerId: { not: hodId }
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: { reviewerId: true, action: true, stage: true }
+          }
+        }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found or not under your review'
+        });
+      }
+
+      // Default to whoever passed the assignment up to the HOD
+      const previous = assignment.history[0];
+      const targetId = typeof returnToId === 'number' ? returnToId : previous?.reviewerId;
+      if (!targetId || targetId === hodId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Please select a professor to send the assignment back to'
+        });
+      }
+
+      const hod = await prisma.user.findUnique({
+        where: { id: hodId },
+        select: { name: true, departmentId: true }
+      });
+      const target = await prisma.user.findFirst({
+        where: {
+          id: targetId,
+          departmentId: hod?.departmentId ?? -1,
+          role: { in: ['PROFESSOR', 'HOD'] }
+        },
+        select: { id: true, name: true }
+      });
+      if (!target) {
+        return res.status(400).json({
+          success: false,
+          message: 'Selected recipient is not a valid professor in your department'
+        });
+      }
+
+      // Returning to the approver of an earlier stage re-opens that stage
+      const approvalStage =
+        previous?.action === 'STAGE_APPROVED' && previous.reviewerId === target.id
+          ? previous.stage
+          : assignment.approvalStage;
+
+      await transitionAssignment({
+        assignmentId,
+        action: 'RETURN',
+        actor: req.user!,
+        data: { reviewerId: target.id, approvalStage },
+        history: {
+          stage: assignment.approvalStage,
+          remark: trimmedNote,
+          signature: hod?.name ?? req.user!.email
+        },
+        notifications: [
+          {
+            message: `Assignment "${assignment.title}" was sent back to you by the HOD. Note: ${trimmedNote.slice(0, 150)}${trimmedNote.length > 150 ? '...' : ''}`,
+            type: 'ASSIGNMENT_RETURNED',
+            userId: target.id
+          }
+        ]
+      });
+
+      return res.json({
+        success: true,
+        message: `Assignment sent back to ${target.name}.`
+      });
+    } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error('Return assignment error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+);
+
+// POST /professor/assignments/:id/request-changes - Send back to the student with a checklist, keeping the reviewer
+router.post(
+  '/assignments/:id/request-changes',
   authenticateToken,
-  requireRole('PROFESSOR'),
+  requireRole('PROFESSOR', 'HOD'),
   async (req: AuthRequest, res: Response) => {
     try {
       const professorId = req.user!.id;
@@ -687,80 +887,99 @@ router.post(
         });
       }
 
-      const { remark } = req.body as { remark?: string };
+      const { remark, items } = req.body as { remark?: string; items?: unknown };
       const trimmedRemark = typeof remark === 'string' ? remark.trim() : '';
+      const checklist = Array.isArray(items)
+        ? items
+            .filter((item): item is string => typeof item === 'string')
+            .map((item) => item.trim())
+            .filter((item) => item.length > 0)
+        : [];
+
+      if (checklist.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'List at least one change the student needs to make'
+        });
+      }
 
-      if (trimmedRemark.length < 10) {
+      if (checklist.length > MAX_CHANGE_REQUEST_ITEMS) {
         return res.status(400).json({
           success: false,
-          message: 'Feedback is required and must be at least 10 characters so the student can improve.'
+          message: `A change request can have at most ${MAX_CHANGE_REQUEST_ITEMS} items`
         });
       }
 
       const assignment = await prisma.assignment.findFirst({
         where: {
           id: assignmentId,
-          reviewerId: professorId,
-          status: 'SUBMITTED'
+          reviewerId: professorId
         },
         select: {
           id: true,
           title: true,
+          status: true,
+          category: true,
           studentId: true,
-          student: { select: { email: true, name: true } }
+          approvalStage: true,
+          student: { select: { departmentId: true } }
         }
       });
 
       if (!assignment) {
         return res.status(404).json({
           success: false,
-          message: 'Assignment not found or not pending your review'
+          message: 'Assignment not found or not under your review'
         });
       }
 
+      await assertNoOpenPanel(assignment);
+
       const professor = await prisma.user.findUnique({
         where: { id: professorId },
         select: { name: true }
       });
-      const signatureForHistory = professor?.name ?? req.user!.email;
 
-      await prisma.$transaction([
-        prisma.assignment.update({
-          where: { id: assignmentId },
-          data: { status: 'REJECTED', reviewerId: null }
-        }),
-        prisma.assignmentHistory.create({
-          data: {
-            assignmentId,
-            reviewerId: professorId,
-            action: 'REJECTED',
-            remark: trimmedRemark,
-            signature: signatureForHistory
-          }
-        }),
-        prisma.notification.create({
-          data: {
-            message: `Your assignment "${assignment.title}" has been rejected. Feedback: ${trimmedRemark.slice(0, 100)}${trimmedRemark.length > 100 ? '...' : ''}`,
-            type: 'ASSIGNMENT_REJECTED',
-            userId: assignment.studentId,
-            assignmentId,
-            read: false
+      await transitionAssignment({
+        assignmentId,
+        action: 'REQUEST_CHANGES',
+        actor: req.user!,
+        history: {
+          stage: assignment.approvalStage,
+          remark: trimmedRemark || null,
+          signature: professor?.name ?? req.user!.email
+        },
+        notifications: [
+          {
+            message: `Changes requested on "${assignment.title}": ${checklist.length} item${checklist.length !== 1 ? 's' : ''} to address before resubmitting.`,
+            type: 'ASSIGNMENT_CHANGES_REQUESTED',
+            userId: assignment.studentId
           }
-        })
-      ]);
-
-      await sendRejectionEmail(
-        assignment.student.email,
-        assignment.title,
-        trimmedRemark
-      );
+        ],
+        afterHistory: async (tx, history) => {
+          await tx.assignmentChangeRequest.createMany({
+            data: checklist.map((description, index) => ({
+              assignmentId,
+              historyId: history.id,
+              order: index + 1,
+              description
+            }))
+          });
+        }
+      });
 
       return res.json({
         success: true,
-        message: 'Assignment rejected. The student has been notified and can resubmit.'
+        message: 'Changes requested. The student has been notified and will resubmit to you.'
       });
     } catch (error) {
-      console.error('Reject assignment error:', error);
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof PanelReviewError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      console.error('Request changes error:', error);
       return res.status(500).json({
         success: false,
         message: 'Internal server error'
@@ -769,4 +988,1053 @@ router.post(
   }
 );
 
+// POST /professor/assignments/:id/reject - Reject assignment with mandatory feedback
+router.post(
+  '/assignments/:id/reject',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const professorId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const { remark } = req.body as { remark?: string };
+      const trimmedRemark = typeof remark === 'string' ? remark.trim() : '';
+
+      if (trimmedRemark.length < 10) {
+        return res.status(400).json({
+          success: false,
+          message: 'Feedback is required and must be at least 10 characters so the student can improve.'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: {
+          id: assignmentId,
+          reviewerId: professorId
+        },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          category: true,
+          studentId: true,
+          student: { select: { email: true, name: true, departmentId: true } }
+        }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found or not pending your review'
+        });
+      }
+
+      await assertNoOpenPanel(assignment);
+
+      const professor = await prisma.user.findUnique({
+        where: { id: professorId },
+        select: { name: true }
+      });
+      const signatureForHistory = professor?.name ?? req.user!.email;
+
+      await transitionAssignment({
+        assignmentId,
+        action: 'REJECT',
+        actor: req.user!,
+        data: { reviewerId: null, approvalStage: null },
+        history: {
+          remark: trimmedRemark,
+          signature: signatureForHistory
+        },
+        notifications: [
+          {
+            message: `Your assignment "${assignment.title}" has been rejected. Feedback: ${trimmedRemark.slice(0, 100)}${trimmedRemark.length > 100 ? '...' : ''}`,
+            type: 'ASSIGNMENT_REJECTED',
+            userId: assignment.studentId
+          }
+        ]
+      });
+
+      await sendRejectionEmail(
+        assignment.student.email,
+        assignment.title,
+        trimmedRemark
+      );
+
+      return res.json({
+        success: true,
+        message: 'Assignment rejected. The student has been notified and can resubmit.'
+      });
+    } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof PanelReviewError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      console.error('Reject assignment error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+);
+
+// POST /professor/assignments/:id/panel-vote - A panel member approves or rejects the current submission
+router.post(
+  '/assignments/:id/panel-vote',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const professorId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const { vote, remarks, signature } = req.body as { vote?: string; remarks?: string; signature?: string };
+      const normalizedVote = typeof vote === 'string' ? vote.toUpperCase() : '';
+      const trimmedRemarks = typeof remarks === 'string' ? remarks.trim() : '';
+      const trimmedSignature = typeof signature === 'string' ? signature.trim() : '';
+
+      if (!(PANEL_VOTES as readonly string[]).includes(normalizedVote)) {
+        return res.status(400).json({
+          success: false,
+          message: `Vote must be one of: ${PANEL_VOTES.join(', ')}`
+        });
+      }
+      if (normalizedVote === 'REJECT' && trimmedRemarks.length < 10) {
+        return res.status(400).json({
+          success: false,
+          message: 'A rejection needs remarks of at least 10 characters so the student can improve.'
+        });
+      }
+      if (!trimmedSignature) {
+        return res.status(400).json({
+          success: false,
+          message: 'Sign your vote before submitting it'
+        });
+      }
+
+      const professor = await prisma.user.findUniqueOrThrow({
+        where: { id: professorId },
+        select: { name: true }
+      });
+
+      const result = await recordPanelVote({
+        assignmentId,
+        voter: { id: professorId, role: req.user!.role, name: professor.name },
+        vote: normalizedVote as PanelVote,
+        remarks: trimmedRemarks || null,
+        signature: signatureHash(trimmedSignature)
+      });
+
+      const tally = `${result.approvals} approve, ${result.rejections} reject`;
+      const message = !result.outcome
+        ? `Vote recorded (${tally}). The panel has not reached a decision yet.`
+        : result.outcome === 'REJECT'
+          ? `Vote recorded. The panel rejected the assignment (${tally}) and the student has been notified.`
+          : result.next
+            ? `Vote recorded. The panel approved (${tally}) and the assignment moved to ${result.next.name} with ${result.next.approver}.`
+            : `Vote recorded. The panel approved the assignment (${tally}) and the student has been notified.`;
+
+      return res.json({
+        success: true,
+        message,
+        data: { outcome: result.outcome, approvals: result.approvals, rejections: result.rejections }
+      });
+    } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof PanelReviewError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      if (error instanceof ApprovalChainError) {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+      if (error instanceof ApprovalSignatureError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      if (error instanceof RubricError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      console.error('Panel vote error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+);
+
+// GET /professor/assignments/:id/comments - Comment threads and the people who can be mentioned
+router.get(
+  '/assignments/:id/comments',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await findAccessibleAssignment(req.user!, assignmentId);
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      const [threads, participants] = await Promise.all([
+        listCommentThreads(assignmentId),
+        getAssignmentParticipants(assignmentId)
+      ]);
+
+      return res.json({
+        success: true,
+        message: 'Comments retrieved successfully',
+        data: { threads, participants }
+      });
+    } catch (error) {
+      console.error('Get assignment comments error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while retrieving comments'
+      });
+    }
+  }
+);
+
+// POST /professor/assignments/:id/comments - Add a comment, or a reply when parentId is given
+router.post(
+  '/assignments/:id/comments',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await findAccessibleAssignment(req.user!, assignmentId);
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      const { body, parentId, mentionIds } = req.body as {
+        body?: string;
+        parentId?: number;
+        mentionIds?: number[];
+      };
+
+      const comment = await createAssignmentComment({
+        assignmentId,
+        authorId: req.user!.id,
+        body,
+        parentId,
+        mentionIds
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Comment added',
+        data: { comment }
+      });
+    } catch (error) {
+      if (error instanceof CommentError) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      console.error('Create assignment comment error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while adding comment'
+      });
+    }
+  }
+);
+
+// PUT /professor/assignments/:id/scores - Save rubric scores for an assignment under your review
+router.put(
+  '/assignments/:id/scores',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: {
+          id: assignmentId,
+          reviewerId: req.user!.id,
+          status: { in: IN_REVIEW_STATUSES }
+        },
+        select: {
+          id: true,
+          category: true,
+          latePenaltyPercent: true,
+          student: { select: { departmentId: true } }
+        }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found or not pending your review'
+        });
+      }
+
+      const grading = await saveAssignmentScores(
+        assignment,
+        req.user!.id,
+        (req.body as { scores?: unknown }).scores
+      );
+
+      return res.json({
+        success: true,
+        message: 'Scores saved',
+        data: { grading }
+      });
+    } catch (error) {
+      if (error instanceof RubricError) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      console.error('Save assignment scores error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while saving scores'
+      });
+    }
+  }
+);
+
+async function reviewerDepartmentId(userId: number) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { departmentId: true }
+  });
+  return user?.departmentId ?? null;
+}
+
+// PUT /professor/assignments/:id/due-date - Set (or clear) an individual deadline, e.g. an extension
+router.put(
+  '/assignments/:id/due-date',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const { dueDate } = req.body as { dueDate?: string | null };
+      const parsedDueDate = dueDate === null || dueDate === '' ? null : new Date(String(dueDate));
+      if (parsedDueDate && Number.isNaN(parsedDueDate.getTime())) {
+        return res.status(400).json({
+          success: false,
+          message: 'A valid due date is required, or null to fall back to the brief'
+        });
+      }
+
+      // The professor who set the brief, or whoever currently has the assignment
+      const assignment = await prisma.assignment.findFirst({
+        where: {
+          id: assignmentId,
+          OR: [{ reviewerId: req.user!.id }, { brief: { course: { professorId: req.user!.id } } }]
+        },
+        select: {
+          id: true,
+          title: true,
+          studentId: true,
+          brief: { select: { dueDate: true } },
+          members: { select: { studentId: true } }
+        }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found or not yours to manage'
+        });
+      }
+
+      const updated = await prisma.assignment.update({
+        where: { id: assignmentId },
+        data: { dueDate: parsedDueDate },
+        select: { id: true, dueDate: true, brief: { select: { dueDate: true } } }
+      });
+      const effective = effectiveDueDate(updated);
+
+      await prisma.notification.createMany({
+        data: [assignment.studentId, ...assignment.members.map((m) => m.studentId)].map((userId) => ({
+          message: effective
+            ? `The deadline for "${assignment.title}" is now ${effective.toLocaleString()}.`
+            : `The deadline for "${assignment.title}" has been removed.`,
+          type: 'ASSIGNMENT_DEADLINE_CHANGED',
+          userId,
+          assignmentId,
+          read: false
+        }))
+      });
+
+      return res.json({
+        success: true,
+        message: 'Deadline updated',
+        data: { assignment: { id: updated.id, dueDate: effective } }
+      });
+    } catch (error) {
+      console.error('Update due date error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating deadline'
+      });
+    }
+  }
+);
+
+// GET /professor/rubrics - Rubrics defined for your department
+router.get(
+  '/rubrics',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const departmentId = await reviewerDepartmentId(req.user!.id);
+      if (!departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You must be assigned to a department to manage rubrics'
+        });
+      }
+
+      const rubrics = await prisma.rubric.findMany({
+        where: { departmentId },
+        orderBy: { category: 'asc' },
+        include: rubricInclude
+      });
+
+      return res.json({
+        success: true,
+        message: 'Rubrics retrieved',
+        data: { rubrics: rubrics.map(formatRubric) }
+      });
+    } catch (error) {
+      console.error('List rubrics error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while listing rubrics'
+      });
+    }
+  }
+);
+
+// POST /professor/rubrics - Define the rubric for a category in your department
+router.post(
+  '/rubrics',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const departmentId = await reviewerDepartmentId(req.user!.id);
+      if (!departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You must be assigned to a department to manage rubrics'
+        });
+      }
+
+      const category = String((req.body as { category?: string }).category || '').toUpperCase();
+      if (!['ASSIGNMENT', 'THESIS', 'REPORT'].includes(category)) {
+        return res.status(400).json({
+          success: false,
+          message: 'category (ASSIGNMENT/THESIS/REPORT) is required'
+        });
+      }
+
+      if (await findRubric(departmentId, category)) {
+        return res.status(409).json({
+          success: false,
+          message: 'A rubric already exists for this category in your department'
+        });
+      }
+
+      const parsed = parseRubricInput(req.body);
+      if ('error' in parsed) {
+        return res.status(400).json({ success: false, message: parsed.error });
+      }
+
+      const rubric = await prisma.rubric.create({
+        data: {
+          departmentId,
+          category: category as 'ASSIGNMENT' | 'THESIS' | 'REPORT',
+          name: parsed.name,
+          createdById: req.user!.id,
+          criteria: { create: parsed.criteria.map(({ id: _id, ...criterion }) => criterion) },
+          bands: { create: parsed.bands }
+        },
+        include: rubricInclude
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Rubric created successfully',
+        data: { rubric: formatRubric(rubric) }
+      });
+    } catch (error) {
+      console.error('Create rubric error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating rubric'
+      });
+    }
+  }
+);
+
+// PUT /professor/rubrics/:id - Update a rubric of your department
+router.put(
+  '/rubrics/:id',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const idParam = req.params.id;
+      const rubricId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(rubricId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid rubric ID'
+        });
+      }
+
+      const departmentId = await reviewerDepartmentId(req.user!.id);
+      const existing = departmentId
+        ? await prisma.rubric.findFirst({ where: { id: rubricId, departmentId } })
+        : null;
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: 'Rubric not found in your department'
+        });
+      }
+
+      const parsed = parseRubricInput(req.body);
+      if ('error' in parsed) {
+        return res.status(400).json({ success: false, message: parsed.error });
+      }
+
+      const rubric = await replaceRubricParts(rubricId, parsed);
+
+      return res.json({
+        success: true,
+        message: 'Rubric updated successfully',
+        data: { rubric: formatRubric(rubric) }
+      });
+    } catch (error) {
+      if (error instanceof RubricError) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      console.error('Update rubric error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating rubric'
+      });
+    }
+  }
+);
+
+const courseInclude = {
+  briefs: {
+    orderBy: { dueDate: 'asc' as const },
+    select: { ...briefSelect, _count: { select: { assignments: true } } }
+  }
+};
+
+function formatCourse(course: {
+  id: number;
+  code: string;
+  name: string;
+  createdAt: Date;
+  briefs: Array<Parameters<typeof formatBrief>[0] & { _count: { assignments: number } }>;
+}) {
+  return {
+    id: course.id,
+    code: course.code,
+    name: course.name,
+    createdAt: course.createdAt,
+    briefs: course.briefs.map((brief) => ({
+      ...formatBrief(brief),
+      submissionCount: brief._count.assignments
+    }))
+  };
+}
+
+// GET /professor/courses - Courses you own, with their briefs
+router.get(
+  '/courses',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const courses = await prisma.course.findMany({
+        where: { professorId: req.user!.id },
+        orderBy: { code: 'asc' },
+        include: courseInclude
+      });
+
+      return res.json({
+        success: true,
+        message: 'Courses retrieved',
+        data: { courses: courses.map(formatCourse) }
+      });
+    } catch (error) {
+      console.error('List courses error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while listing courses'
+      });
+    }
+  }
+);
+
+// POST /professor/courses - Create a course in your department
+router.post(
+  '/courses',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const departmentId = await reviewerDepartmentId(req.user!.id);
+      if (!departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'You must be assigned to a department to create courses'
+        });
+      }
+
+      const parsed = parseCourseInput(req.body);
+      if ('error' in parsed) {
+        return res.status(400).json({ success: false, message: parsed.error });
+      }
+
+      const existing = await prisma.course.findUnique({
+        where: { departmentId_code: { departmentId, code: parsed.code } }
+      });
+      if (existing) {
+        return res.status(409).json({
+          success: false,
+          message: `Course ${parsed.code} already exists in your department`
+        });
+      }
+
+      const course = await prisma.course.create({
+        data: { ...parsed, departmentId, professorId: req.user!.id },
+        include: courseInclude
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Course created successfully',
+        data: { course: formatCourse(course) }
+      });
+    } catch (error) {
+      console.error('Create course error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating course'
+      });
+    }
+  }
+);
+
+// POST /professor/courses/:id/briefs - Publish an assignment brief for one of your courses
+router.post(
+  '/courses/:id/briefs',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const idParam = req.params.id;
+      const courseId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(courseId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid course ID'
+        });
+      }
+
+      const course = await prisma.course.findFirst({
+        where: { id: courseId, professorId: req.user!.id },
+        select: { id: true, code: true, departmentId: true }
+      });
+      if (!course) {
+        return res.status(404).json({
+          success: false,
+          message: 'Course not found or not owned by you'
+        });
+      }
+
+      const parsed = parseBriefInput(req.body);
+      if ('error' in parsed) {
+        return res.status(400).json({ success: false, message: parsed.error });
+      }
+
+      const brief = await prisma.assignmentBrief.create({
+        data: { ...parsed, courseId: course.id },
+        select: briefSelect
+      });
+
+      // Let the department's students know there is something new to work on
+      const students = await prisma.user.findMany({
+        where: { departmentId: course.departmentId, role: 'STUDENT' },
+        select: { id: true }
+      });
+      if (students.length > 0) {
+        await prisma.notification.createMany({
+          data: students.map((student) => ({
+            message: `New ${course.code} brief "${brief.title}" is due ${brief.dueDate.toLocaleDateString()}.`,
+            type: 'BRIEF_PUBLISHED',
+            userId: student.id,
+            read: false
+          }))
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        message: 'Brief published successfully',
+        data: { brief: formatBrief(brief) }
+      });
+    } catch (error) {
+      console.error('Create brief error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while publishing brief'
+      });
+    }
+  }
+);
+
+// PUT /professor/briefs/:id - Update a brief of one of your courses
+router.put(
+  '/briefs/:id',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const idParam = req.params.id;
+      const briefId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(briefId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid brief ID'
+        });
+      }
+
+      const existing = await prisma.assignmentBrief.findFirst({
+        where: { id: briefId, course: { professorId: req.user!.id } }
+      });
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: 'Brief not found or not owned by you'
+        });
+      }
+
+      const parsed = parseBriefInput(req.body);
+      if ('error' in parsed) {
+        return res.status(400).json({ success: false, message: parsed.error });
+      }
+
+      const brief = await prisma.assignmentBrief.update({
+        where: { id: briefId },
+        data: parsed,
+        select: briefSelect
+      });
+
+      return res.json({
+        success: true,
+        message: 'Brief updated successfully',
+        data: { brief: formatBrief(brief) }
+      });
+    } catch (error) {
+      console.error('Update brief error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating brief'
+      });
+    }
+  }
+);
+
+async function availabilityFor(userId: number) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      acceptingReviews: true,
+      specialisations: true,
+      outOfOfficeFrom: true,
+      outOfOfficeUntil: true,
+      delegate: { select: { id: true, name: true, email: true } }
+    }
+  });
+  const counts = await openReviewCounts([userId]);
+
+  return {
+    acceptingReviews: user.acceptingReviews,
+    specialisations: specialisationList(user),
+    openReviews: counts.get(userId) ?? 0,
+    outOfOfficeFrom: user.outOfOfficeFrom,
+    outOfOfficeUntil: user.outOfOfficeUntil,
+    isOutOfOffice: isOutOfOffice(user),
+    delegate: user.delegate
+  };
+}
+
+// GET /professor/availability - Whether you take auto-assigned reviews, and for which categories
+router.get(
+  '/availability',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      return res.json({
+        success: true,
+        data: { availability: await availabilityFor(req.user!.id) }
+      });
+    } catch (error) {
+      console.error('Get availability error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching availability'
+      });
+    }
+  }
+);
+
+// PUT /professor/availability - Pause auto-assignment, change specialisations, or set an out-of-office window and delegate
+router.put(
+  '/availability',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { acceptingReviews, specialisations } = req.body as {
+        acceptingReviews?: unknown;
+        specialisations?: unknown;
+      };
+
+      if (acceptingReviews !== undefined && typeof acceptingReviews !== 'boolean') {
+        return res.status(400).json({ success: false, message: 'acceptingReviews must be true or false' });
+      }
+
+      const parsed = specialisations !== undefined ? parseSpecialisations(specialisations) : null;
+      if (parsed && 'error' in parsed) {
+        return res.status(400).json({ success: false, message: parsed.error });
+      }
+
+      const outOfOffice = await parseOutOfOfficeInput(req.body, {
+        id: req.user!.id,
+        departmentId: await reviewerDepartmentId(req.user!.id)
+      });
+      if ('error' in outOfOffice) {
+        return res.status(400).json({ success: false, message: outOfOffice.error });
+      }
+
+      await prisma.user.update({
+        where: { id: req.user!.id },
+        data: {
+          ...(acceptingReviews !== undefined ? { acceptingReviews } : {}),
+          ...(parsed ? { specialisations: parsed.specialisations } : {}),
+          ...outOfOffice.data
+        }
+      });
+
+      return res.json({
+        success: true,
+        message: 'Availability updated',
+        data: { availability: await availabilityFor(req.user!.id) }
+      });
+    } catch (error) {
+      console.error('Update availability error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating availability'
+      });
+    }
+  }
+);
+
+// GET /professor/signature - The signature image attached to your approvals, if you registered one
+router.get(
+  '/signature',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      return res.json({
+        success: true,
+        data: { signature: await getSignatureImage(req.user!.id) }
+      });
+    } catch (error) {
+      console.error('Get signature image error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while fetching signature'
+      });
+    }
+  }
+);
+
+// PUT /professor/signature - Register or replace your signature image (PNG or JPEG)
+router.put(
+  '/signature',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  uploadSignatureImage.single('image'),
+  handleSignatureUploadError,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: 'Signature image is required'
+        });
+      }
+
+      const signature = await saveSignatureImage(req.user!.id, req.file.buffer);
+
+      return res.json({
+        success: true,
+        message: 'Signature saved. It will be attached to your approvals.',
+        data: { signature }
+      });
+    } catch (error) {
+      if (error instanceof SignatureImageError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      console.error('Save signature image error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while saving signature'
+      });
+    }
+  }
+);
+
+// DELETE /professor/signature - Stop attaching a signature image; past approvals keep theirs
+router.delete(
+  '/signature',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await removeSignatureImage(req.user!.id);
+
+      return res.json({
+        success: true,
+        message: 'Signature removed'
+      });
+    } catch (error) {
+      console.error('Remove signature image error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while removing signature'
+      });
+    }
+  }
+);
+
+// POST /professor/availability/hand-over - Forward everything in your queue to your delegate
+router.post(
+  '/availability/hand-over',
+  authenticateToken,
+  requireRole('PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { reassigned, delegate } = await reassignPendingToDelegate(req.user!.id);
+
+      return res.json({
+        success: true,
+        message:
+          reassigned > 0
+            ? `${reassigned} assignment${reassigned !== 1 ? 's' : ''} handed over to ${delegate.name}`
+            : 'You have no open reviews to hand over',
+        data: { reassigned, delegate, availability: await availabilityFor(req.user!.id) }
+      });
+    } catch (error) {
+      if (error instanceof DelegationError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      console.error('Hand over reviews error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while handing over reviews'
+      });
+    }
+  }
+);
+
 export default router;
@@ -2,8 +2,46 @@ import { Router, Response } from 'express';
 import prisma from '../prisma';
 import { AuthRequest, authenticateToken, requireRole } from '../middleware/auth';
 import { uploadAssignment, uploadAssignmentArray, handleUploadError } from '../middleware/upload';
+import {
+  AssignmentTransitionError,
+  assertTransition,
+  formatTimelineEntry,
+  historyTimelineSelect,
+  transitionAssignment
+} from '../services/assignmentTransitions';
+import { findAccessibleAssignment, resolveUploadPath } from '../services/fileAccess';
+import {
+  addAssignmentVersion,
+  describeUnversionedFile,
+  describeUploadedFile,
+  ensureInitialVersion,
+  removeOrphanedFile,
+  replaceDraftFile
+} from '../services/assignmentVersions';
+import {
+  CommentError,
+  createAssignmentComment,
+  getAssignmentParticipants,
+  listCommentThreads
+} from '../services/assignmentComments';
+import { latestChangeRequests, parseIdList } from '../services/changeRequests';
+import { getAssignmentGrading } from '../services/rubrics';
+import { DeadlineError, effectiveDueDate, evaluateSubmissionTiming } from '../services/deadlines';
+import { getDepartmentSettings } from '../services/departmentSettings';
+import { ReviewerAssignmentError, pickReviewer } from '../services/reviewerAssignment';
+import { delegationRemark, isOutOfOffice, resolveDelegate } from '../services/delegation';
+import { WithdrawalError, assertWithdrawable } from '../services/withdrawal';
+import { getPanelReview, panelMemberIds, parsePanelMembers, replacePanel } from '../services/panelReview';
+import { MAX_GROUP_SIZE, authoredBy, listGroupMembers, parseTeammates } from '../services/groupMembers';
+import {
+  ASSIGNMENT_CATEGORIES,
+  briefCategories,
+  briefSelect,
+  findBriefForDepartment,
+  formatBrief,
+  AssignmentCategoryValue
+} from '../services/courses';
 import fs from 'fs';
-import path from 'path';
 
 const router = Router();
 
@@ -22,7 +60,7 @@ const STATUS_LABELS: Record<string, string> = {
   SUBMITTED: 'Submitted',
   APPROVED: 'Approved',
   REJECTED: 'Rejected',
-  PENDING: 'Pending'
+  PENDING: 'Changes Requested'
 };
 
 router.get(
@@ -54,7 +92,7 @@ router.get(
       // Aggregate assignments by status
       const grouped = await prisma.assignment.groupBy({
         by: ['status'],
-        where: { studentId },
+        where: authoredBy(studentId),
         _count: { status: true }
       });
 
@@ -74,7 +112,7 @@ router.get(
 
       // Get recent submissions (last 5)
       const recentSubmissions = await prisma.assignment.findMany({
-        where: { studentId },
+        where: authoredBy(studentId),
         orderBy: { createdAt: 'desc' },
         take: 5,
         select: {
@@ -115,6 +153,12 @@ router.get(
           count: totals.APPROVED,
           color: STATUS_COLORS.APPROVED
         },
+        {
+          status: 'PENDING',
+          label: STATUS_LABELS.PENDING,
+          count: totals.PENDING,
+          color: STATUS_COLORS.PENDING
+        },
         {
           status: 'REJECTED',
           label: STATUS_LABELS.REJECTED,
@@ -192,8 +236,8 @@ router.get(
       const limitNum = parseInt(limit as string, 10) || 10;
       const skip = (pageNum - 1) * limitNum;
 
-      // Build where clause
-      const where: any = { studentId };
+      // Build where clause: group assignments show up for every member
+      const where: any = authoredBy(studentId);
       if (status && typeof status === 'string') {
         const normalizedStatus = status.toUpperCase();
         if (['DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED', 'PENDING'].includes(normalizedStatus)) {
@@ -218,13 +262,19 @@ router.get(
             createdAt: true,
             submittedAt: true,
             reviewerId: true,
+            reviewerAssignmentReason: true,
+            dueDate: true,
+            isLate: true,
             reviewer: {
               select: {
                 id: true,
                 name: true,
                 email: true
               }
-            }
+            },
+            student: { select: { id: true, name: true, email: true } },
+            members: { select: { student: { select: { id: true, name: true, email: true } } } },
+            brief: { select: briefSelect }
           }
         }),
         prisma.assignment.count({ where })
@@ -242,7 +292,14 @@ router.get(
         filePath: assignment.filePath,
         createdAt: assignment.createdAt,
         submittedAt: assignment.submittedAt,
-        reviewer: assignment.reviewer
+        reviewer: assignment.reviewer,
+        reviewerAssignmentReason: assignment.reviewerAssignmentReason,
+        brief: assignment.brief ? formatBrief(assignment.brief) : null,
+        dueDate: effectiveDueDate(assignment),
+        isLate: assignment.isLate,
+        owner: assignment.student,
+        isOwner: assignment.student.id === studentId,
+        members: assignment.members.map((m) => m.student)
       }));
 
       return res.json({
@@ -288,13 +345,15 @@ router.get(
         });
       }
 
-      // Allow access if user is the student or the reviewer (professor)
+      // Allow access if user is the student, the reviewer (professor) or on the review panel
       const assignment = await prisma.assignment.findFirst({
         where: {
           id: assignmentId,
           OR: [
             { studentId: userId },
-            { reviewerId: userId }
+            { members: { some: { studentId: userId } } },
+            { reviewerId: userId },
+            { panelMembers: { some: { reviewerId: userId } } }
           ]
         },
         select: {
@@ -306,7 +365,13 @@ router.get(
           filePath: true,
           createdAt: true,
           submittedAt: true,
+          approvalStage: true,
           reviewerId: true,
+          reviewerAssignmentReason: true,
+          dueDate: true,
+          isLate: true,
+          latePenaltyPercent: true,
+          brief: { select: briefSelect },
           reviewer: {
             select: {
               id: true,
@@ -319,28 +384,15 @@ router.get(
             select: {
               id: true,
               name: true,
-              email: true
+              email: true,
+              departmentId: true
             }
           },
           history: {
             orderBy: {
               createdAt: 'asc'
             },
-            select: {
-              id: true,
-              action: true,
-              remark: true,
-              signature: true,
-              createdAt: true,
-              reviewer: {
-                select: {
-                  id: true,
-                  name: true,
-                  email: true,
-                  role: true
-                }
-              }
-            }
+            select: historyTimelineSelect
           }
         }
       });
@@ -352,6 +404,9 @@ router.get(
         });
       }
 
+      // Scores are the reviewer's working notes until the assignment is approved
+      const showGrading = assignment.status === 'APPROVED' || assignment.reviewerId === userId;
+
       // Format assignment with status info
       const formattedAssignment = {
         id: assignment.id,
@@ -364,21 +419,23 @@ router.get(
         filePath: assignment.filePath,
         createdAt: assignment.createdAt,
         submittedAt: assignment.submittedAt,
-        student: assignment.student,
+        approvalStage: assignment.approvalStage,
+        student: {
+          id: assignment.student.id,
+          name: assignment.student.name,
+          email: assignment.student.email
+        },
+        members: await listGroupMembers(assignment.id),
         reviewer: assignment.reviewer,
-        history: assignment.history.map((h) => ({
-          id: h.id,
-          action: h.action,
-          remark: h.remark,
-          signature: h.signature || h.reviewer.name,
-          createdAt: h.createdAt,
-          reviewer: {
-            id: h.reviewer.id,
-            name: h.reviewer.name,
-            email: h.reviewer.email,
-            role: h.reviewer.role
-          }
-        }))
+        reviewerAssignmentReason: assignment.reviewerAssignmentReason,
+        panel: await getPanelReview(assignment),
+        changeRequest: await latestChangeRequests(assignment.id),
+        grading: showGrading ? await getAssignmentGrading(assignment) : null,
+        brief: assignment.brief ? formatBrief(assignment.brief) : null,
+        dueDate: effectiveDueDate(assignment),
+        isLate: assignment.isLate,
+        latePenaltyPercent: assignment.latePenaltyPercent,
+        history: assignment.history.map(formatTimelineEntry)
       };
 
       return res.json({
@@ -405,7 +462,6 @@ router.get(
   requireRole('STUDENT', 'PROFESSOR', 'HOD'),
   async (req: AuthRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
       const idParam = req.params.id;
       const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
 
@@ -416,21 +472,7 @@ router.get(
         });
       }
 
-      // Allow download if user is the student or the reviewer (professor)
-      const assignment = await prisma.assignment.findFirst({
-        where: {
-          id: assignmentId,
-          OR: [
-            { studentId: userId },
-            { reviewerId: userId }
-          ]
-        },
-        select: {
-          id: true,
-          title: true,
-          filePath: true
-        }
-      });
+      const assignment = await findAccessibleAssignment(req.user!, assignmentId);
 
       if (!assignment) {
         return res.status(404).json({
@@ -447,9 +489,7 @@ router.get(
       }
 
       // Check if file exists
-      const fs = require('fs');
-      const path = require('path');
-      const filePath = path.join(process.cwd(), assignment.filePath);
+      const filePath = resolveUploadPath(assignment.filePath);
 
       if (!fs.existsSync(filePath)) {
         return res.status(404).json({
@@ -481,6 +521,48 @@ router.get(
   }
 );
 
+// GET /student/briefs - Assignment briefs published for the student's department
+router.get(
+  '/briefs',
+  authenticateToken,
+  requireRole('STUDENT', 'PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { departmentId: true }
+      });
+
+      if (!user || !user.departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Student must be assigned to a department'
+        });
+      }
+
+      const briefs = await prisma.assignmentBrief.findMany({
+        where: { course: { departmentId: user.departmentId } },
+        orderBy: { dueDate: 'asc' },
+        select: briefSelect
+      });
+
+      return res.json({
+        success: true,
+        message: 'Briefs retrieved successfully',
+        data: {
+          briefs: briefs.map(formatBrief)
+        }
+      });
+    } catch (error) {
+      console.error('Get briefs error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while retrieving briefs'
+      });
+    }
+  }
+);
+
 // GET /student/professors - Get professors from student's department
 router.get(
   '/professors',
@@ -516,18 +598,33 @@ router.get(
           id: true,
           name: true,
           email: true,
-          phone: true
+          phone: true,
+          outOfOfficeFrom: true,
+          outOfOfficeUntil: true,
+          delegate: { select: { id: true, name: true } }
         },
         orderBy: {
           name: 'asc'
         }
       });
 
+      const { autoAssignReviewers, panelCategories, panelQuorum, panelMinSize } = await getDepartmentSettings(
+        user.departmentId
+      );
+
       return res.json({
         success: true,
         message: 'Professors retrieved successfully',
         data: {
-          professors
+          professors: professors.map(({ outOfOfficeFrom, outOfOfficeUntil, delegate, ...professor }) => ({
+            ...professor,
+            // Submissions to an away professor go to their delegate
+            outOfOffice: isOutOfOffice({ outOfOfficeFrom, outOfOfficeUntil })
+              ? { until: outOfOfficeUntil, delegate }
+              : null
+          })),
+          autoAssign: autoAssignReviewers,
+          panel: { categories: panelCategories, quorum: panelQuorum, minSize: panelMinSize }
         }
       });
     } catch (error) {
@@ -540,6 +637,47 @@ router.get(
   }
 );
 
+// GET /student/classmates - Students in the same department who can join a group assignment
+router.get(
+  '/classmates',
+  authenticateToken,
+  requireRole('STUDENT'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { departmentId: true }
+      });
+
+      if (!user?.departmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Student must be assigned to a department'
+        });
+      }
+
+      const classmates = await prisma.user.findMany({
+        where: { departmentId: user.departmentId, role: 'STUDENT', id: { not: userId } },
+        select: { id: true, name: true, email: true },
+        orderBy: { name: 'asc' }
+      });
+
+      return res.json({
+        success: true,
+        message: 'Classmates retrieved successfully',
+        data: { classmates, maxGroupSize: MAX_GROUP_SIZE }
+      });
+    } catch (error) {
+      console.error('Get classmates error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while retrieving classmates'
+      });
+    }
+  }
+);
+
 // POST /student/assignments/:id/submit - Submit draft assignment for review
 router.post(
   '/assignments/:id/submit',
@@ -550,7 +688,10 @@ router.post(
       const studentId = req.user!.id;
       const idParam = req.params.id;
       const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
-      const { reviewerId } = req.body as { reviewerId?: number };
+      const { reviewerId: requestedReviewerId, panelReviewerIds } = req.body as {
+        reviewerId?: number;
+        panelReviewerIds?: number[];
+      };
 
       if (isNaN(assignmentId)) {
         return res.status(400).json({
@@ -559,13 +700,6 @@ router.post(
         });
       }
 
-      if (!reviewerId || typeof reviewerId !== 'number') {
-        return res.status(400).json({
-          success: false,
-          message: 'Reviewer ID is required'
-        });
-      }
-
       // Get assignment and verify it belongs to the student
       const assignment = await prisma.assignment.findFirst({
         where: {
@@ -575,7 +709,11 @@ router.post(
         select: {
           id: true,
           status: true,
-          title: true
+          title: true,
+          category: true,
+          dueDate: true,
+          brief: { select: { dueDate: true } },
+          student: { select: { departmentId: true } }
         }
       });
 
@@ -586,61 +724,127 @@ router.post(
         });
       }
 
-      // Verify assignment is in DRAFT status
-      if (assignment.status !== 'DRAFT') {
-        return res.status(400).json({
-          success: false,
-          message: `Assignment cannot be submitted. Current status: ${assignment.status}. Only DRAFT assignments can be submitted.`
-        });
-      }
+      assertTransition(assignment.status, 'SUBMIT', req.user!.role);
+      const timing = await evaluateSubmissionTiming(assignment);
 
-      // Verify reviewer is a professor
-      const reviewer = await prisma.user.findFirst({
-        where: {
-          id: reviewerId,
-          role: 'PROFESSOR'
-        },
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          departmentId: true
+      const departmentId = assignment.student.departmentId;
+      const settings = await getDepartmentSettings(departmentId);
+
+      let reviewer: { id: number; name: string; email: string };
+      let assignmentReason: string | null = null;
+      let panel: Array<{ id: number; name: string }> = [];
+
+      if (departmentId && (settings.panelCategories as string[]).includes(assignment.category)) {
+        if (panelReviewerIds !== undefined && panelReviewerIds !== null) {
+          const parsed = await parsePanelMembers(panelReviewerIds, departmentId, settings.panelMinSize);
+          if ('error' in parsed) {
+            return res.status(400).json({
+              success: false,
+              message: parsed.error
+            });
+          }
+          panel = parsed.members;
+          reviewer = parsed.members[0]!;
+        } else {
+          // No panel chosen: the HOD appoints one
+          const hod = await prisma.user.findFirst({
+            where: { departmentId, role: 'HOD' },
+            select: { id: true, name: true, email: true }
+          });
+          if (!hod) {
+            return res.status(400).json({
+              success: false,
+              message: `Choose at least ${settings.panelMinSize} reviewers for the review panel`
+            });
+          }
+          reviewer = hod;
+          assignmentReason = 'Waiting for the HOD to appoint a review panel';
+        }
+      } else if (settings.autoAssignReviewers && departmentId) {
+        // The department balances the queue itself; a reviewer sent by the client is ignored
+        const picked = await pickReviewer(departmentId, assignment.category);
+        reviewer = picked.reviewer;
+        assignmentReason = picked.reason;
+      } else {
+        if (!requestedReviewerId || typeof requestedReviewerId !== 'number') {
+          return res.status(400).json({
+            success: false,
+            message: 'Reviewer ID is required'
+          });
         }
-      });
 
-      if (!reviewer) {
-        return res.status(404).json({
-          success: false,
-          message: 'Reviewer not found or is not a professor'
+        // Verify reviewer is a professor
+        const chosen = await prisma.user.findFirst({
+          where: {
+            id: requestedReviewerId,
+            role: 'PROFESSOR'
+          },
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            departmentId: true
+          }
         });
-      }
 
-      // Verify reviewer is in the same department as student
-      const student = await prisma.user.findUnique({
-        where: { id: studentId },
-        select: { departmentId: true }
-      });
+        if (!chosen) {
+          return res.status(404).json({
+            success: false,
+            message: 'Reviewer not found or is not a professor'
+          });
+        }
 
-      if (!student || student.departmentId !== reviewer.departmentId) {
-        return res.status(400).json({
-          success: false,
-          message: 'Reviewer must be from the same department as the student'
-        });
+        // Verify reviewer is in the same department as student
+        if (!departmentId || departmentId !== chosen.departmentId) {
+          return res.status(400).json({
+            success: false,
+            message: 'Reviewer must be from the same department as the student'
+          });
+        }
+        reviewer = chosen;
       }
-
-      // Update assignment status and set reviewer
-      const updatedAssignment = await prisma.assignment.update({
-        where: { id: assignmentId },
+      // The chair of a panel is not rerouted; every member votes in their own right. A reviewer who
+      // is away gets nothing: the submission goes straight to their delegate
+      const delegation = panel.length ? null : await resolveDelegate(reviewer.id);
+      const assignee = delegation?.delegate ?? reviewer;
+
+      await transitionAssignment({
+        assignmentId,
+        action: 'SUBMIT',
+        actor: req.user!,
         data: {
-          status: 'SUBMITTED',
-          reviewerId: reviewerId,
-          submittedAt: new Date()
+          reviewerId: assignee.id,
+          reviewerAssignmentReason: delegation ? delegationRemark(delegation) : assignmentReason,
+          submittedAt: new Date(),
+          isLate: timing.isLate,
+          latePenaltyPercent: timing.latePenaltyPercent
         },
+        history: {
+          reviewerId: assignee.id,
+          remark: panel.length
+            ? `Assignment submitted for panel review to ${panel.map((m) => m.name).join(', ')}${timing.isLate ? ' (late)' : ''}`
+            : `Assignment submitted for review to ${assignee.name}${timing.isLate ? ' (late)' : ''}${assignmentReason ? `. ${assignmentReason}` : ''}${delegation ? `. ${delegationRemark(delegation)}` : ''}`,
+          signature: assignee.name
+        },
+        notifications: (panel.length ? panel : [assignee]).map((member) => ({
+          message: `New ${timing.isLate ? 'late ' : ''}assignment "${assignment.title}" submitted by student for ${panel.length ? 'panel ' : ''}review${delegation ? ` (routed to you while ${delegation.away.name} is out of office)` : ''}`,
+          type: 'ASSIGNMENT_SUBMITTED',
+          userId: member.id
+        })),
+        // A resubmitted draft may have changed category, so the panel always starts from this list
+        afterHistory: (tx) => replacePanel(tx, assignmentId, panel.map((m) => m.id))
+      });
+
+      const updatedAssignment = await prisma.assignment.findUniqueOrThrow({
+        where: { id: assignmentId },
         select: {
           id: true,
           title: true,
           status: true,
           submittedAt: true,
+          isLate: true,
+          latePenaltyPercent: true,
+          reviewerAssignmentReason: true,
           reviewer: {
             select: {
               id: true,
@@ -651,41 +855,18 @@ router.post(
         }
       });
 
-      // Create history entry for submission
-      try {
-        await prisma.assignmentHistory.create({
-          data: {
-            assignmentId: assignmentId,
-            reviewerId: reviewerId,
-            action: 'SUBMITTED',
-            remark: `Assignment submitted for review to ${reviewer.name}`,
-            signature: reviewer.name
-          }
-        });
-      } catch (historyError) {
-        // Log error but don't fail the submission
-        console.error('Error creating history entry:', historyError);
-      }
-
-      // Create notification for the professor
-      try {
-        await prisma.notification.create({
-          data: {
-            message: `New assignment "${assignment.title}" submitted by student for review`,
-            type: 'ASSIGNMENT_SUBMITTED',
-            userId: reviewerId,
-            assignmentId: assignmentId,
-            read: false
-          }
-        });
-      } catch (notificationError) {
-        // Log error but don't fail the submission
-        console.error('Error creating notification:', notificationError);
-      }
-
+      const submittedTo = delegation
+        ? ` ${delegation.away.name} is out of office, so it was routed to ${delegation.delegate.name}.`
+        : panel.length
+          ? ` The review panel has been notified.`
+          : assignmentReason
+            ? ` It was assigned to ${reviewer.name}.`
+            : '';
       return res.json({
         success: true,
-        message: 'Assignment submitted successfully for review',
+        message: (updatedAssignment.isLate
+          ? 'Assignment submitted for review after the deadline and marked late.'
+          : 'Assignment submitted successfully for review.') + submittedTo,
         data: {
           assignment: {
             id: updatedAssignment.id,
@@ -694,11 +875,24 @@ router.post(
             statusLabel: STATUS_LABELS[updatedAssignment.status] || updatedAssignment.status,
             statusColor: STATUS_COLORS[updatedAssignment.status] || 'gray',
             submittedAt: updatedAssignment.submittedAt,
-            reviewer: updatedAssignment.reviewer
+            isLate: updatedAssignment.isLate,
+            latePenaltyPercent: updatedAssignment.latePenaltyPercent,
+            dueDate: timing.dueDate,
+            reviewer: updatedAssignment.reviewer,
+            reviewerAssignmentReason: updatedAssignment.reviewerAssignmentReason
           }
         }
       });
     } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof DeadlineError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof ReviewerAssignmentError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
       console.error('Submit assignment error:', error);
       return res.status(500).json({
         success: false,
@@ -708,6 +902,113 @@ router.post(
   }
 );
 
+// POST /student/assignments/:id/withdraw - Take a submission back to draft before review starts
+router.post(
+  '/assignments/:id/withdraw',
+  authenticateToken,
+  requireRole('STUDENT', 'PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const studentId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: {
+          id: assignmentId,
+          studentId
+        },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          studentId: true,
+          reviewerId: true,
+          student: { select: { name: true } }
+        }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      assertTransition(assignment.status, 'WITHDRAW', req.user!.role);
+      await assertWithdrawable(assignment);
+
+      const { reason } = req.body as { reason?: string };
+      const withdrawReason = typeof reason === 'string' ? reason.trim() : '';
+      const recipients = Array.from(
+        new Set([
+          ...(assignment.reviewerId ? [assignment.reviewerId] : []),
+          ...(await panelMemberIds(assignmentId))
+        ])
+      );
+
+      await transitionAssignment({
+        assignmentId,
+        action: 'WITHDRAW',
+        actor: req.user!,
+        // Back to a clean draft: the next submit picks a reviewer and checks the deadline again
+        data: {
+          reviewerId: null,
+          reviewerAssignmentReason: null,
+          submittedAt: null,
+          isLate: false,
+          latePenaltyPercent: null,
+          slaRemindedAt: null,
+          escalatedAt: null
+        },
+        history: {
+          remark: withdrawReason ? `Withdrawn by the student: ${withdrawReason}` : 'Withdrawn by the student',
+          signature: 'Student Withdrawal'
+        },
+        // The whole panel, if there is one, was waiting on it too
+        notifications: recipients.map((userId) => ({
+          message: `${assignment.student.name} withdrew "${assignment.title}"; it has been removed from your queue.`,
+          type: 'ASSIGNMENT_WITHDRAWN',
+          userId
+        }))
+      });
+
+      return res.json({
+        success: true,
+        message: 'Assignment withdrawn. It is a draft again and can be edited and resubmitted.',
+        data: {
+          assignment: {
+            id: assignment.id,
+            title: assignment.title,
+            status: 'DRAFT',
+            statusLabel: STATUS_LABELS.DRAFT,
+            statusColor: STATUS_COLORS.DRAFT
+          }
+        }
+      });
+    } catch (error) {
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof WithdrawalError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      console.error('Withdraw assignment error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while withdrawing assignment'
+      });
+    }
+  }
+);
+
 // POST /student/assignments/upload - Upload new assignment with file
 router.post(
   '/assignments/upload',
@@ -716,22 +1017,25 @@ router.post(
   uploadAssignment.single('file'),
   handleUploadError,
   async (req: AuthRequest, res: Response) => {
+    const file = (req as any).file as Express.Multer.File | undefined;
+    const discardUpload = () => {
+      if (file) {
+        try {
+          fs.unlinkSync(file.path);
+        } catch (unlinkError) {
+          console.error('Error deleting uploaded file:', unlinkError);
+        }
+      }
+    };
+
     try {
       const studentId = req.user!.id;
-      const { title, description, category } = req.body as {
+      const { title, description, category, briefId } = req.body as {
         title?: string;
         description?: string;
         category?: string;
+        briefId?: string;
       };
-      const file = (req as any).file;
-
-      // Validate required fields
-      if (!title || typeof title !== 'string' || title.trim().length === 0) {
-        return res.status(400).json({
-          success: false,
-          message: 'Title is required and cannot be empty'
-        });
-      }
 
       // Validate file is provided
       if (!file) {
@@ -743,32 +1047,52 @@ router.post(
 
       // Validate file type (additional check)
       if (file.mimetype !== 'application/pdf') {
+        discardUpload();
         return res.status(400).json({
           success: false,
           message: 'Only PDF files are allowed'
         });
       }
 
-      // Validate category
-      const normalizedCategory = category ? String(category).toUpperCase() : 'ASSIGNMENT';
-      const allowedCategories = ['ASSIGNMENT', 'THESIS', 'REPORT'];
-      
-      if (!allowedCategories.includes(normalizedCategory)) {
+      // Every submission answers a brief published for the student's department
+      const student = await prisma.user.findUnique({
+        where: { id: studentId },
+        select: { departmentId: true }
+      });
+      const brief = await findBriefForDepartment(Number(briefId), student?.departmentId ?? null);
+      if (!brief) {
+        discardUpload();
+        return res.status(400).json({
+          success: false,
+          message: 'Choose a valid assignment brief from your department'
+        });
+      }
+
+      // Validate category against what the brief accepts
+      const allowedCategories = briefCategories(brief);
+      const normalizedCategory = category ? String(category).toUpperCase() : allowedCategories[0];
+
+      if (!normalizedCategory || !(allowedCategories as string[]).includes(normalizedCategory)) {
+        discardUpload();
         return res.status(400).json({
           success: false,
-          message: `Invalid category. Allowed: ${allowedCategories.join(', ')}`
+          message: `Invalid category. This brief accepts: ${allowedCategories.join(', ')}`
         });
       }
 
       // Create assignment with file path
       const assignment = await prisma.assignment.create({
         data: {
-          title: title.trim(),
+          title: title?.trim() || brief.title,
           description: description?.trim() || null,
           category: normalizedCategory as any,
           filePath: file.path,
           status: 'DRAFT', // Always start as DRAFT
-          studentId
+          studentId,
+          briefId: brief.id,
+          versions: {
+            create: { version: 1, uploadedById: studentId, ...(await describeUploadedFile(file)) }
+          }
         },
         select: {
           id: true,
@@ -794,32 +1118,341 @@ router.post(
             statusLabel: STATUS_LABELS[assignment.status] || assignment.status,
             statusColor: STATUS_COLORS[assignment.status] || 'gray',
             filePath: assignment.filePath,
-            createdAt: assignment.createdAt
+            createdAt: assignment.createdAt,
+            brief: formatBrief(brief)
           }
         }
       });
     } catch (error) {
       console.error('Upload assignment error:', error);
-      
       // Clean up uploaded file if assignment creation failed
-      if ((req as any).file) {
-        const fs = require('fs');
-        try {
-          fs.unlinkSync((req as any).file.path);
+      discardUpload();
+
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while creating assignment'
+      });
+    }
+  }
+);
+
+// PATCH /student/assignments/:id - Edit a draft's details and optionally replace its file
+router.patch(
+  '/assignments/:id',
+  authenticateToken,
+  requireRole('STUDENT', 'PROFESSOR'),
+  uploadAssignment.single('file'),
+  handleUploadError,
+  async (req: AuthRequest, res: Response) => {
+    const file = (req as any).file as Express.Multer.File | undefined;
+    const discardUpload = () => {
+      if (file) {
+        try {
+          fs.unlinkSync(file.path);
         } catch (unlinkError) {
           console.error('Error deleting uploaded file:', unlinkError);
         }
       }
+    };
+    let committed = false;
+
+    try {
+      const studentId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        discardUpload();
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: { id: assignmentId, studentId },
+        select: { id: true, status: true, brief: { select: { allowedCategories: true } } }
+      });
+
+      if (!assignment) {
+        discardUpload();
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      if (assignment.status !== 'DRAFT') {
+        discardUpload();
+        return res.status(409).json({
+          success: false,
+          message: 'Only draft assignments can be edited'
+        });
+      }
+
+      const { title, description, category } = req.body as {
+        title?: string;
+        description?: string;
+        category?: string;
+      };
+      const data: { title?: string; description?: string | null; category?: AssignmentCategoryValue } = {};
+
+      if (title !== undefined) {
+        if (!title.trim()) {
+          discardUpload();
+          return res.status(400).json({ success: false, message: 'Title cannot be empty' });
+        }
+        data.title = title.trim();
+      }
+
+      if (description !== undefined) {
+        data.description = description.trim() || null;
+      }
+
+      if (category !== undefined) {
+        const allowedCategories: readonly string[] = assignment.brief
+          ? briefCategories(assignment.brief)
+          : ASSIGNMENT_CATEGORIES;
+        const normalizedCategory = String(category).toUpperCase();
+        if (!allowedCategories.includes(normalizedCategory)) {
+          discardUpload();
+          return res.status(400).json({
+            success: false,
+            message: `Invalid category. Allowed: ${allowedCategories.join(', ')}`
+          });
+        }
+        data.category = normalizedCategory as AssignmentCategoryValue;
+      }
+
+      if (file && file.mimetype !== 'application/pdf') {
+        discardUpload();
+        return res.status(400).json({
+          success: false,
+          message: 'Only PDF files are allowed'
+        });
+      }
+
+      if (Object.keys(data).length === 0 && !file) {
+        return res.status(400).json({
+          success: false,
+          message: 'Nothing to update'
+        });
+      }
+
+      const versionData = file ? await describeUploadedFile(file) : null;
+
+      // Conditional on DRAFT so a submit racing this edit wins cleanly; the file is swapped in the
+      // same transaction so it cannot land on an assignment that is already submitted
+      const displaced = await prisma.$transaction(async (tx) => {
+        const updated = await tx.assignment.updateMany({
+          where: { id: assignmentId, status: 'DRAFT' },
+          data
+        });
+        if (updated.count === 0) return null;
+        return versionData ? replaceDraftFile(tx, assignmentId, versionData, studentId) : [];
+      });
+      if (displaced === null) {
+        discardUpload();
+        return res.status(409).json({
+          success: false,
+          message: 'The assignment was submitted in the meantime and can no longer be edited'
+        });
+      }
+      committed = true;
+
+      for (const oldPath of displaced) {
+        await removeOrphanedFile(oldPath);
+      }
+
+      const saved = await prisma.assignment.findUniqueOrThrow({
+        where: { id: assignmentId },
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          category: true,
+          status: true,
+          filePath: true,
+          createdAt: true,
+          brief: { select: briefSelect }
+        }
+      });
+
+      return res.json({
+        success: true,
+        message: file ? 'Draft updated and file replaced' : 'Draft updated',
+        data: {
+          assignment: {
+            ...saved,
+            statusLabel: STATUS_LABELS[saved.status] || saved.status,
+            statusColor: STATUS_COLORS[saved.status] || 'gray',
+            brief: saved.brief ? formatBrief(saved.brief) : null
+          }
+        }
+      });
+    } catch (error) {
+      if (!committed) discardUpload();
+      console.error('Update draft error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating draft'
+      });
+    }
+  }
+);
+
+// DELETE /student/assignments/:id - Delete a draft and the files only it used
+router.delete(
+  '/assignments/:id',
+  authenticateToken,
+  requireRole('STUDENT', 'PROFESSOR'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const studentId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: { id: assignmentId, studentId },
+        select: { id: true, title: true, status: true, filePath: true, versions: { select: { filePath: true } } }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      const deleted = await prisma.assignment.deleteMany({ where: { id: assignmentId, status: 'DRAFT' } });
+      if (deleted.count === 0) {
+        return res.status(409).json({
+          success: false,
+          message: 'Only draft assignments can be deleted'
+        });
+      }
+
+      const files = new Set([assignment.filePath, ...assignment.versions.map((v) => v.filePath)]);
+      for (const filePath of files) {
+        if (filePath) await removeOrphanedFile(filePath);
+      }
 
+      return res.json({
+        success: true,
+        message: `Draft "${assignment.title}" deleted`
+      });
+    } catch (error) {
+      console.error('Delete draft error:', error);
       return res.status(500).json({
         success: false,
-        message: 'Internal server error while creating assignment'
+        message: 'Internal server error while deleting draft'
       });
     }
   }
 );
 
-// POST /student/assignments/:id/resubmit - Resubmit rejected assignment
+// PUT /student/assignments/:id/members - Set the teammates on a draft; only the student who created it
+router.put(
+  '/assignments/:id/members',
+  authenticateToken,
+  requireRole('STUDENT'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const studentId = req.user!.id;
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: { id: assignmentId, studentId },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          student: { select: { name: true, departmentId: true } },
+          members: { select: { studentId: true } }
+        }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      if (assignment.status !== 'DRAFT') {
+        return res.status(409).json({
+          success: false,
+          message: 'The team can only be changed while the assignment is a draft'
+        });
+      }
+
+      const parsed = await parseTeammates(req.body?.studentIds, {
+        id: studentId,
+        departmentId: assignment.student.departmentId
+      });
+      if ('error' in parsed) {
+        return res.status(400).json({
+          success: false,
+          message: parsed.error
+        });
+      }
+
+      const previous = new Set(assignment.members.map((m) => m.studentId));
+      const added = parsed.students.filter((s) => !previous.has(s.id));
+
+      await prisma.$transaction(async (tx) => {
+        await tx.assignmentMember.deleteMany({ where: { assignmentId } });
+        if (parsed.students.length > 0) {
+          await tx.assignmentMember.createMany({
+            data: parsed.students.map((s) => ({ assignmentId, studentId: s.id }))
+          });
+        }
+        if (added.length > 0) {
+          await tx.notification.createMany({
+            data: added.map((s) => ({
+              message: `${assignment.student.name} added you to the group assignment "${assignment.title}".`,
+              type: 'GROUP_MEMBER_ADDED',
+              userId: s.id,
+              assignmentId,
+              read: false
+            }))
+          });
+        }
+      });
+
+      return res.json({
+        success: true,
+        message: parsed.students.length
+          ? `Team updated: ${parsed.students.map((s) => s.name).join(', ')} ${parsed.students.length === 1 ? 'is' : 'are'} on this assignment with you.`
+          : 'This is now a solo assignment.',
+        data: { members: parsed.students }
+      });
+    } catch (error) {
+      console.error('Update group members error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while updating the team'
+      });
+    }
+  }
+);
+
+// POST /student/assignments/:id/resubmit - Resubmit a rejected assignment or one with changes requested
 router.post(
   '/assignments/:id/resubmit',
   authenticateToken,
@@ -827,6 +1460,8 @@ router.post(
   uploadAssignment.single('file'),
   handleUploadError,
   async (req: AuthRequest, res: Response) => {
+    // Once the resubmission commits, the uploaded file is the assignment's file and must stay
+    let committed = false;
     try {
       const studentId = req.user!.id;
       const idParam = req.params.id;
@@ -841,11 +1476,11 @@ router.post(
         });
       }
 
-      // Get assignment and verify it belongs to the student
+      // Any member of a group can resubmit
       const assignment = await prisma.assignment.findFirst({
         where: {
           id: assignmentId,
-          studentId
+          ...authoredBy(studentId)
         },
         select: {
           id: true,
@@ -854,6 +1489,12 @@ router.post(
           description: true,
           filePath: true,
           reviewerId: true,
+          studentId: true,
+          submittedAt: true,
+          createdAt: true,
+          dueDate: true,
+          brief: { select: { dueDate: true } },
+          student: { select: { departmentId: true } },
           reviewer: {
             select: {
               id: true,
@@ -871,9 +1512,11 @@ router.post(
         });
       }
 
-      // Verify assignment is in REJECTED status
-      if (assignment.status !== 'REJECTED') {
-        // Clean up uploaded file if provided
+      // Throws before the upload is kept; the catch below removes the new file
+      assertTransition(assignment.status, 'RESUBMIT', req.user!.role);
+      const timing = await evaluateSubmissionTiming(assignment);
+
+      const discardUpload = () => {
         if (file) {
           try {
             fs.unlinkSync(file.path);
@@ -881,31 +1524,66 @@ router.post(
             console.error('Error deleting uploaded file:', unlinkError);
           }
         }
+      };
+
+      // Changes requested keeps the reviewer; a rejection clears it, so go back to
+      // whoever the assignment was last submitted to
+      let reviewerId = assignment.reviewerId;
+      if (!reviewerId) {
+        const lastSubmission = await prisma.assignmentHistory.findFirst({
+          where: { assignmentId, action: 'SUBMITTED' },
+          orderBy: { createdAt: 'desc' },
+          select: { reviewerId: true }
+        });
+        reviewerId = lastSubmission?.reviewerId ?? null;
+      }
+
+      const reviewer = reviewerId
+        ? await prisma.user.findFirst({
+            where: { id: reviewerId, role: { in: ['PROFESSOR', 'HOD'] } },
+            select: { id: true }
+          })
+        : null;
+
+      if (!reviewer) {
+        discardUpload();
         return res.status(400).json({
           success: false,
-          message: `Assignment cannot be resubmitted. Current status: ${assignment.status}. Only REJECTED assignments can be resubmitted.`
+          message: 'Original reviewer not found. Cannot resubmit.'
         });
       }
 
-      // Verify reviewer still exists
-      if (!assignment.reviewerId || !assignment.reviewer) {
-        if (file) {
-          try {
-            fs.unlinkSync(file.path);
-          } catch (unlinkError) {
-            console.error('Error deleting uploaded file:', unlinkError);
-          }
-        }
+      // Every item on the change checklist must be ticked off
+      const changeRequest =
+        assignment.status === 'PENDING' ? await latestChangeRequests(assignmentId) : null;
+      const openItems = changeRequest?.items.filter((item) => !item.resolvedAt) ?? [];
+      const resolvedIds = parseIdList(req.body.resolvedItemIds);
+      const unresolved = openItems.filter((item) => !resolvedIds.includes(item.id));
+
+      if (unresolved.length > 0) {
+        discardUpload();
         return res.status(400).json({
           success: false,
-          message: 'Original reviewer not found. Cannot resubmit.'
+          message: `Please confirm every requested change before resubmitting (${unresolved.length} remaining).`,
+          data: { unresolvedItemIds: unresolved.map((item) => item.id) }
         });
       }
 
+      // A resubmission opens a fresh round of panel votes; the panel itself stays. Anyone else who
+      // is away gets nothing: the resubmission goes straight to their delegate
+      const panelIds = await panelMemberIds(assignmentId);
+      const delegation = panelIds.length ? null : await resolveDelegate(reviewer.id);
+      const assignee = delegation?.delegate ?? reviewer;
+
       // Prepare update data
       const updateData: any = {
-        status: 'SUBMITTED',
-        submittedAt: new Date()
+        reviewerId: assignee.id,
+        submittedAt: new Date(),
+        isLate: timing.isLate,
+        latePenaltyPercent: timing.latePenaltyPercent,
+        // A fresh round in review, so an earlier escalation no longer applies
+        escalatedAt: null,
+        slaRemindedAt: null
       };
 
       // Update description if provided
@@ -928,22 +1606,58 @@ router.post(
           });
         }
 
-        // Archive old file by moving it (optional - for now we just replace)
-        // In production, you might want to keep old files in an archive folder
-        const oldFilePath = assignment.filePath;
-        if (oldFilePath) {
-          const oldFileFullPath = path.join(process.cwd(), oldFilePath);
-          // Optionally archive old file instead of deleting
-          // For now, we'll keep the new file path
-        }
-
         updateData.filePath = file.path;
       }
+      // Read before the transaction so checksumming does not hold it open. The previous file stays
+      // on disk as an earlier version; assignments from before versioning have no row for it yet
+      const versionData = file ? await describeUploadedFile(file) : null;
+      const unversionedFile = file ? await describeUnversionedFile(assignment) : null;
+
+      await transitionAssignment({
+        assignmentId,
+        action: 'RESUBMIT',
+        actor: req.user!,
+        data: updateData,
+        history: {
+          reviewerId: assignee.id,
+          remark: [
+            file
+              ? `Assignment resubmitted with new file. ${description ? 'Description updated.' : ''}`
+              : `Assignment resubmitted. ${description ? 'Description updated.' : 'Original file retained.'}`,
+            openItems.length > 0
+              ? `Addressed ${openItems.length} requested change${openItems.length !== 1 ? 's' : ''}.`
+              : '',
+            timing.isLate ? 'Resubmitted after the deadline.' : '',
+            delegation ? delegationRemark(delegation) : ''
+          ]
+            .filter(Boolean)
+            .join(' '),
+          signature: 'Student Resubmission'
+        },
+        notifications: [assignee.id, ...panelIds.filter((id) => id !== assignee.id)].map((userId) => ({
+          message: `Assignment "${assignment.title}" has been resubmitted by the student${delegation ? ` (routed to you while ${delegation.away.name} is out of office)` : ''}`,
+          type: 'ASSIGNMENT_RESUBMITTED',
+          userId
+        })),
+        afterHistory: async (tx) => {
+          if (openItems.length > 0) {
+            await tx.assignmentChangeRequest.updateMany({
+              where: { id: { in: openItems.map((item) => item.id) } },
+              data: { resolvedAt: new Date() }
+            });
+          }
+          if (unversionedFile) {
+            await ensureInitialVersion(tx, assignment, unversionedFile);
+          }
+          if (versionData) {
+            await addAssignmentVersion(tx, assignmentId, versionData, studentId);
+          }
+        }
+      });
+      committed = true;
 
-      // Update assignment
-      const updatedAssignment = await prisma.assignment.update({
+      const updatedAssignment = await prisma.assignment.findUniqueOrThrow({
         where: { id: assignmentId },
-        data: updateData,
         select: {
           id: true,
           title: true,
@@ -961,41 +1675,11 @@ router.post(
         }
       });
 
-      // Create history entry for resubmission
-      try {
-        await prisma.assignmentHistory.create({
-          data: {
-            assignmentId: assignmentId,
-            reviewerId: assignment.reviewerId,
-            action: 'SUBMITTED',
-            remark: file
-              ? `Assignment resubmitted with new file. ${description ? 'Description updated.' : ''}`
-              : `Assignment resubmitted. ${description ? 'Description updated.' : 'Original file retained.'}`,
-            signature: 'Student Resubmission'
-          }
-        });
-      } catch (historyError) {
-        console.error('Error creating history entry:', historyError);
-      }
-
-      // Create notification for the original reviewer
-      try {
-        await prisma.notification.create({
-          data: {
-            message: `Assignment "${assignment.title}" has been resubmitted by the student`,
-            type: 'ASSIGNMENT_RESUBMITTED',
-            userId: assignment.reviewerId,
-            assignmentId: assignmentId,
-            read: false
-          }
-        });
-      } catch (notificationError) {
-        console.error('Error creating notification:', notificationError);
-      }
-
       return res.json({
         success: true,
-        message: 'Assignment resubmitted successfully',
+        message: delegation
+          ? `Assignment resubmitted. ${delegation.away.name} is out of office, so it was routed to ${delegation.delegate.name}.`
+          : 'Assignment resubmitted successfully',
         data: {
           assignment: {
             id: updatedAssignment.id,
@@ -1011,11 +1695,9 @@ router.post(
         }
       });
     } catch (error) {
-      console.error('Resubmit assignment error:', error);
-      
       // Clean up uploaded file if assignment update failed
       const file = (req as any).file;
-      if (file) {
+      if (file && !committed) {
         try {
           fs.unlinkSync(file.path);
         } catch (unlinkError) {
@@ -1023,6 +1705,14 @@ router.post(
         }
       }
 
+      if (error instanceof AssignmentTransitionError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      if (error instanceof DeadlineError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error('Resubmit assignment error:', error);
+
       return res.status(500).json({
         success: false,
         message: 'Internal server error while resubmitting assignment'
@@ -1041,9 +1731,10 @@ router.post(
   async (req: AuthRequest, res: Response) => {
     try {
       const studentId = req.user!.id;
-      const { description, category } = req.body as {
+      const { description, category, briefId } = req.body as {
         description?: string;
         category?: string;
+        briefId?: string;
       };
       const files = (req as any).files as Express.Multer.File[];
 
@@ -1089,11 +1780,12 @@ router.post(
         }
       }
 
-      // Validate category
-      const normalizedCategory = category ? String(category).toUpperCase() : 'ASSIGNMENT';
-      const allowedCategories = ['ASSIGNMENT', 'THESIS', 'REPORT'];
-      
-      if (!allowedCategories.includes(normalizedCategory)) {
+      const student = await prisma.user.findUnique({
+        where: { id: studentId },
+        select: { departmentId: true }
+      });
+      const brief = await findBriefForDepartment(Number(briefId), student?.departmentId ?? null);
+      if (!brief) {
         // Clean up uploaded files
         files.forEach((file) => {
           try {
@@ -1104,7 +1796,26 @@ router.post(
         });
         return res.status(400).json({
           success: false,
-          message: `Invalid category. Allowed: ${allowedCategories.join(', ')}`
+          message: 'Choose a valid assignment brief from your department'
+        });
+      }
+
+      // Validate category against what the brief accepts
+      const allowedCategories = briefCategories(brief);
+      const normalizedCategory = category ? String(category).toUpperCase() : allowedCategories[0];
+
+      if (!normalizedCategory || !(allowedCategories as string[]).includes(normalizedCategory)) {
+        // Clean up uploaded files
+        files.forEach((file) => {
+          try {
+            fs.unlinkSync(file.path);
+          } catch (unlinkError) {
+            console.error('Error deleting uploaded file:', unlinkError);
+          }
+        });
+        return res.status(400).json({
+          success: false,
+          message: `Invalid category. This brief accepts: ${allowedCategories.join(', ')}`
         });
       }
 
@@ -1127,7 +1838,11 @@ router.post(
               category: normalizedCategory as any,
               filePath: file.path,
               status: 'DRAFT', // Always start as DRAFT
-              studentId
+              studentId,
+              briefId: brief.id,
+              versions: {
+                create: { version: 1, uploadedById: studentId, ...(await describeUploadedFile(file)) }
+              }
             },
             select: {
               id: true,
@@ -1215,5 +1930,118 @@ router.post(
   }
 );
 
+// GET /student/assignments/:id/comments - Comment threads and the people who can be mentioned
+router.get(
+  '/assignments/:id/comments',
+  authenticateToken,
+  requireRole('STUDENT', 'PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: { id: assignmentId, ...authoredBy(req.user!.id) },
+        select: { id: true }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      const [threads, participants] = await Promise.all([
+        listCommentThreads(assignmentId),
+        getAssignmentParticipants(assignmentId)
+      ]);
+
+      return res.json({
+        success: true,
+        message: 'Comments retrieved successfully',
+        data: { threads, participants }
+      });
+    } catch (error) {
+      console.error('Get assignment comments error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while retrieving comments'
+      });
+    }
+  }
+);
+
+// POST /student/assignments/:id/comments - Add a comment, or a reply when parentId is given
+router.post(
+  '/assignments/:id/comments',
+  authenticateToken,
+  requireRole('STUDENT', 'PROFESSOR', 'HOD'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const idParam = req.params.id;
+      const assignmentId = typeof idParam === 'string' ? parseInt(idParam, 10) : NaN;
+
+      if (isNaN(assignmentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid assignment ID'
+        });
+      }
+
+      const assignment = await prisma.assignment.findFirst({
+        where: { id: assignmentId, ...authoredBy(req.user!.id) },
+        select: { id: true }
+      });
+
+      if (!assignment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Assignment not found'
+        });
+      }
+
+      const { body, parentId, mentionIds } = req.body as {
+        body?: string;
+        parentId?: number;
+        mentionIds?: number[];
+      };
+
+      const comment = await createAssignmentComment({
+        assignmentId,
+        authorId: req.user!.id,
+        body,
+        parentId,
+        mentionIds
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Comment added',
+        data: { comment }
+      });
+    } catch (error) {
+      if (error instanceof CommentError) {
+        return res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+      }
+      console.error('Create assignment comment error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error while adding comment'
+      });
+    }
+  }
+);
+
 export default router;
 
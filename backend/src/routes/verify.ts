@@ -0,0 +1,41 @@
+import { Router, Request, Response } from 'express';
+import { ApprovalSignatureError, verifyApprovalSignature } from '../services/approvalSignatures';
+
+const router = Router();
+
+// GET /verify/:code - Public: confirm a signed approval is genuine; no login needed
+router.get('/:code', async (req: Request, res: Response) => {
+  try {
+    const code = req.params.code;
+    if (typeof code !== 'string' || !/^[0-9a-fA-F]{16}$/.test(code)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid verification code'
+      });
+    }
+
+    const result = await verifyApprovalSignature(code);
+
+    return res.json({
+      success: true,
+      message:
+        result.status === 'VALID'
+          ? 'This approval is genuine'
+          : result.status === 'REVOKED'
+            ? 'This approval was genuine but has since been revoked'
+            : 'This approval could not be verified',
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof ApprovalSignatureError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
+    console.error('Verify approval error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error while verifying approval'
+    });
+  }
+});
+
+export default router;
@@ -4,6 +4,11 @@ import authRoutes from './routes/auth';
 import adminRoutes from './routes/admin';
 import studentRoutes from './routes/student';
 import professorRoutes from './routes/professor';
+import hodRoutes from './routes/hod';
+import fileRoutes from './routes/files';
+import verifyRoutes from './routes/verify';
+import notificationRoutes from './routes/notifications';
+import { startSlaScheduler } from './services/sla';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -25,10 +30,10 @@ app.use('/auth', authRoutes);
 app.use('/admin', adminRoutes);
 app.use('/student', studentRoutes);
 app.use('/professor', professorRoutes);
-
-// Serve uploaded files
-import path from 'path';
-app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
+app.use('/hod', hodRoutes);
+app.use('/files', fileRoutes);
+app.use('/verify', verifyRoutes);
+app.use('/notifications', notificationRoutes);
 
 app.get('/', (req, res) => {
   res.json({ 
@@ -44,6 +49,8 @@ async function startServer() {
     app.listen(PORT, () => {
       console.log(`Server is running on ${PORT}`);
     });
+
+    startSlaScheduler();
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,310 @@
+import fs from 'fs';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import QRCode from 'qrcode';
+import prisma from '../prisma';
+import { formatTimelineEntry, historyTimelineSelect } from './assignmentTransitions';
+import { resolveUploadPath } from './fileAccess';
+
+// Where the QR code points; the frontend serves the public verify page
+const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+export const APPROVAL_DOCUMENTS = ['certificate', 'stamped'] as const;
+
+export type ApprovalDocument = (typeof APPROVAL_DOCUMENTS)[number];
+
+const A4: [number, number] = [595.28, 841.89];
+const MARGIN = 50;
+const GREEN = rgb(0.09, 0.4, 0.2);
+const GREY = rgb(0.39, 0.45, 0.55);
+const BLACK = rgb(0.06, 0.09, 0.16);
+
+const actionLabels: Record<string, string> = {
+  SUBMITTED: 'Submitted for review',
+  FORWARDED: 'Forwarded',
+  RETURNED: 'Sent back by HOD',
+  TAKEN_OVER: 'Taken over by HOD',
+  STAGE_APPROVED: 'Stage approved',
+  APPROVED: 'Approved',
+  PANEL_VOTE_APPROVE: 'Panel vote: approve',
+  PANEL_VOTE_REJECT: 'Panel vote: reject'
+};
+
+export class ApprovalCertificateError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 409
+  ) {
+    super(message);
+  }
+}
+
+export function verifyUrl(code: string) {
+  return `${APP_URL}/verify/${code}`;
+}
+
+// The standard PDF fonts only cover Latin-1; anything else would make pdf-lib throw
+function pdfText(value: string) {
+  return value.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number) {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/).map(pdfText)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) > maxWidth && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function formatDate(value: Date) {
+  return value.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+}
+
+/**
+ * Everything both documents need: the approved assignment, the review chain of
+ * the submission that was approved, and the final approval with its
+ * verification code (null for approvals signed before codes existed).
+ */
+async function loadApproval(assignmentId: number) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: {
+      id: true,
+      title: true,
+      category: true,
+      status: true,
+      filePath: true,
+      student: { select: { name: true, email: true, department: { select: { name: true } } } },
+      members: { select: { student: { select: { name: true } } } },
+      history: { orderBy: { createdAt: 'asc' }, select: historyTimelineSelect }
+    }
+  });
+  if (!assignment) {
+    throw new ApprovalCertificateError('Assignment not found', 404);
+  }
+  if (assignment.status !== 'APPROVED') {
+    throw new ApprovalCertificateError('Certificates are only available for approved assignments');
+  }
+
+  const history = assignment.history.map(formatTimelineEntry);
+  const approval = [...history].reverse().find((h) => h.action === 'APPROVED' && !h.revoked);
+  if (!approval) {
+    throw new ApprovalCertificateError('No approval on record for this assignment');
+  }
+
+  const lastSubmission = history.map((h) => h.action).lastIndexOf('SUBMITTED');
+  const chain = history
+    .slice(Math.max(lastSubmission, 0))
+    .filter((h) => h.action in actionLabels && !h.revoked);
+
+  return { assignment, approval, chain };
+}
+
+async function qrPng(doc: PDFDocument, code: string) {
+  return doc.embedPng(await QRCode.toBuffer(verifyUrl(code), { margin: 1, width: 240 }));
+}
+
+// Embeds each drawn signature once, keyed by image id; entries without one are skipped
+async function embedSignatures(doc: PDFDocument, entries: Array<{ signatureImageId: number | null }>) {
+  const ids = [...new Set(entries.flatMap((e) => (e.signatureImageId ? [e.signatureImageId] : [])))];
+  const images = await prisma.signatureImage.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, mimeType: true, data: true }
+  });
+  const embedded = new Map<number, PDFImage>();
+  for (const image of images) {
+    embedded.set(
+      image.id,
+      image.mimeType === 'image/png' ? await doc.embedPng(image.data) : await doc.embedJpg(image.data)
+    );
+  }
+  return embedded;
+}
+
+// Largest size that fits the box without stretching the signature
+function fitImage(image: PDFImage, maxWidth: number, maxHeight: number) {
+  return image.scale(Math.min(maxWidth / image.width, maxHeight / image.height, 1));
+}
+
+export async function renderApprovalCertificate(assignmentId: number) {
+  const { assignment, approval, chain } = await loadApproval(assignmentId);
+
+  const doc = await PDFDocument.create();
+  doc.setTitle(pdfText(`Approval certificate: ${assignment.title}`));
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const signatures = await embedSignatures(doc, chain);
+  const width = A4[0] - MARGIN * 2;
+
+  let page: PDFPage = doc.addPage(A4);
+  let y = A4[1] - MARGIN;
+
+  const ensureRoom = (height: number) => {
+    if (y - height < MARGIN) {
+      page = doc.addPage(A4);
+      y = A4[1] - MARGIN;
+    }
+  };
+  const write = (text: string, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; indent?: number } = {}) => {
+    const size = options.size ?? 11;
+    const face = options.bold ? bold : font;
+    for (const line of wrapText(text, face, size, width - (options.indent ?? 0))) {
+      ensureRoom(size + 4);
+      y -= size + 4;
+      page.drawText(line, { x: MARGIN + (options.indent ?? 0), y, size, font: face, color: options.color ?? BLACK });
+    }
+  };
+
+  write('University Assignment Approval Platform', { size: 10, color: GREY });
+  y -= 6;
+  write('Certificate of Approval', { size: 24, bold: true, color: GREEN });
+  y -= 8;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: A4[0] - MARGIN, y }, thickness: 1, color: GREEN });
+  y -= 14;
+
+  const field = (label: string, value: string) => {
+    write(label, { size: 9, color: GREY });
+    write(value, { size: 12 });
+    y -= 6;
+  };
+  field('Assignment', assignment.title);
+  field('Category', assignment.category.charAt(0) + assignment.category.slice(1).toLowerCase());
+  field('Student', `${assignment.student.name} (${assignment.student.email})`);
+  if (assignment.members.length > 0) {
+    field('Team', assignment.members.map((m) => m.student.name).join(', '));
+  }
+  field('Department', assignment.student.department?.name ?? 'Not assigned');
+  field('Approved', `${formatDate(approval.createdAt)} by ${approval.reviewer.name}`);
+
+  y -= 6;
+  write('Review chain', { size: 14, bold: true });
+  y -= 4;
+  for (const entry of chain) {
+    ensureRoom(40);
+    write(
+      `${formatDate(entry.createdAt)}  ${actionLabels[entry.action]}${entry.stage != null ? ` (stage ${entry.stage})` : ''}`,
+      { size: 10, bold: true }
+    );
+    write(`${entry.reviewer.name} (${entry.reviewer.role})`, { size: 10, indent: 12 });
+    const drawn = entry.signatureImageId ? signatures.get(entry.signatureImageId) : undefined;
+    if (drawn) {
+      const size = fitImage(drawn, 160, 40);
+      ensureRoom(size.height + 6);
+      y -= size.height + 4;
+      page.drawImage(drawn, { x: MARGIN + 12, y, width: size.width, height: size.height });
+    }
+    if (entry.remark) {
+      write(`Remarks: ${entry.remark}`, { size: 10, indent: 12, color: GREY });
+    }
+    if (entry.verificationCode) {
+      write(`Digitally signed, verification code ${entry.verificationCode}`, { size: 9, indent: 12, color: GREEN });
+    }
+    y -= 6;
+  }
+
+  // Verification block at the foot of the last page
+  ensureRoom(130);
+  const qrSize = 96;
+  if (approval.verificationCode) {
+    const qr = await qrPng(doc, approval.verificationCode);
+    page.drawImage(qr, { x: A4[0] - MARGIN - qrSize, y: MARGIN, width: qrSize, height: qrSize });
+    const lines: Array<{ text: string; size: number; font: PDFFont }> = [
+      { text: 'Verify this certificate', size: 11, font: bold },
+      { text: `Code: ${approval.verificationCode}`, size: 10, font: bold },
+      ...wrapText(verifyUrl(approval.verificationCode), font, 9, width - qrSize - 16).map((text) => ({ text, size: 9, font }))
+    ];
+    let footY = MARGIN + qrSize - 12;
+    for (const line of lines) {
+      page.drawText(line.text, { x: MARGIN, y: footY, size: line.size, font: line.font, color: BLACK });
+      footY -= line.size + 5;
+    }
+  } else {
+    page.drawText('This approval predates digital signatures and has no verification code.', {
+      x: MARGIN,
+      y: MARGIN,
+      size: 9,
+      font,
+      color: GREY
+    });
+  }
+
+  return doc.save();
+}
+
+/**
+ * The submitted PDF with an approval stamp in the bottom-right corner of its
+ * last page. Encrypted or damaged PDFs cannot be stamped.
+ */
+export async function renderStampedPdf(assignmentId: number) {
+  const { assignment, approval } = await loadApproval(assignmentId);
+  if (!assignment.filePath || !fs.existsSync(resolveUploadPath(assignment.filePath))) {
+    throw new ApprovalCertificateError('Assignment file not found on server', 404);
+  }
+
+  let doc: PDFDocument;
+  try {
+    doc = await PDFDocument.load(await fs.promises.readFile(resolveUploadPath(assignment.filePath)));
+  } catch {
+    throw new ApprovalCertificateError('The submitted PDF is encrypted or damaged and cannot be stamped', 422);
+  }
+
+  const page = doc.getPage(doc.getPageCount() - 1);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const drawn = approval.signatureImageId
+    ? (await embedSignatures(doc, [approval])).get(approval.signatureImageId)
+    : undefined;
+  const { width: pageWidth } = page.getSize();
+  const { x: originX, y: originY } = page.getMediaBox();
+
+  const boxWidth = 230;
+  const signatureHeight = drawn ? 30 : 0;
+  const boxHeight = 86 + signatureHeight;
+  const x = originX + pageWidth - boxWidth - 24;
+  const y = originY + 24;
+
+  page.drawRectangle({
+    x,
+    y,
+    width: boxWidth,
+    height: boxHeight,
+    color: rgb(1, 1, 1),
+    opacity: 0.9,
+    borderColor: GREEN,
+    borderWidth: 2
+  });
+
+  const qrSize = approval.verificationCode ? 70 : 0;
+  if (approval.verificationCode) {
+    const qr = await qrPng(doc, approval.verificationCode);
+    page.drawImage(qr, { x: x + boxWidth - qrSize - 8, y: y + 8, width: qrSize, height: qrSize });
+  }
+
+  const textWidth = boxWidth - qrSize - 24;
+  if (drawn) {
+    const size = fitImage(drawn, textWidth, signatureHeight - 6);
+    page.drawImage(drawn, { x: x + 10, y: y + 6, width: size.width, height: size.height });
+  }
+  const lines: Array<{ text: string; size: number; font: PDFFont }> = [
+    { text: 'APPROVED', size: 16, font: bold },
+    ...wrapText(approval.reviewer.name, font, 8, textWidth).slice(0, 2).map((text) => ({ text, size: 8, font })),
+    { text: formatDate(approval.createdAt), size: 8, font },
+    ...(approval.verificationCode ? [{ text: `Verify: ${approval.verificationCode}`, size: 7, font: bold }] : [])
+  ];
+  let lineY = y + boxHeight - 22;
+  for (const line of lines) {
+    page.drawText(line.text, { x: x + 10, y: lineY, size: line.size, font: line.font, color: GREEN });
+    lineY -= line.size + 5;
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,99 @@
+import prisma from '../prisma';
+
+// SUPERVISOR is the reviewer the student submitted to; it can only be the first stage
+export const STAGE_APPROVER_TYPES = ['SUPERVISOR', 'HOD', 'USER'] as const;
+
+export type StageApproverType = (typeof STAGE_APPROVER_TYPES)[number];
+
+export interface StageApprover {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface ChainPosition {
+  totalStages: number;
+  current: { order: number; name: string } | null;
+  next: { order: number; name: string; approver: StageApprover } | null;
+}
+
+export class ApprovalChainError extends Error {}
+
+export async function findApprovalPolicy(departmentId: number | null, category: string) {
+  if (!departmentId) return null;
+
+  return prisma.approvalPolicy.findUnique({
+    where: {
+      departmentId_category: {
+        departmentId,
+        category: category as 'ASSIGNMENT' | 'THESIS' | 'REPORT'
+      }
+    },
+    include: {
+      stages: { orderBy: { order: 'asc' } }
+    }
+  });
+}
+
+async function resolveStageApprover(
+  stage: { name: string; approverType: string; approverId: number | null },
+  departmentId: number
+): Promise<StageApprover> {
+  if (stage.approverType === 'HOD') {
+    const hod = await prisma.user.findFirst({
+      where: { departmentId, role: 'HOD' },
+      select: { id: true, name: true, email: true }
+    });
+    if (!hod) {
+      throw new ApprovalChainError(`No HOD is assigned to this department for stage "${stage.name}"`);
+    }
+    return hod;
+  }
+
+  if (stage.approverType === 'USER' && stage.approverId) {
+    const user = await prisma.user.findUnique({
+      where: { id: stage.approverId },
+      select: { id: true, name: true, email: true }
+    });
+    if (!user) {
+      throw new ApprovalChainError(`The approver configured for stage "${stage.name}" no longer exists`);
+    }
+    return user;
+  }
+
+  throw new ApprovalChainError(`Stage "${stage.name}" has no approver that can be resolved`);
+}
+
+/**
+ * Works out where an assignment sits in its department's approval chain and who
+ * has to approve it next. Without a policy the chain is a single stage, so
+ * `next` is null and the current approval is final.
+ */
+export async function resolveChainPosition(assignment: {
+  category: string;
+  approvalStage: number | null;
+  student: { departmentId: number | null };
+}): Promise<ChainPosition> {
+  const departmentId = assignment.student.departmentId;
+  const policy = await findApprovalPolicy(departmentId, assignment.category);
+
+  if (!policy || policy.stages.length === 0 || !departmentId) {
+    return { totalStages: 1, current: null, next: null };
+  }
+
+  const currentOrder = assignment.approvalStage ?? policy.stages[0]!.order;
+  const current = policy.stages.find((s) => s.order === currentOrder) ?? null;
+  const nextStage = policy.stages.find((s) => s.order > currentOrder);
+
+  return {
+    totalStages: policy.stages.length,
+    current: current ? { order: current.order, name: current.name } : null,
+    next: nextStage
+      ? {
+          order: nextStage.order,
+          name: nextStage.name,
+          approver: await resolveStageApprover(nextStage, departmentId)
+        }
+      : null
+  };
+}
@@ -0,0 +1,156 @@
+import { AssignmentStatus } from '@prisma/client';
+import prisma from '../prisma';
+import { ASSIGNMENT_TRANSITIONS, transitionAssignment } from './assignmentTransitions';
+import { sendRejectionEmail } from './email';
+
+const rule = ASSIGNMENT_TRANSITIONS.REVOKE_APPROVAL;
+
+// Where a revoked approval can send the assignment: back into review, back to the student for changes, or rejected
+export const REVOCATION_TARGETS: AssignmentStatus[] = [rule.to, ...(rule.alternatives ?? [])];
+
+const MIN_REASON_LENGTH = 20;
+
+const targetLabels: Partial<Record<AssignmentStatus, string>> = {
+  SUBMITTED: 'sent back for review',
+  PENDING: 'returned for changes',
+  REJECTED: 'rejected'
+};
+
+export class ApprovalRevocationError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400
+  ) {
+    super(message);
+  }
+}
+
+export function parseRevocationInput(
+  body: unknown
+): { error: string } | { target: AssignmentStatus; reason: string } {
+  const { status, reason } = (body ?? {}) as { status?: unknown; reason?: unknown };
+
+  const target = typeof status === 'string' ? (status.toUpperCase() as AssignmentStatus) : null;
+  if (!target || !REVOCATION_TARGETS.includes(target)) {
+    return { error: `Status must be one of: ${REVOCATION_TARGETS.join(', ')}` };
+  }
+
+  const justification = typeof reason === 'string' ? reason.trim() : '';
+  if (justification.length < MIN_REASON_LENGTH) {
+    return { error: `A justification of at least ${MIN_REASON_LENGTH} characters is required to revoke an approval` };
+  }
+
+  return { target, reason: justification };
+}
+
+// Approved assignments with the approval that made them final, optionally for one department
+export async function listApprovedAssignments(departmentId?: number) {
+  const assignments = await prisma.assignment.findMany({
+    where: { status: 'APPROVED', ...(departmentId ? { student: { departmentId } } : {}) },
+    select: {
+      id: true,
+      title: true,
+      category: true,
+      student: { select: { id: true, name: true, email: true, department: { select: { id: true, name: true } } } },
+      history: {
+        where: { action: 'APPROVED' },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { signature: true, createdAt: true, reviewer: { select: { id: true, name: true, role: true } } }
+      }
+    }
+  });
+
+  return assignments
+    .map(({ history, ...assignment }) => ({ ...assignment, approval: history[0] ?? null }))
+    .sort((a, b) => (b.approval?.createdAt.getTime() ?? 0) - (a.approval?.createdAt.getTime() ?? 0));
+}
+
+/**
+ * Takes back the latest approval on an assignment. The approval entry stays in
+ * the history with its signature; the new APPROVAL_REVOKED entry points at it
+ * and carries the justification. An HOD is limited to their own department.
+ */
+export async function revokeApproval(options: {
+  assignmentId: number;
+  actor: { id: number; role: string; name: string };
+  departmentId?: number;
+  target: AssignmentStatus;
+  reason: string;
+}) {
+  const { assignmentId, actor, target, reason } = options;
+
+  const assignment = await prisma.assignment.findFirst({
+    where: {
+      id: assignmentId,
+      ...(options.departmentId ? { student: { departmentId: options.departmentId } } : {})
+    },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      studentId: true,
+      reviewerId: true,
+      student: { select: { email: true } }
+    }
+  });
+  if (!assignment) {
+    throw new ApprovalRevocationError(
+      options.departmentId ? 'Assignment not found in your department' : 'Assignment not found',
+      404
+    );
+  }
+  if (assignment.status !== 'APPROVED') {
+    throw new ApprovalRevocationError('Only approved assignments can have their approval revoked', 409);
+  }
+
+  const approval = await prisma.assignmentHistory.findFirst({
+    where: { assignmentId, action: 'APPROVED', revokedBy: null },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, stage: true, reviewerId: true }
+  });
+  if (!approval) {
+    throw new ApprovalRevocationError('No approval on record to revoke', 409);
+  }
+
+  const outcome = targetLabels[target] ?? target.toLowerCase();
+  // The approver and whoever holds the assignment now, minus the person revoking
+  const reviewerIds = Array.from(
+    new Set([approval.reviewerId, assignment.reviewerId].filter((id): id is number => id !== null))
+  ).filter((id) => !(actor.role !== 'ADMIN' && id === actor.id));
+
+  await transitionAssignment({
+    assignmentId,
+    action: 'REVOKE_APPROVAL',
+    to: target,
+    actor,
+    // A rejection clears the reviewer like any other; resubmitting goes back to the last one submitted to
+    ...(target === 'REJECTED' ? { data: { reviewerId: null, approvalStage: null } } : {}),
+    history: {
+      stage: approval.stage,
+      remark: reason,
+      signature: actor.name,
+      revokesId: approval.id
+    },
+    notifications: [
+      {
+        message: `The approval of your assignment "${assignment.title}" has been revoked and it has been ${outcome}. Reason: ${reason}`,
+        type: 'APPROVAL_REVOKED',
+        userId: assignment.studentId
+      },
+      ...reviewerIds.map((userId) => ({
+        message: `The approval of "${assignment.title}" has been revoked by ${actor.name} and it has been ${outcome}${
+          target === 'SUBMITTED' && userId === assignment.reviewerId ? '; it is back in your queue' : ''
+        }. Reason: ${reason}`,
+        type: 'APPROVAL_REVOKED',
+        userId
+      }))
+    ]
+  });
+
+  if (target === 'REJECTED') {
+    await sendRejectionEmail(assignment.student.email, assignment.title, reason);
+  }
+
+  return { target, outcome };
+}
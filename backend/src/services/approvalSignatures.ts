@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { checksumOf } from './assignmentVersions';
+import { resolveUploadPath } from './fileAccess';
+
+const CA_DIR = process.env.SIGNING_CA_DIR || path.join(process.cwd(), 'keys');
+// Encrypts the CA key on disk and the reviewer keys in the database
+const SIGNING_KEY_SECRET =
+  process.env.SIGNING_KEY_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+export const CA_NAME = 'UAAP Local Certificate Authority';
+const CERTIFICATE_VALIDITY_MS = 2 * 365 * 24 * 60 * 60 * 1000; // 2 years
+
+export type SignedDecision = 'APPROVED' | 'STAGE_APPROVED';
+
+export class ApprovalSignatureError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 409
+  ) {
+    super(message);
+  }
+}
+
+interface ReviewerCertificate {
+  version: 1;
+  serial: string;
+  issuer: string;
+  issuerFingerprint: string;
+  subject: { userId: number; name: string; email: string };
+  publicKey: string;
+  notBefore: string;
+  notAfter: string;
+}
+
+interface CertificateAuthority {
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  fingerprint: string;
+}
+
+let authority: CertificateAuthority | null = null;
+
+function fingerprintOf(key: crypto.KeyObject) {
+  return crypto.createHash('sha256').update(key.export({ type: 'spki', format: 'der' })).digest('hex');
+}
+
+function generateKeyPair() {
+  return crypto.generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase: SIGNING_KEY_SECRET }
+  });
+}
+
+// The CA key pair is kept on disk beside the server and created the first time anything is signed
+function loadAuthority(): CertificateAuthority {
+  if (authority) return authority;
+
+  const privatePath = path.join(CA_DIR, 'ca-key.pem');
+  const publicPath = path.join(CA_DIR, 'ca-public.pem');
+  if (!fs.existsSync(privatePath)) {
+    fs.mkdirSync(CA_DIR, { recursive: true });
+    const pair = generateKeyPair();
+    fs.writeFileSync(privatePath, pair.privateKey, { mode: 0o600 });
+    fs.writeFileSync(publicPath, pair.publicKey);
+  }
+
+  const publicKey = crypto.createPublicKey(fs.readFileSync(publicPath, 'utf8'));
+  authority = {
+    privateKey: crypto.createPrivateKey({ key: fs.readFileSync(privatePath, 'utf8'), passphrase: SIGNING_KEY_SECRET }),
+    publicKey,
+    fingerprint: fingerprintOf(publicKey)
+  };
+  return authority;
+}
+
+async function issueSigningKey(tx: Prisma.TransactionClient, userId: number) {
+  const user = await tx.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { id: true, name: true, email: true }
+  });
+  const ca = loadAuthority();
+  const pair = generateKeyPair();
+  const now = new Date();
+  const notAfter = new Date(now.getTime() + CERTIFICATE_VALIDITY_MS);
+
+  const certificate: ReviewerCertificate = {
+    version: 1,
+    serial: crypto.randomBytes(12).toString('hex'),
+    issuer: CA_NAME,
+    issuerFingerprint: ca.fingerprint,
+    subject: { userId: user.id, name: user.name, email: user.email },
+    publicKey: pair.publicKey,
+    notBefore: now.toISOString(),
+    notAfter: notAfter.toISOString()
+  };
+  const certificateJson = JSON.stringify(certificate);
+
+  return tx.reviewerSigningKey.create({
+    data: {
+      userId,
+      serial: certificate.serial,
+      publicKey: pair.publicKey,
+      privateKey: pair.privateKey,
+      certificate: certificateJson,
+      caSignature: crypto.sign(null, Buffer.from(certificateJson), ca.privateKey).toString('base64'),
+      notAfter
+    }
+  });
+}
+
+// The reviewer's current key, issuing a new one on first use or once the certificate has expired
+async function activeSigningKey(tx: Prisma.TransactionClient, userId: number) {
+  const existing = await tx.reviewerSigningKey.findFirst({
+    where: { userId, notAfter: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' }
+  });
+  return existing ?? issueSigningKey(tx, userId);
+}
+
+function approvalPayload(fields: {
+  code: string;
+  assignmentId: number;
+  decision: string;
+  fileChecksum: string;
+  signedAt: Date;
+  serial: string;
+}) {
+  return JSON.stringify({
+    v: 1,
+    code: fields.code,
+    assignmentId: fields.assignmentId,
+    decision: fields.decision,
+    fileChecksum: fields.fileChecksum,
+    signedAt: fields.signedAt.toISOString(),
+    serial: fields.serial
+  });
+}
+
+async function currentFileChecksum(assignmentId: number) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { filePath: true }
+  });
+  if (!assignment?.filePath) return null;
+  try {
+    return await checksumOf(resolveUploadPath(assignment.filePath));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the assignment file up front and returns an `afterHistory` hook that
+ * signs the approval entry with the reviewer's key inside the transition, so
+ * an approval is never recorded without its signature.
+ */
+export async function approvalSigner(assignmentId: number, reviewerId: number, decision: SignedDecision) {
+  const fileChecksum = await currentFileChecksum(assignmentId);
+  if (!fileChecksum) {
+    throw new ApprovalSignatureError('The assignment file could not be read, so the approval cannot be signed');
+  }
+
+  return async (tx: Prisma.TransactionClient, history: { id: number; createdAt: Date }) => {
+    const key = await activeSigningKey(tx, reviewerId);
+    const code = crypto.randomBytes(8).toString('hex').toUpperCase();
+    const payload = approvalPayload({
+      code,
+      assignmentId,
+      decision,
+      fileChecksum,
+      signedAt: history.createdAt,
+      serial: key.serial
+    });
+    const privateKey = crypto.createPrivateKey({ key: key.privateKey, passphrase: SIGNING_KEY_SECRET });
+
+    await tx.approvalSignature.create({
+      data: {
+        code,
+        historyId: history.id,
+        assignmentId,
+        reviewerId,
+        keyId: key.id,
+        decision,
+        fileChecksum,
+        signedAt: history.createdAt,
+        signature: crypto.sign(null, Buffer.from(payload), privateKey).toString('base64')
+      }
+    });
+  };
+}
+
+/**
+ * Checks a signed approval from scratch: the certificate against the CA, the
+ * signature against the certificate's key, and the signed fields against the
+ * history entry. Also reports whether the file still matches and whether the
+ * approval has since been revoked.
+ */
+export async function verifyApprovalSignature(code: string) {
+  const record = await prisma.approvalSignature.findUnique({
+    where: { code: code.toUpperCase() },
+    select: {
+      code: true,
+      assignmentId: true,
+      decision: true,
+      fileChecksum: true,
+      signedAt: true,
+      signature: true,
+      key: { select: { serial: true, certificate: true, caSignature: true } },
+      reviewer: { select: { name: true, role: true } },
+      history: {
+        select: {
+          assignmentId: true,
+          reviewerId: true,
+          action: true,
+          stage: true,
+          createdAt: true,
+          revokedBy: { select: { remark: true, createdAt: true } },
+          assignment: {
+            select: { title: true, student: { select: { name: true, department: { select: { name: true } } } } }
+          }
+        }
+      }
+    }
+  });
+  if (!record) {
+    throw new ApprovalSignatureError('No signed approval matches this code', 404);
+  }
+
+  const ca = loadAuthority();
+  const certificate = JSON.parse(record.key.certificate) as ReviewerCertificate;
+
+  const certificateValid =
+    certificate.issuerFingerprint === ca.fingerprint &&
+    certificate.serial === record.key.serial &&
+    crypto.verify(null, Buffer.from(record.key.certificate), ca.publicKey, Buffer.from(record.key.caSignature, 'base64'));
+  const withinValidity =
+    record.signedAt >= new Date(certificate.notBefore) && record.signedAt <= new Date(certificate.notAfter);
+  const signatureValid = crypto.verify(
+    null,
+    Buffer.from(approvalPayload({ ...record, serial: certificate.serial })),
+    crypto.createPublicKey(certificate.publicKey),
+    Buffer.from(record.signature, 'base64')
+  );
+  // signedAt is part of the signed payload and equal to the entry's timestamp, so a signature cannot be
+  // moved onto another approval of the same assignment, such as one made again after a revocation
+  const matchesRecord =
+    record.history.assignmentId === record.assignmentId &&
+    record.history.action === record.decision &&
+    record.history.createdAt.getTime() === record.signedAt.getTime() &&
+    record.history.reviewerId === certificate.subject.userId;
+  const currentChecksum = await currentFileChecksum(record.assignmentId);
+
+  const genuine = certificateValid && withinValidity && signatureValid && matchesRecord;
+  const revoked = record.history.revokedBy;
+
+  return {
+    status: !genuine ? 'INVALID' : revoked ? 'REVOKED' : 'VALID',
+    checks: {
+      certificate: certificateValid && withinValidity,
+      signature: signatureValid,
+      matchesRecord,
+      // Null when the file is no longer on the server
+      fileUnchanged: currentChecksum === null ? null : currentChecksum === record.fileChecksum
+    },
+    approval: {
+      code: record.code,
+      assignmentTitle: record.history.assignment.title,
+      studentName: record.history.assignment.student.name,
+      department: record.history.assignment.student.department?.name ?? null,
+      decision: record.decision,
+      stage: record.history.stage,
+      signedAt: record.signedAt,
+      fileChecksum: record.fileChecksum,
+      reviewer: { name: certificate.subject.name, role: record.reviewer.role }
+    },
+    certificate: {
+      serial: certificate.serial,
+      issuer: certificate.issuer,
+      notBefore: certificate.notBefore,
+      notAfter: certificate.notAfter
+    },
+    revoked: revoked ? { reason: revoked.remark, revokedAt: revoked.createdAt } : null
+  };
+}
@@ -0,0 +1,187 @@
+import prisma from '../prisma';
+
+export const COMMENT_MAX_LENGTH = 2000;
+
+export class CommentError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400
+  ) {
+    super(message);
+  }
+}
+
+const userSelect = { id: true, name: true, role: true } as const;
+
+const commentSelect = {
+  id: true,
+  parentId: true,
+  body: true,
+  createdAt: true,
+  author: { select: userSelect },
+  mentions: { select: { user: { select: userSelect } } }
+} as const;
+
+/**
+ * Everyone who can take part in the discussion: the student and their
+ * teammates, the current reviewer, the review panel, the department's HOD and
+ * anyone who has acted on the assignment before.
+ */
+export async function getAssignmentParticipants(assignmentId: number) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: {
+      student: { select: { ...userSelect, departmentId: true } },
+      members: { select: { student: { select: userSelect } } },
+      reviewer: { select: userSelect },
+      panelMembers: { select: { reviewer: { select: userSelect } } },
+      history: { select: { reviewer: { select: userSelect } } }
+    }
+  });
+  if (!assignment) return [];
+
+  const { departmentId, ...student } = assignment.student;
+  const hods = departmentId
+    ? await prisma.user.findMany({ where: { departmentId, role: 'HOD' }, select: userSelect })
+    : [];
+
+  const participants = new Map<number, { id: number; name: string; role: string }>();
+  [
+    student,
+    ...assignment.members.map((m) => m.student),
+    assignment.reviewer,
+    ...assignment.panelMembers.map((m) => m.reviewer),
+    ...hods,
+    ...assignment.history.map((h) => h.reviewer)
+  ].forEach(
+    (user) => {
+      if (user) participants.set(user.id, user);
+    }
+  );
+  return Array.from(participants.values());
+}
+
+export async function listCommentThreads(assignmentId: number) {
+  const comments = await prisma.assignmentComment.findMany({
+    where: { assignmentId },
+    orderBy: { createdAt: 'asc' },
+    select: commentSelect
+  });
+
+  const format = (c: (typeof comments)[number]) => ({
+    id: c.id,
+    body: c.body,
+    createdAt: c.createdAt,
+    author: c.author,
+    mentions: c.mentions.map((m) => m.user)
+  });
+
+  return comments
+    .filter((c) => c.parentId === null)
+    .map((root) => ({
+      ...format(root),
+      replies: comments.filter((c) => c.parentId === root.id).map(format)
+    }));
+}
+
+/**
+ * Adds a comment or reply and notifies the other participants. Mentioned users
+ * get an ASSIGNMENT_COMMENT_MENTION notification instead of the generic one.
+ */
+export async function createAssignmentComment(options: {
+  assignmentId: number;
+  authorId: number;
+  body: unknown;
+  parentId?: unknown;
+  mentionIds?: unknown;
+}) {
+  const { assignmentId, authorId } = options;
+  const body = typeof options.body === 'string' ? options.body.trim() : '';
+
+  if (!body) {
+    throw new CommentError('Comment cannot be empty');
+  }
+  if (body.length > COMMENT_MAX_LENGTH) {
+    throw new CommentError(`Comment must be at most ${COMMENT_MAX_LENGTH} characters`);
+  }
+
+  let parentId: number | null = null;
+  if (options.parentId !== undefined && options.parentId !== null) {
+    const parent = await prisma.assignmentComment.findFirst({
+      where: { id: Number(options.parentId), assignmentId },
+      select: { id: true, parentId: true }
+    });
+    if (!parent) {
+      throw new CommentError('The comment you are replying to was not found', 404);
+    }
+    // Replies to a reply join the same thread
+    parentId = parent.parentId ?? parent.id;
+  }
+
+  const participants = await getAssignmentParticipants(assignmentId);
+  const participantIds = new Set(participants.map((p) => p.id));
+
+  const requestedMentions = Array.isArray(options.mentionIds)
+    ? options.mentionIds.map(Number).filter((id) => Number.isInteger(id))
+    : [];
+  const mentionIds = Array.from(new Set(requestedMentions)).filter(
+    (id) => id !== authorId && participantIds.has(id)
+  );
+  if (mentionIds.length !== new Set(requestedMentions.filter((id) => id !== authorId)).size) {
+    throw new CommentError('You can only mention people involved in this assignment');
+  }
+
+  const assignment = await prisma.assignment.findUniqueOrThrow({
+    where: { id: assignmentId },
+    select: { title: true }
+  });
+  const author = participants.find((p) => p.id === authorId);
+  const authorName = author?.name ?? 'Someone';
+  const preview = `${body.slice(0, 100)}${body.length > 100 ? '...' : ''}`;
+
+  const recipients = Array.from(participantIds).filter((id) => id !== authorId);
+
+  return prisma.$transaction(async (tx) => {
+    const comment = await tx.assignmentComment.create({
+      data: {
+        assignmentId,
+        authorId,
+        parentId,
+        body,
+        mentions: { create: mentionIds.map((userId) => ({ userId })) }
+      },
+      select: commentSelect
+    });
+
+    if (recipients.length > 0) {
+      await tx.notification.createMany({
+        data: recipients.map((userId) =>
+          mentionIds.includes(userId)
+            ? {
+                message: `${authorName} mentioned you on "${assignment.title}": ${preview}`,
+                type: 'ASSIGNMENT_COMMENT_MENTION',
+                userId,
+                assignmentId,
+                read: false
+              }
+            : {
+                message: `${authorName} ${parentId ? 'replied' : 'commented'} on "${assignment.title}": ${preview}`,
+                type: 'ASSIGNMENT_COMMENT',
+                userId,
+                assignmentId,
+                read: false
+              }
+        )
+      });
+    }
+
+    return {
+      id: comment.id,
+      parentId: comment.parentId,
+      body: comment.body,
+      createdAt: comment.createdAt,
+      author: comment.author,
+      mentions: comment.mentions.map((m) => m.user)
+    };
+  });
+}
@@ -0,0 +1,308 @@
+import { AssignmentStatus, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { historyHash, recordChainStart } from './historyChain';
+import { signatureImageUrl } from './signatureImages';
+
+export type TransitionAction =
+  | 'SUBMIT'
+  | 'RESUBMIT'
+  | 'WITHDRAW'
+  | 'FORWARD'
+  | 'RETURN'
+  | 'TAKE_OVER'
+  | 'ADVANCE_STAGE'
+  | 'APPROVE'
+  | 'REQUEST_CHANGES'
+  | 'REJECT'
+  | 'REVOKE_APPROVAL';
+
+interface TransitionRule {
+  from: AssignmentStatus[];
+  to: AssignmentStatus;
+  // Statuses the caller may pick instead of `to`
+  alternatives?: AssignmentStatus[];
+  roles: string[];
+  historyAction: string;
+}
+
+// Statuses in which an assignment sits in a reviewer's queue
+export const IN_REVIEW_STATUSES: AssignmentStatus[] = ['SUBMITTED', 'FORWARDED'];
+
+const AUTHORS = ['STUDENT', 'PROFESSOR', 'HOD'];
+const REVIEWERS = ['PROFESSOR', 'HOD'];
+
+export const ASSIGNMENT_TRANSITIONS: Record<TransitionAction, TransitionRule> = {
+  SUBMIT: { from: ['DRAFT'], to: 'SUBMITTED', roles: AUTHORS, historyAction: 'SUBMITTED' },
+  RESUBMIT: { from: ['REJECTED', 'PENDING'], to: 'SUBMITTED', roles: AUTHORS, historyAction: 'SUBMITTED' },
+  // Only until the reviewer has done anything with it; see services/withdrawal.ts
+  WITHDRAW: { from: IN_REVIEW_STATUSES, to: 'DRAFT', roles: AUTHORS, historyAction: 'WITHDRAWN' },
+  FORWARD: { from: IN_REVIEW_STATUSES, to: 'FORWARDED', roles: REVIEWERS, historyAction: 'FORWARDED' },
+  RETURN: { from: IN_REVIEW_STATUSES, to: 'FORWARDED', roles: ['HOD'], historyAction: 'RETURNED' },
+  TAKE_OVER: { from: IN_REVIEW_STATUSES, to: 'FORWARDED', roles: ['HOD'], historyAction: 'TAKEN_OVER' },
+  ADVANCE_STAGE: { from: IN_REVIEW_STATUSES, to: 'SUBMITTED', roles: REVIEWERS, historyAction: 'STAGE_APPROVED' },
+  APPROVE: { from: IN_REVIEW_STATUSES, to: 'APPROVED', roles: REVIEWERS, historyAction: 'APPROVED' },
+  // PENDING = changes requested: back with the student, reviewer kept
+  REQUEST_CHANGES: { from: IN_REVIEW_STATUSES, to: 'PENDING', roles: REVIEWERS, historyAction: 'CHANGES_REQUESTED' },
+  REJECT: { from: IN_REVIEW_STATUSES, to: 'REJECTED', roles: REVIEWERS, historyAction: 'REJECTED' },
+  // Back into review by default; see services/approvalRevocation.ts
+  REVOKE_APPROVAL: {
+    from: ['APPROVED'],
+    to: 'SUBMITTED',
+    alternatives: ['PENDING', 'REJECTED'],
+    roles: ['HOD', 'ADMIN'],
+    historyAction: 'APPROVAL_REVOKED'
+  }
+};
+
+export class AssignmentTransitionError extends Error {
+  readonly status = 409;
+
+  constructor(
+    readonly action: TransitionAction,
+    readonly from: AssignmentStatus,
+    readonly role: string,
+    readonly code: 'INVALID_TRANSITION' | 'ROLE_NOT_ALLOWED' | 'CONCURRENT_UPDATE' | 'INVALID_TARGET',
+    // The status asked for, on INVALID_TARGET
+    readonly to: AssignmentStatus | null = null
+  ) {
+    super(
+      code === 'ROLE_NOT_ALLOWED'
+        ? `Your role (${role}) cannot ${action.toLowerCase().replace('_', ' ')} an assignment.`
+        : code === 'CONCURRENT_UPDATE'
+          ? 'The assignment was changed by someone else. Please reload and try again.'
+          : code === 'INVALID_TARGET'
+            ? `Cannot ${action.toLowerCase().replace('_', ' ')} an assignment to ${to}.`
+            : `Cannot ${action.toLowerCase().replace('_', ' ')} an assignment that is ${from}.`
+    );
+  }
+
+  toResponse() {
+    return {
+      success: false,
+      message: this.message,
+      error: {
+        code: this.code,
+        action: this.action,
+        from: this.from,
+        allowedFrom: ASSIGNMENT_TRANSITIONS[this.action].from,
+        role: this.role,
+        ...(this.to ? { to: this.to } : {})
+      }
+    };
+  }
+}
+
+export function assertTransition(from: AssignmentStatus, action: TransitionAction, role: string) {
+  const rule = ASSIGNMENT_TRANSITIONS[action];
+  if (!rule.roles.includes(role)) {
+    throw new AssignmentTransitionError(action, from, role, 'ROLE_NOT_ALLOWED');
+  }
+  if (!rule.from.includes(from)) {
+    throw new AssignmentTransitionError(action, from, role, 'INVALID_TRANSITION');
+  }
+  return rule;
+}
+
+export function allowedActions(status: AssignmentStatus, role: string): TransitionAction[] {
+  return (Object.keys(ASSIGNMENT_TRANSITIONS) as TransitionAction[]).filter((action) => {
+    const rule = ASSIGNMENT_TRANSITIONS[action];
+    return rule.roles.includes(role) && rule.from.includes(status);
+  });
+}
+
+export interface HistoryEntry {
+  assignmentId: number;
+  // Exactly one of these: administrators are not users
+  reviewerId: number | null;
+  adminId?: number | null;
+  action: string;
+  stage?: number | null;
+  remark?: string | null;
+  signature?: string | null;
+  revokesId?: number | null;
+  signatureImageId?: number | null;
+}
+
+/**
+ * The one place history rows are written, for transitions and for entries
+ * that do not move the status. Each row is chained to the previous row of the
+ * same assignment; prevHash is unique, so two writers racing for the same
+ * predecessor cannot fork the chain.
+ */
+export async function recordHistory(tx: Prisma.TransactionClient, entry: HistoryEntry) {
+  const previous = await tx.assignmentHistory.findFirst({
+    where: { assignmentId: entry.assignmentId },
+    orderBy: { id: 'desc' },
+    select: { hash: true }
+  });
+  const fields = {
+    assignmentId: entry.assignmentId,
+    reviewerId: entry.reviewerId,
+    adminId: entry.adminId ?? null,
+    action: entry.action,
+    stage: entry.stage ?? null,
+    remark: entry.remark ?? null,
+    signature: entry.signature ?? null,
+    revokesId: entry.revokesId ?? null,
+    signatureImageId: entry.signatureImageId ?? null,
+    createdAt: new Date(),
+    prevHash: previous?.hash ?? null
+  };
+  const history = await tx.assignmentHistory.create({ data: { ...fields, hash: historyHash(fields) } });
+  await recordChainStart(tx, history.id);
+  return history;
+}
+
+const historyActorSelect = { id: true, name: true, email: true, role: true } as const;
+
+// What the student and reviewer timelines show for each history row
+export const historyTimelineSelect = {
+  id: true,
+  action: true,
+  stage: true,
+  remark: true,
+  signature: true,
+  signatureImageId: true,
+  createdAt: true,
+  reviewer: { select: historyActorSelect },
+  admin: { select: { id: true, email: true } },
+  approvalSignature: { select: { code: true } },
+  revokedBy: {
+    select: {
+      remark: true,
+      signature: true,
+      createdAt: true,
+      reviewer: { select: historyActorSelect },
+      admin: { select: { id: true, email: true } }
+    }
+  }
+} satisfies Prisma.AssignmentHistorySelect;
+
+type HistoryActor = {
+  reviewer: { id: number; name: string; email: string; role: string } | null;
+  admin: { id: number; email: string } | null;
+};
+
+function historyActor(entry: HistoryActor) {
+  return entry.reviewer ?? { id: entry.admin?.id ?? 0, name: 'Administrator', email: entry.admin?.email ?? '', role: 'ADMIN' };
+}
+
+export function formatTimelineEntry(
+  entry: Prisma.AssignmentHistoryGetPayload<{ select: typeof historyTimelineSelect }>
+) {
+  const reviewer = historyActor(entry);
+  return {
+    id: entry.id,
+    action: entry.action,
+    stage: entry.stage,
+    remark: entry.remark,
+    signature: entry.signature || reviewer.name,
+    signatureImageId: entry.signatureImageId,
+    // Short-lived link to the drawn signature the reviewer had registered when they acted
+    signatureImageUrl: entry.signatureImageId ? signatureImageUrl(entry.signatureImageId) : null,
+    createdAt: entry.createdAt,
+    reviewer,
+    // Signed approvals can be checked on the public verify page
+    verificationCode: entry.approvalSignature?.code ?? null,
+    // Approvals keep their signature after a revocation; this says who revoked it and why
+    revoked: entry.revokedBy
+      ? {
+          reason: entry.revokedBy.remark,
+          by: historyActor(entry.revokedBy).name,
+          createdAt: entry.revokedBy.createdAt
+        }
+      : null
+  };
+}
+
+export interface TransitionOptions {
+  assignmentId: number;
+  action: TransitionAction;
+  actor: { id: number; role: string };
+  // Extra assignment fields to write alongside the status change (reviewer, stage, file...)
+  data?: Omit<Prisma.AssignmentUncheckedUpdateManyInput, 'status'>;
+  history?: {
+    reviewerId?: number;
+    stage?: number | null;
+    remark?: string | null;
+    signature?: string | null;
+    revokesId?: number | null;
+    signatureImageId?: number | null;
+  };
+  // One of the rule's alternatives, for actions that let the caller pick the new status
+  to?: AssignmentStatus;
+  notifications?: Array<{ userId: number; message: string; type: string }>;
+  // Extra writes that must commit or roll back with the transition
+  afterHistory?: (tx: Prisma.TransactionClient, history: { id: number; createdAt: Date }) => Promise<void>;
+}
+
+/**
+ * Moves an assignment to the status its rule dictates and records the history
+ * entry and notifications in the same transaction. The update is conditional on
+ * the status read at the start, so two reviewers acting at once cannot both win.
+ * Notifications addressed to the student also go to the rest of a group.
+ * Administrators are recorded by admin ID since they have no user row.
+ */
+export async function transitionAssignment(options: TransitionOptions) {
+  return prisma.$transaction((tx) => applyTransition(tx, options));
+}
+
+// The body of transitionAssignment, for callers that need other writes in the same transaction
+export async function applyTransition(tx: Prisma.TransactionClient, options: TransitionOptions) {
+  const { assignmentId, action, actor } = options;
+
+  const current = await tx.assignment.findUniqueOrThrow({
+    where: { id: assignmentId },
+    select: { status: true, studentId: true, members: { select: { studentId: true } } }
+  });
+
+  const rule = assertTransition(current.status, action, actor.role);
+  const to = options.to ?? rule.to;
+  if (to !== rule.to && !rule.alternatives?.includes(to)) {
+    throw new AssignmentTransitionError(action, current.status, actor.role, 'INVALID_TARGET', to);
+  }
+
+  const updated = await tx.assignment.updateMany({
+    where: { id: assignmentId, status: current.status },
+    data: { ...options.data, status: to }
+  });
+  if (updated.count === 0) {
+    throw new AssignmentTransitionError(action, current.status, actor.role, 'CONCURRENT_UPDATE');
+  }
+
+  const history = await recordHistory(tx, {
+    assignmentId,
+    ...(actor.role === 'ADMIN'
+      ? { reviewerId: null, adminId: actor.id }
+      : { reviewerId: options.history?.reviewerId ?? actor.id }),
+    action: rule.historyAction,
+    stage: options.history?.stage ?? null,
+    remark: options.history?.remark ?? null,
+    signature: options.history?.signature ?? null,
+    revokesId: options.history?.revokesId ?? null,
+    signatureImageId: options.history?.signatureImageId ?? null
+  });
+
+  if (options.afterHistory) {
+    await options.afterHistory(tx, history);
+  }
+
+  const notifications = (options.notifications ?? []).flatMap((n) =>
+    n.userId === current.studentId
+      ? [n, ...current.members.map((m) => ({ ...n, userId: m.studentId }))]
+      : [n]
+  );
+  if (notifications.length) {
+    await tx.notification.createMany({
+      data: notifications.map((n) => ({
+        message: n.message,
+        type: n.type,
+        userId: n.userId,
+        assignmentId,
+        read: false
+      }))
+    });
+  }
+
+  return { from: current.status, to, history };
+}
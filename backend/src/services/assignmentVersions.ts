@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { resolveUploadPath } from './fileAccess';
+
+export interface VersionFileData {
+  filePath: string;
+  fileName: string;
+  checksum: string;
+  size: number;
+}
+
+export function checksumOf(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+// Everything a version row needs to know about a file multer has just written
+export async function describeUploadedFile(file: Express.Multer.File): Promise<VersionFileData> {
+  return {
+    filePath: file.path,
+    fileName: file.originalname,
+    checksum: await checksumOf(file.path),
+    size: file.size
+  };
+}
+
+/**
+ * Appends the next version for an assignment. Callers update Assignment.filePath
+ * themselves (usually inside a status transition) so the two stay in step.
+ */
+export async function addAssignmentVersion(
+  tx: Prisma.TransactionClient,
+  assignmentId: number,
+  data: VersionFileData,
+  uploadedById: number
+) {
+  const latest = await tx.assignmentVersion.findFirst({
+    where: { assignmentId },
+    orderBy: { version: 'desc' },
+    select: { version: true }
+  });
+
+  return tx.assignmentVersion.create({
+    data: {
+      assignmentId,
+      version: (latest?.version ?? 0) + 1,
+      uploadedById,
+      ...data
+    }
+  });
+}
+
+// Lists versions oldest first
+export async function listAssignmentVersions(assignmentId: number) {
+  return prisma.assignmentVersion.findMany({
+    where: { assignmentId },
+    orderBy: { version: 'asc' },
+    select: {
+      id: true,
+      version: true,
+      fileName: true,
+      checksum: true,
+      size: true,
+      uploadedAt: true,
+      uploadedBy: { select: { id: true, name: true, role: true } }
+    }
+  });
+}
+
+/**
+ * The file of an assignment uploaded before versioning existed, read for
+ * `ensureInitialVersion`. Null when the assignment already has versions or its
+ * file is gone.
+ */
+export async function describeUnversionedFile(assignment: { id: number; filePath: string | null }) {
+  if (!assignment.filePath) return null;
+  const versions = await prisma.assignmentVersion.count({ where: { assignmentId: assignment.id } });
+  if (versions > 0) return null;
+
+  const absolutePath = resolveUploadPath(assignment.filePath);
+  if (!fs.existsSync(absolutePath)) return null;
+  return {
+    filePath: assignment.filePath,
+    fileName: path.basename(assignment.filePath),
+    checksum: await checksumOf(absolutePath),
+    size: fs.statSync(absolutePath).size
+  };
+}
+
+/**
+ * Records that file as version 1 before filePath moves on, so it stays part of
+ * the history. Runs inside the caller's transaction.
+ */
+export async function ensureInitialVersion(
+  tx: Prisma.TransactionClient,
+  assignment: { id: number; studentId: number; submittedAt: Date | null; createdAt: Date },
+  data: VersionFileData
+) {
+  const versions = await tx.assignmentVersion.count({ where: { assignmentId: assignment.id } });
+  if (versions > 0) return;
+
+  await tx.assignmentVersion.create({
+    data: {
+      assignmentId: assignment.id,
+      version: 1,
+      uploadedById: assignment.studentId,
+      uploadedAt: assignment.submittedAt ?? assignment.createdAt,
+      ...data
+    }
+  });
+}
+
+// Deletes an upload from disk unless an assignment or version still points at it
+export async function removeOrphanedFile(filePath: string) {
+  const [assignments, versions] = await Promise.all([
+    prisma.assignment.count({ where: { filePath } }),
+    prisma.assignmentVersion.count({ where: { filePath } })
+  ]);
+  if (assignments > 0 || versions > 0) return;
+
+  try {
+    fs.unlinkSync(resolveUploadPath(filePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error deleting orphaned file:', error);
+    }
+  }
+}
+
+/**
+ * Swaps the file of a draft. Until the draft has been submitted nobody else has
+ * seen it, so the latest version is overwritten and the old file removed. After
+ * a withdrawal the old file is part of the review history and a new version is
+ * added instead. Runs inside the caller's transaction and returns the displaced
+ * paths for `removeOrphanedFile` once it has committed.
+ */
+export async function replaceDraftFile(
+  tx: Prisma.TransactionClient,
+  assignmentId: number,
+  data: VersionFileData,
+  uploadedById: number
+) {
+  const [submissions, latest, previous] = await Promise.all([
+    tx.assignmentHistory.count({ where: { assignmentId, action: 'SUBMITTED' } }),
+    tx.assignmentVersion.findFirst({
+      where: { assignmentId },
+      orderBy: { version: 'desc' },
+      select: { id: true, version: true, filePath: true }
+    }),
+    tx.assignment.findUniqueOrThrow({
+      where: { id: assignmentId },
+      select: { filePath: true }
+    })
+  ]);
+
+  if (submissions === 0 && latest) {
+    await tx.assignmentVersion.update({
+      where: { id: latest.id },
+      data: { ...data, uploadedById, uploadedAt: new Date() }
+    });
+  } else {
+    await tx.assignmentVersion.create({
+      data: { assignmentId, version: (latest?.version ?? 0) + 1, uploadedById, ...data }
+    });
+  }
+  await tx.assignment.update({ where: { id: assignmentId }, data: { filePath: data.filePath } });
+
+  return Array.from(new Set([previous.filePath, latest?.filePath])).filter((p): p is string => !!p);
+}
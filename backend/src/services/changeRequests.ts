@@ -0,0 +1,46 @@
+import prisma from '../prisma';
+
+export const MAX_CHANGE_REQUEST_ITEMS = 20;
+
+// Checklist from the most recent "request changes" review, in the order the reviewer wrote it
+export async function latestChangeRequests(assignmentId: number) {
+  const latest = await prisma.assignmentHistory.findFirst({
+    where: { assignmentId, action: 'CHANGES_REQUESTED' },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      remark: true,
+      createdAt: true,
+      reviewer: { select: { id: true, name: true } },
+      changeRequests: {
+        orderBy: { order: 'asc' },
+        select: { id: true, order: true, description: true, resolvedAt: true }
+      }
+    }
+  });
+
+  if (!latest) return null;
+
+  return {
+    historyId: latest.id,
+    remark: latest.remark,
+    requestedAt: latest.createdAt,
+    requestedBy: latest.reviewer,
+    items: latest.changeRequests
+  };
+}
+
+// Accepts an array of ids, or a JSON-encoded/comma-separated one when sent as a multipart field
+export function parseIdList(value: unknown): number[] {
+  let list: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      list = value.split(',');
+    }
+  }
+  return Array.isArray(list)
+    ? list.map(Number).filter((id) => Number.isInteger(id))
+    : [];
+}
@@ -0,0 +1,111 @@
+import prisma from '../prisma';
+
+export const ASSIGNMENT_CATEGORIES = ['ASSIGNMENT', 'THESIS', 'REPORT'] as const;
+
+export type AssignmentCategoryValue = (typeof ASSIGNMENT_CATEGORIES)[number];
+
+export function parseCourseInput(body: unknown): { error: string } | { code: string; name: string } {
+  const { code, name } = (body ?? {}) as { code?: unknown; name?: unknown };
+  const courseCode = typeof code === 'string' ? code.trim().toUpperCase() : '';
+  const courseName = typeof name === 'string' ? name.trim() : '';
+
+  if (!courseCode || !courseName) {
+    return { error: 'Course code and name are required' };
+  }
+  return { code: courseCode, name: courseName };
+}
+
+export function parseBriefInput(body: unknown):
+  | { error: string }
+  | { title: string; instructions: string; dueDate: Date; allowedCategories: string } {
+  const { title, instructions, dueDate, allowedCategories } = (body ?? {}) as {
+    title?: unknown;
+    instructions?: unknown;
+    dueDate?: unknown;
+    allowedCategories?: unknown;
+  };
+
+  const briefTitle = typeof title === 'string' ? title.trim() : '';
+  if (!briefTitle) {
+    return { error: 'Brief title is required' };
+  }
+
+  const briefInstructions = typeof instructions === 'string' ? instructions.trim() : '';
+  if (!briefInstructions) {
+    return { error: 'Instructions are required' };
+  }
+
+  const due = new Date(typeof dueDate === 'string' || typeof dueDate === 'number' ? dueDate : NaN);
+  if (Number.isNaN(due.getTime())) {
+    return { error: 'A valid due date is required' };
+  }
+
+  const categories = Array.isArray(allowedCategories)
+    ? Array.from(new Set(allowedCategories.map((c) => String(c).toUpperCase())))
+    : [];
+  if (categories.length === 0) {
+    return { error: 'At least one allowed category is required' };
+  }
+  const invalid = categories.find((c) => !(ASSIGNMENT_CATEGORIES as readonly string[]).includes(c));
+  if (invalid) {
+    return { error: `Invalid category ${invalid}. Allowed: ${ASSIGNMENT_CATEGORIES.join(', ')}` };
+  }
+
+  return {
+    title: briefTitle,
+    instructions: briefInstructions,
+    dueDate: due,
+    allowedCategories: categories.join(',')
+  };
+}
+
+export function briefCategories(brief: { allowedCategories: string }): AssignmentCategoryValue[] {
+  return brief.allowedCategories.split(',').filter(Boolean) as AssignmentCategoryValue[];
+}
+
+export const briefSelect = {
+  id: true,
+  title: true,
+  instructions: true,
+  dueDate: true,
+  allowedCategories: true,
+  createdAt: true,
+  course: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      professor: { select: { id: true, name: true, email: true } }
+    }
+  }
+} as const;
+
+export function formatBrief(brief: {
+  id: number;
+  title: string;
+  instructions: string;
+  dueDate: Date;
+  allowedCategories: string;
+  createdAt: Date;
+  course: { id: number; code: string; name: string; professor: { id: number; name: string; email: string } };
+}) {
+  return {
+    id: brief.id,
+    title: brief.title,
+    instructions: brief.instructions,
+    dueDate: brief.dueDate,
+    allowedCategories: briefCategories(brief),
+    createdAt: brief.createdAt,
+    course: brief.course
+  };
+}
+
+// A brief students of the given department may submit against
+export async function findBriefForDepartment(briefId: number, departmentId: number | null) {
+  if (!departmentId || !Number.isInteger(briefId)) return null;
+
+  return prisma.assignmentBrief.findFirst({
+    where: { id: briefId, course: { departmentId } },
+    select: briefSelect
+  });
+}
@@ -0,0 +1,67 @@
+import { getDepartmentSettings } from './departmentSettings';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export class DeadlineError extends Error {
+  constructor(
+    message: string,
+    readonly dueDate: Date,
+    readonly status: number = 403
+  ) {
+    super(message);
+  }
+
+  toResponse() {
+    return { success: false, message: this.message, dueDate: this.dueDate };
+  }
+}
+
+interface DeadlineSubject {
+  dueDate: Date | null;
+  brief: { dueDate: Date } | null;
+  student: { departmentId: number | null };
+}
+
+export function effectiveDueDate(assignment: { dueDate: Date | null; brief: { dueDate: Date } | null }) {
+  return assignment.dueDate ?? assignment.brief?.dueDate ?? null;
+}
+
+/**
+ * Applies the department's late policy to a submission made now. Returns the
+ * late flag and penalty to store on the assignment, or throws DeadlineError
+ * when the policy refuses the submission.
+ */
+export async function evaluateSubmissionTiming(assignment: DeadlineSubject, now: Date = new Date()) {
+  const dueDate = effectiveDueDate(assignment);
+  if (!dueDate || now.getTime() <= dueDate.getTime()) {
+    return { isLate: false, latePenaltyPercent: null, dueDate };
+  }
+
+  const settings = await getDepartmentSettings(assignment.student.departmentId);
+  const lateBy = now.getTime() - dueDate.getTime();
+
+  if (settings.latePolicy === 'HARD_CUTOFF') {
+    throw new DeadlineError(
+      `The deadline (${dueDate.toLocaleString()}) has passed and late submissions are not accepted`,
+      dueDate
+    );
+  }
+
+  if (settings.latePolicy === 'GRACE_PERIOD') {
+    if (lateBy > settings.gracePeriodHours * HOUR_MS) {
+      throw new DeadlineError(
+        `The deadline (${dueDate.toLocaleString()}) and its ${settings.gracePeriodHours}-hour grace period have passed`,
+        dueDate
+      );
+    }
+    return { isLate: true, latePenaltyPercent: null, dueDate };
+  }
+
+  const daysLate = Math.ceil(lateBy / DAY_MS);
+  return {
+    isLate: true,
+    latePenaltyPercent: Math.min(100, daysLate * settings.latePenaltyPercent),
+    dueDate
+  };
+}
@@ -0,0 +1,199 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { AssignmentTransitionError, IN_REVIEW_STATUSES, transitionAssignment } from './assignmentTransitions';
+
+// Delegates can themselves be away; give up after this many hops
+const MAX_DELEGATION_HOPS = 5;
+
+export const DELEGATION_SIGNATURE = 'System: out-of-office delegation';
+
+export class DelegationError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400
+  ) {
+    super(message);
+  }
+}
+
+type OutOfOfficeWindow = { outOfOfficeFrom: Date | null; outOfOfficeUntil: Date | null };
+
+export function isOutOfOffice(user: OutOfOfficeWindow, now: Date = new Date()) {
+  return (
+    user.outOfOfficeFrom !== null &&
+    user.outOfOfficeUntil !== null &&
+    user.outOfOfficeFrom <= now &&
+    now <= user.outOfOfficeUntil
+  );
+}
+
+// Users who are not inside an out-of-office window right now
+export function notOutOfOffice(now: Date = new Date()): Prisma.UserWhereInput {
+  return {
+    OR: [{ outOfOfficeFrom: null }, { outOfOfficeFrom: { gt: now } }, { outOfOfficeUntil: { lt: now } }]
+  };
+}
+
+const delegationSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  departmentId: true,
+  outOfOfficeFrom: true,
+  outOfOfficeUntil: true,
+  delegateId: true
+} as const;
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+type OutOfOfficeUpdate = Partial<OutOfOfficeWindow> & { delegateId?: number | null };
+
+/**
+ * Validates an out-of-office update; fields left out are unchanged. Sending both
+ * dates as null ends the window. The delegate must be another professor or the
+ * HOD of the same department.
+ */
+export async function parseOutOfOfficeInput(
+  body: unknown,
+  user: { id: number; departmentId: number | null }
+): Promise<{ error: string } | { data: OutOfOfficeUpdate }> {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const data: OutOfOfficeUpdate = {};
+
+  if (input.outOfOfficeFrom === null && input.outOfOfficeUntil === null) {
+    data.outOfOfficeFrom = null;
+    data.outOfOfficeUntil = null;
+  } else if (input.outOfOfficeFrom !== undefined || input.outOfOfficeUntil !== undefined) {
+    const from = new Date(String(input.outOfOfficeFrom));
+    const until = new Date(String(input.outOfOfficeUntil));
+    if (Number.isNaN(from.getTime()) || Number.isNaN(until.getTime())) {
+      return { error: 'An out-of-office window needs a valid start and end date' };
+    }
+    if (until <= from) {
+      return { error: 'The out-of-office window must end after it starts' };
+    }
+    if (until <= new Date()) {
+      return { error: 'The out-of-office window has already ended' };
+    }
+    data.outOfOfficeFrom = from;
+    data.outOfOfficeUntil = until;
+  }
+
+  if (input.delegateId !== undefined) {
+    if (input.delegateId === null || input.delegateId === '') {
+      data.delegateId = null;
+    } else {
+      const delegateId = Number(input.delegateId);
+      if (!Number.isInteger(delegateId) || delegateId === user.id) {
+        return { error: 'Choose a colleague other than yourself as delegate' };
+      }
+      const delegate = user.departmentId
+        ? await prisma.user.findFirst({
+            where: { id: delegateId, departmentId: user.departmentId, role: { in: ['PROFESSOR', 'HOD'] } },
+            select: { id: true }
+          })
+        : null;
+      if (!delegate) {
+        return { error: 'The delegate must be a professor or the HOD in your department' };
+      }
+      data.delegateId = delegate.id;
+    }
+  }
+
+  return { data };
+}
+
+/**
+ * Follows an away reviewer's delegate, and the delegate's delegate if they are
+ * away too, until someone in the office is found. Null when the reviewer is
+ * available, has no delegate, or everyone down the line is away.
+ */
+export async function resolveDelegate(reviewerId: number, now: Date = new Date()) {
+  const away = await prisma.user.findUnique({ where: { id: reviewerId }, select: delegationSelect });
+  if (!away || !isOutOfOffice(away, now)) return null;
+
+  const seen = new Set([away.id]);
+  let nextId = away.delegateId;
+  for (let hop = 0; hop < MAX_DELEGATION_HOPS && nextId !== null && !seen.has(nextId); hop++) {
+    const candidate = await prisma.user.findUnique({ where: { id: nextId }, select: delegationSelect });
+    if (!candidate) return null;
+    if (!isOutOfOffice(candidate, now)) return { away, delegate: candidate };
+    seen.add(candidate.id);
+    nextId = candidate.delegateId;
+  }
+
+  return null;
+}
+
+async function forwardOnBehalf(
+  assignment: { id: number; title: string },
+  from: { id: number; name: string; role: string },
+  to: { id: number; name: string },
+  remark: string
+) {
+  try {
+    await transitionAssignment({
+      assignmentId: assignment.id,
+      action: 'FORWARD',
+      actor: { id: from.id, role: from.role },
+      data: { reviewerId: to.id },
+      history: { remark, signature: DELEGATION_SIGNATURE },
+      notifications: [
+        {
+          message: `Assignment "${assignment.title}" was routed to you while ${from.name} is out of office.`,
+          type: 'ASSIGNMENT_DELEGATED',
+          userId: to.id
+        }
+      ]
+    });
+    return true;
+  } catch (error) {
+    // Someone acted on it in the meantime; leave it where it is
+    if (error instanceof AssignmentTransitionError) return false;
+    throw error;
+  }
+}
+
+export type DelegationRoute = NonNullable<Awaited<ReturnType<typeof resolveDelegate>>>;
+
+// Recorded on a submit or resubmit that goes straight to the away reviewer's delegate
+export function delegationRemark({ away, delegate }: DelegationRoute) {
+  return `${away.name} is out of office until ${formatDay(away.outOfOfficeUntil!)}; routed to ${delegate.name}.`;
+}
+
+// Hands every assignment in the user's queue to their delegate in one go
+export async function reassignPendingToDelegate(userId: number) {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: delegationSelect });
+  if (!user.delegateId) {
+    throw new DelegationError('Choose a delegate before handing over your reviews');
+  }
+
+  const delegate = await prisma.user.findUnique({ where: { id: user.delegateId }, select: delegationSelect });
+  if (!delegate) {
+    throw new DelegationError('Your delegate no longer exists; choose another one');
+  }
+  if (isOutOfOffice(delegate)) {
+    throw new DelegationError(`${delegate.name} is out of office as well; choose another delegate`, 409);
+  }
+
+  const pending = await prisma.assignment.findMany({
+    where: { reviewerId: userId, status: { in: IN_REVIEW_STATUSES } },
+    select: { id: true, title: true },
+    orderBy: { submittedAt: 'asc' }
+  });
+
+  const until = user.outOfOfficeUntil ? ` until ${formatDay(user.outOfOfficeUntil)}` : '';
+  let reassigned = 0;
+  for (const assignment of pending) {
+    const moved = await forwardOnBehalf(
+      assignment,
+      user,
+      delegate,
+      `Handed over to ${delegate.name} while ${user.name} is out of office${until}.`
+    );
+    if (moved) reassigned++;
+  }
+
+  return { reassigned, delegate: { id: delegate.id, name: delegate.name, email: delegate.email } };
+}
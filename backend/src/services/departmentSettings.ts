@@ -0,0 +1,137 @@
+import prisma from '../prisma';
+import { ASSIGNMENT_CATEGORIES, AssignmentCategoryValue } from './courses';
+
+export const LATE_POLICIES = ['HARD_CUTOFF', 'GRACE_PERIOD', 'PENALTY'] as const;
+
+export type LatePolicy = (typeof LATE_POLICIES)[number];
+
+export const PANEL_QUORUMS = ['UNANIMOUS', 'MAJORITY'] as const;
+
+export type PanelQuorum = (typeof PANEL_QUORUMS)[number];
+
+// Late work is accepted and flagged, but not penalised, until a department opts into something stricter
+export const DEFAULT_DEPARTMENT_SETTINGS = {
+  latePolicy: 'PENALTY' as LatePolicy,
+  gracePeriodHours: 0,
+  latePenaltyPercent: 0,
+  slaReminderDays: 3,
+  slaEscalationDays: 7,
+  autoAssignReviewers: false,
+  panelCategories: [] as AssignmentCategoryValue[],
+  panelQuorum: 'MAJORITY' as PanelQuorum,
+  panelMinSize: 3
+};
+
+export type DepartmentSettingsValues = typeof DEFAULT_DEPARTMENT_SETTINGS;
+
+export async function getDepartmentSettings(departmentId: number | null): Promise<DepartmentSettingsValues> {
+  if (!departmentId) return { ...DEFAULT_DEPARTMENT_SETTINGS };
+
+  const settings = await prisma.departmentSettings.findUnique({ where: { departmentId } });
+  if (!settings) return { ...DEFAULT_DEPARTMENT_SETTINGS };
+
+  return {
+    latePolicy: settings.latePolicy as LatePolicy,
+    gracePeriodHours: settings.gracePeriodHours,
+    latePenaltyPercent: settings.latePenaltyPercent,
+    slaReminderDays: settings.slaReminderDays,
+    slaEscalationDays: settings.slaEscalationDays,
+    autoAssignReviewers: settings.autoAssignReviewers,
+    panelCategories: settings.panelCategories.split(',').filter(Boolean) as AssignmentCategoryValue[],
+    panelQuorum: settings.panelQuorum as PanelQuorum,
+    panelMinSize: settings.panelMinSize
+  };
+}
+
+// Partial update: fields left out keep their current value
+export function parseDepartmentSettingsInput(
+  body: unknown,
+  current: DepartmentSettingsValues
+): { error: string } | { settings: DepartmentSettingsValues } {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const settings = { ...current };
+
+  if (input.latePolicy !== undefined) {
+    const latePolicy = String(input.latePolicy).toUpperCase();
+    if (!(LATE_POLICIES as readonly string[]).includes(latePolicy)) {
+      return { error: `Invalid late policy. Allowed: ${LATE_POLICIES.join(', ')}` };
+    }
+    settings.latePolicy = latePolicy as LatePolicy;
+  }
+
+  if (input.gracePeriodHours !== undefined) {
+    const hours = Number(input.gracePeriodHours);
+    if (!Number.isInteger(hours) || hours < 0 || hours > 24 * 30) {
+      return { error: 'Grace period must be a whole number of hours between 0 and 720' };
+    }
+    settings.gracePeriodHours = hours;
+  }
+
+  if (input.latePenaltyPercent !== undefined) {
+    const percent = Number(input.latePenaltyPercent);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+      return { error: 'Late penalty must be between 0 and 100 percent per day' };
+    }
+    settings.latePenaltyPercent = percent;
+  }
+
+  for (const field of ['slaReminderDays', 'slaEscalationDays'] as const) {
+    if (input[field] !== undefined) {
+      const days = Number(input[field]);
+      if (!Number.isInteger(days) || days < 1 || days > 90) {
+        return { error: 'SLA thresholds must be a whole number of days between 1 and 90' };
+      }
+      settings[field] = days;
+    }
+  }
+  if (settings.slaEscalationDays <= settings.slaReminderDays) {
+    return { error: 'Escalation must come after the reminder' };
+  }
+
+  if (input.autoAssignReviewers !== undefined) {
+    if (typeof input.autoAssignReviewers !== 'boolean') {
+      return { error: 'autoAssignReviewers must be true or false' };
+    }
+    settings.autoAssignReviewers = input.autoAssignReviewers;
+  }
+
+  if (input.panelCategories !== undefined) {
+    const list = Array.isArray(input.panelCategories)
+      ? input.panelCategories
+      : String(input.panelCategories ?? '').split(',');
+    const categories = Array.from(new Set(list.map((c) => String(c).trim().toUpperCase()).filter(Boolean)));
+    const invalid = categories.find((c) => !(ASSIGNMENT_CATEGORIES as readonly string[]).includes(c));
+    if (invalid) {
+      return { error: `Invalid panel category ${invalid}. Allowed: ${ASSIGNMENT_CATEGORIES.join(', ')}` };
+    }
+    settings.panelCategories = categories as AssignmentCategoryValue[];
+  }
+
+  if (input.panelQuorum !== undefined) {
+    const quorum = String(input.panelQuorum).toUpperCase();
+    if (!(PANEL_QUORUMS as readonly string[]).includes(quorum)) {
+      return { error: `Invalid panel quorum. Allowed: ${PANEL_QUORUMS.join(', ')}` };
+    }
+    settings.panelQuorum = quorum as PanelQuorum;
+  }
+
+  if (input.panelMinSize !== undefined) {
+    const size = Number(input.panelMinSize);
+    if (!Number.isInteger(size) || size < 2 || size > 9) {
+      return { error: 'A panel must have between 2 and 9 members' };
+    }
+    settings.panelMinSize = size;
+  }
+
+  return { settings };
+}
+
+export async function saveDepartmentSettings(departmentId: number, settings: DepartmentSettingsValues) {
+  const data = { ...settings, panelCategories: settings.panelCategories.join(',') };
+  await prisma.departmentSettings.upsert({
+    where: { departmentId },
+    create: { departmentId, ...data },
+    update: data
+  });
+  return getDepartmentSettings(departmentId);
+}
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import path from 'path';
+import prisma from '../prisma';
+import { AuthUser } from '../middleware/auth';
+
+const FILE_URL_SECRET =
+  process.env.FILE_URL_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+export const SIGNED_URL_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// filePath is stored as multer wrote it (absolute), but older rows may be relative to the backend
+export function resolveUploadPath(filePath: string): string {
+  return path.resolve(process.cwd(), filePath);
+}
+
+/**
+ * Returns the assignment when the user may read its files: the student who owns
+ * it or a teammate on it, its current reviewer, a member of its review panel, anyone who has acted on
+ * it in the history, the HOD of the student's department, or an admin.
+ */
+export async function findAccessibleAssignment(user: AuthUser, assignmentId: number) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      filePath: true,
+      studentId: true,
+      reviewerId: true,
+      student: { select: { departmentId: true } }
+    }
+  });
+
+  if (!assignment) return null;
+  if (user.kind === 'ADMIN' || user.role === 'ADMIN') return assignment;
+  if (assignment.studentId === user.id || assignment.reviewerId === user.id) return assignment;
+
+  const [pastReviewer, panelMember, teammate] = await Promise.all([
+    prisma.assignmentHistory.findFirst({
+      where: { assignmentId, reviewerId: user.id },
+      select: { id: true }
+    }),
+    prisma.assignmentPanelMember.findFirst({
+      where: { assignmentId, reviewerId: user.id },
+      select: { id: true }
+    }),
+    prisma.assignmentMember.findFirst({
+      where: { assignmentId, studentId: user.id },
+      select: { id: true }
+    })
+  ]);
+  if (pastReviewer || panelMember || teammate) return assignment;
+
+  if (user.role === 'HOD' && assignment.student.departmentId) {
+    const hod = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { departmentId: true }
+    });
+    if (hod?.departmentId === assignment.student.departmentId) return assignment;
+  }
+
+  return null;
+}
+
+function sign(resource: string, expires: number): string {
+  return crypto.createHmac('sha256', FILE_URL_SECRET).update(`${resource}:${expires}`).digest('hex');
+}
+
+/**
+ * Builds a path-only URL (relative to the API base) that serves the file without
+ * an Authorization header until it expires. The resource string is whatever the
+ * serving route will recompute from its own params, e.g. "assignment:12".
+ */
+export function createSignedUrl(routePath: string, resource: string) {
+  const expires = Date.now() + SIGNED_URL_TTL_MS;
+  const signature = sign(resource, expires);
+  return {
+    url: `${routePath}?expires=${expires}&signature=${signature}`,
+    expiresAt: new Date(expires)
+  };
+}
+
+export function verifySignedUrl(resource: string, expires: unknown, signature: unknown): boolean {
+  if (typeof expires !== 'string' || typeof signature !== 'string') return false;
+  const expiresAt = Number(expires);
+  if (!Number.isFinite(expiresAt) || expiresAt < Date.now()) return false;
+
+  const expected = Buffer.from(sign(resource, expiresAt), 'hex');
+  const given = Buffer.from(signature, 'hex');
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
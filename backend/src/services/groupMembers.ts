@@ -0,0 +1,66 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+
+// Including the student who created the assignment
+export const MAX_GROUP_SIZE = 5;
+
+const memberSelect = { id: true, name: true, email: true } as const;
+
+// Assignments the user authored, alone or as a teammate
+export function authoredBy(userId: number): Prisma.AssignmentWhereInput {
+  return { OR: [{ studentId: userId }, { members: { some: { studentId: userId } } }] };
+}
+
+export async function groupMemberIds(assignmentId: number) {
+  const members = await prisma.assignmentMember.findMany({
+    where: { assignmentId },
+    select: { studentId: true }
+  });
+  return members.map((m) => m.studentId);
+}
+
+export async function listGroupMembers(assignmentId: number) {
+  const members = await prisma.assignmentMember.findMany({
+    where: { assignmentId },
+    orderBy: { createdAt: 'asc' },
+    select: { student: { select: memberSelect } }
+  });
+  return members.map((m) => m.student);
+}
+
+/**
+ * Validates the teammates the owner wants on a group assignment: other students
+ * from the owner's department, at most MAX_GROUP_SIZE people in all. An empty
+ * list turns it back into a solo assignment.
+ */
+export async function parseTeammates(
+  value: unknown,
+  owner: { id: number; departmentId: number | null }
+): Promise<{ error: string } | { students: Array<{ id: number; name: string; email: string }> }> {
+  if (!Array.isArray(value)) {
+    return { error: 'Teammates must be a list of student IDs' };
+  }
+
+  const ids = Array.from(new Set(value.map(Number))).filter((id) => id !== owner.id);
+  if (ids.some((id) => !Number.isInteger(id))) {
+    return { error: 'Teammates must be a list of student IDs' };
+  }
+  if (ids.length + 1 > MAX_GROUP_SIZE) {
+    return { error: `A group can have at most ${MAX_GROUP_SIZE} members including you` };
+  }
+  if (ids.length === 0) {
+    return { students: [] };
+  }
+
+  const students = owner.departmentId
+    ? await prisma.user.findMany({
+        where: { id: { in: ids }, role: 'STUDENT', departmentId: owner.departmentId },
+        select: memberSelect
+      })
+    : [];
+  if (students.length !== ids.length) {
+    return { error: 'Teammates must be students in your department' };
+  }
+
+  return { students: ids.map((id) => students.find((s) => s.id === id)!) };
+}
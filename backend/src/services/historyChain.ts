@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { AssignmentHistory, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+
+// Keys the chain so rows edited straight in the database cannot simply be re-hashed
+const HISTORY_CHAIN_SECRET =
+  process.env.HISTORY_CHAIN_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+// Only fields that never change after the row is written; ids are left out as they are assigned on insert
+export type ChainedHistoryFields = Pick<
+  AssignmentHistory,
+  | 'assignmentId'
+  | 'reviewerId'
+  | 'adminId'
+  | 'action'
+  | 'stage'
+  | 'remark'
+  | 'signature'
+  | 'revokesId'
+  | 'signatureImageId'
+  | 'createdAt'
+  | 'prevHash'
+>;
+
+export type ChainBreakReason = 'HASH_MISMATCH' | 'LINK_MISMATCH' | 'MISSING_HASH';
+
+const breakMessages: Record<ChainBreakReason, string> = {
+  HASH_MISMATCH: 'The entry was modified after it was recorded',
+  LINK_MISMATCH: 'The entry before this one was deleted, reordered or inserted afterwards',
+  MISSING_HASH: 'The entry has no hash although it was written after the history chain began'
+};
+
+export function historyHash(fields: ChainedHistoryFields) {
+  const payload = JSON.stringify({
+    v: 1,
+    assignmentId: fields.assignmentId,
+    reviewerId: fields.reviewerId,
+    adminId: fields.adminId,
+    action: fields.action,
+    stage: fields.stage,
+    remark: fields.remark,
+    signature: fields.signature,
+    revokesId: fields.revokesId,
+    // Left out when unset so rows chained before signature images existed still verify
+    ...(fields.signatureImageId !== null ? { signatureImageId: fields.signatureImageId } : {}),
+    createdAt: fields.createdAt.toISOString(),
+    prevHash: fields.prevHash
+  });
+  return crypto.createHmac('sha256', HISTORY_CHAIN_SECRET).update(payload).digest('hex');
+}
+
+/**
+ * Records the first chained row the first time history is written with a hash.
+ * Rows chained before the start was recorded still count, so the earliest
+ * hashed row is used rather than the one being written.
+ */
+export async function recordChainStart(tx: Prisma.TransactionClient, historyId: number) {
+  const start = await tx.historyChainStart.findUnique({ where: { id: 1 }, select: { id: true } });
+  if (start) return;
+
+  const first = await tx.assignmentHistory.findFirst({
+    where: { hash: { not: null } },
+    orderBy: { id: 'asc' },
+    select: { id: true }
+  });
+  await tx.historyChainStart.create({ data: { id: 1, firstHistoryId: first?.id ?? historyId } });
+}
+
+// Rows below this id may lack a hash. Without a recorded start no row may, unless none has ever been hashed
+async function chainCutoff() {
+  const start = await prisma.historyChainStart.findUnique({ where: { id: 1 }, select: { firstHistoryId: true } });
+  if (start) return start.firstHistoryId;
+  const sealed = await prisma.assignmentHistory.count({ where: { hash: { not: null } } });
+  return sealed > 0 ? 0 : Infinity;
+}
+
+const chainSelect = {
+  id: true,
+  assignmentId: true,
+  reviewerId: true,
+  adminId: true,
+  action: true,
+  stage: true,
+  remark: true,
+  signature: true,
+  revokesId: true,
+  signatureImageId: true,
+  createdAt: true,
+  prevHash: true,
+  hash: true
+} as const;
+
+async function verifyAssignmentChain(assignmentId: number, cutoff: number) {
+  const rows = await prisma.assignmentHistory.findMany({
+    where: { assignmentId },
+    orderBy: { id: 'asc' },
+    select: chainSelect
+  });
+
+  let previous: string | null = null;
+  let unsealed = 0;
+  for (const [index, row] of rows.entries()) {
+    let reason: ChainBreakReason | null = null;
+    if (!row.hash) {
+      // Rows from before the chain existed can only come first; clearing the hashes of later ones does not make them legacy
+      if (previous === null && row.id < cutoff) {
+        unsealed++;
+        continue;
+      }
+      reason = 'MISSING_HASH';
+    } else if (row.prevHash !== previous) {
+      reason = 'LINK_MISMATCH';
+    } else if (row.hash !== historyHash(row)) {
+      reason = 'HASH_MISMATCH';
+    }
+
+    if (reason) {
+      return {
+        checked: index + 1,
+        unsealed,
+        broken: {
+          assignmentId,
+          historyId: row.id,
+          action: row.action,
+          createdAt: row.createdAt,
+          reason,
+          message: breakMessages[reason]
+        }
+      };
+    }
+    previous = row.hash;
+  }
+
+  return { checked: rows.length, unsealed, broken: null };
+}
+
+/**
+ * Walks the history chain of one assignment, or of every assignment, and
+ * stops at the first broken link. Each assignment has its own chain so that
+ * deleting a draft does not break anyone else's. Only rows older than the
+ * recorded chain start may go without a hash. Removing the newest entries
+ * of an assignment leaves a valid shorter chain and is not detected here.
+ */
+export async function verifyHistoryChain(assignmentId?: number) {
+  const assignmentIds =
+    assignmentId !== undefined
+      ? [assignmentId]
+      : (
+          await prisma.assignmentHistory.findMany({
+            distinct: ['assignmentId'],
+            orderBy: { assignmentId: 'asc' },
+            select: { assignmentId: true }
+          })
+        ).map((row) => row.assignmentId);
+
+  const cutoff = await chainCutoff();
+  let entriesChecked = 0;
+  let unsealedEntries = 0;
+  let assignmentsChecked = 0;
+  for (const id of assignmentIds) {
+    const result = await verifyAssignmentChain(id, cutoff);
+    assignmentsChecked++;
+    entriesChecked += result.checked;
+    unsealedEntries += result.unsealed;
+    if (result.broken) {
+      return { valid: false, assignmentsChecked, entriesChecked, unsealedEntries, firstBroken: result.broken };
+    }
+  }
+
+  return { valid: true, assignmentsChecked, entriesChecked, unsealedEntries, firstBroken: null };
+}
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import prisma from '../prisma';
+
+export const OTP_EXPIRY_MS = 10 * 60 * 1000; // 10 minutes
+export const OTP_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_LOCK_MS = 15 * 60 * 1000; // 15 minutes
+
+export type OtpAttemptResult = 'SUCCESS' | 'INVALID_CODE' | 'EXPIRED' | 'LOCKED' | 'NO_CHALLENGE';
+
+export class OtpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+  }
+}
+
+function generateOtp(): string {
+  return crypto.randomInt(100000, 1000000).toString();
+}
+
+function hashOtp(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+async function recordAttempt(
+  assignmentId: number,
+  userId: number,
+  result: OtpAttemptResult,
+  ipAddress?: string
+) {
+  await prisma.otpAttempt.create({
+    data: { assignmentId, userId, result, ipAddress: ipAddress ?? null }
+  });
+}
+
+/**
+ * Creates (or replaces) the reviewer's challenge for an assignment and returns
+ * the plain code so the caller can email it. Refuses while the previous code is
+ * inside its resend cooldown or the challenge is locked after too many misses.
+ */
+export async function issueOtpChallenge(
+  assignmentId: number,
+  userId: number,
+  extras: { remarks?: string | undefined; signature?: string | undefined } = {}
+) {
+  const now = new Date();
+  const existing = await prisma.otpChallenge.findUnique({
+    where: { assignmentId_userId: { assignmentId, userId } }
+  });
+
+  if (existing?.lockedUntil && existing.lockedUntil > now) {
+    throw new OtpError(
+      'Too many incorrect OTP attempts. Please wait before requesting a new code.',
+      429,
+      secondsUntil(existing.lockedUntil)
+    );
+  }
+
+  const resendAt = existing ? new Date(existing.lastSentAt.getTime() + OTP_RESEND_COOLDOWN_MS) : null;
+  if (resendAt && resendAt > now) {
+    throw new OtpError(
+      'An OTP was sent recently. Please wait before requesting another one.',
+      429,
+      secondsUntil(resendAt)
+    );
+  }
+
+  const code = generateOtp();
+  const data = {
+    codeHash: hashOtp(code),
+    remarks: extras.remarks || null,
+    signature: extras.signature || null,
+    attempts: 0,
+    lockedUntil: null,
+    expiresAt: new Date(now.getTime() + OTP_EXPIRY_MS),
+    lastSentAt: now
+  };
+
+  await prisma.otpChallenge.upsert({
+    where: { assignmentId_userId: { assignmentId, userId } },
+    create: { assignmentId, userId, ...data },
+    update: data
+  });
+
+  return code;
+}
+
+export async function discardOtpChallenge(assignmentId: number, userId: number) {
+  await prisma.otpChallenge.deleteMany({ where: { assignmentId, userId } });
+}
+
+/**
+ * Checks a submitted code against the stored challenge. Every call is written to
+ * the OtpAttempt audit table; the challenge locks once OTP_MAX_ATTEMPTS wrong
+ * codes have been entered. The challenge is left in place on success so the
+ * caller can discard it only after the approval itself has gone through.
+ */
+export async function verifyOtpChallenge(
+  assignmentId: number,
+  userId: number,
+  code: string,
+  ipAddress?: string
+) {
+  const now = new Date();
+  const challenge = await prisma.otpChallenge.findUnique({
+    where: { assignmentId_userId: { assignmentId, userId } }
+  });
+
+  if (!challenge) {
+    await recordAttempt(assignmentId, userId, 'NO_CHALLENGE', ipAddress);
+    throw new OtpError('No OTP found. Please request a new one.', 400);
+  }
+
+  if (challenge.lockedUntil && challenge.lockedUntil > now) {
+    await recordAttempt(assignmentId, userId, 'LOCKED', ipAddress);
+    throw new OtpError(
+      'Too many incorrect OTP attempts. Please wait and request a new code.',
+      429,
+      secondsUntil(challenge.lockedUntil)
+    );
+  }
+
+  if (challenge.expiresAt <= now) {
+    await recordAttempt(assignmentId, userId, 'EXPIRED', ipAddress);
+    throw new OtpError('OTP has expired. Please request a new one.', 400);
+  }
+
+  // Reserve the attempt before comparing, so parallel guesses cannot get past the limit
+  const reserved = await prisma.otpChallenge.updateMany({
+    where: {
+      id: challenge.id,
+      attempts: { lt: OTP_MAX_ATTEMPTS },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }]
+    },
+    data: { attempts: { increment: 1 } }
+  });
+  if (reserved.count === 0) {
+    await recordAttempt(assignmentId, userId, 'LOCKED', ipAddress);
+    const current = await prisma.otpChallenge.findUnique({
+      where: { id: challenge.id },
+      select: { lockedUntil: true }
+    });
+    throw new OtpError(
+      'Too many incorrect OTP attempts. Please wait and request a new code.',
+      429,
+      current?.lockedUntil && current.lockedUntil > now ? secondsUntil(current.lockedUntil) : undefined
+    );
+  }
+
+  const matches = crypto.timingSafeEqual(
+    Buffer.from(hashOtp(code.trim()), 'hex'),
+    Buffer.from(challenge.codeHash, 'hex')
+  );
+
+  if (!matches) {
+    // Read back rather than counting locally, so one of several parallel misses sees the limit
+    const { attempts } = await prisma.otpChallenge.findUniqueOrThrow({
+      where: { id: challenge.id },
+      select: { attempts: true }
+    });
+    const locked = attempts >= OTP_MAX_ATTEMPTS;
+    if (locked) {
+      await prisma.otpChallenge.updateMany({
+        where: { id: challenge.id },
+        data: { lockedUntil: new Date(now.getTime() + OTP_LOCK_MS) }
+      });
+    }
+    await recordAttempt(assignmentId, userId, 'INVALID_CODE', ipAddress);
+
+    if (locked) {
+      throw new OtpError(
+        'Too many incorrect OTP attempts. Please wait and request a new code.',
+        429,
+        Math.ceil(OTP_LOCK_MS / 1000)
+      );
+    }
+    const remaining = OTP_MAX_ATTEMPTS - attempts;
+    throw new OtpError(
+      `Invalid OTP. ${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.`,
+      400
+    );
+  }
+
+  await recordAttempt(assignmentId, userId, 'SUCCESS', ipAddress);
+  return { remarks: challenge.remarks, signature: challenge.signature };
+}
@@ -0,0 +1,392 @@
+import { AssignmentStatus, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { IN_REVIEW_STATUSES, applyTransition, recordHistory } from './assignmentTransitions';
+import { currentSignatureImageId } from './signatureImages';
+import { resolveChainPosition } from './approvalChain';
+import { sendRejectionEmail } from './email';
+import { getDepartmentSettings, PanelQuorum } from './departmentSettings';
+import { approvalSigner } from './approvalSignatures';
+import { assertRubricComplete } from './rubrics';
+
+export const PANEL_VOTES = ['APPROVE', 'REJECT'] as const;
+
+export type PanelVote = (typeof PANEL_VOTES)[number];
+
+const MAX_PANEL_SIZE = 9;
+
+// Signs the forward that appoints a panel, followed by the HOD's name
+export const PANEL_APPOINTMENT_SIGNATURE = 'Panel appointed by';
+
+export class PanelReviewError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400
+  ) {
+    super(message);
+  }
+}
+
+const panelMemberSelect = { id: true, name: true, email: true, role: true } as const;
+
+type PanelAssignment = {
+  id: number;
+  status: AssignmentStatus;
+  category: string;
+  student: { departmentId: number | null };
+};
+
+/**
+ * The decision once enough votes are in, or null while it can still go either
+ * way. UNANIMOUS needs every member to approve, so a single rejection settles
+ * it; MAJORITY needs more than half, so a tie rejects.
+ */
+export function panelOutcome(quorum: PanelQuorum, panelSize: number, votes: Array<{ vote: string }>): PanelVote | null {
+  if (panelSize === 0) return null;
+
+  const approvals = votes.filter((v) => v.vote === 'APPROVE').length;
+  const rejections = votes.length - approvals;
+  const needed = quorum === 'UNANIMOUS' ? panelSize : Math.floor(panelSize / 2) + 1;
+
+  if (approvals >= needed) return 'APPROVE';
+  if (panelSize - rejections < needed) return 'REJECT';
+  return null;
+}
+
+// Validates a list of reviewer IDs for a panel; the first member chairs it
+export async function parsePanelMembers(
+  value: unknown,
+  departmentId: number,
+  minSize: number
+): Promise<{ error: string } | { members: Array<{ id: number; name: string; email: string; role: string }> }> {
+  if (!Array.isArray(value)) {
+    return { error: 'Panel reviewers must be a list of user IDs' };
+  }
+
+  const ids = Array.from(new Set(value.map(Number)));
+  if (ids.some((id) => !Number.isInteger(id))) {
+    return { error: 'Panel reviewers must be a list of user IDs' };
+  }
+  if (ids.length < minSize || ids.length > MAX_PANEL_SIZE) {
+    return { error: `A review panel needs between ${minSize} and ${MAX_PANEL_SIZE} different reviewers` };
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: ids }, departmentId, role: { in: ['PROFESSOR', 'HOD'] } },
+    select: panelMemberSelect
+  });
+  if (users.length !== ids.length) {
+    return { error: 'Panel reviewers must be professors or the HOD of the student\'s department' };
+  }
+
+  return { members: ids.map((id) => users.find((u) => u.id === id)!) };
+}
+
+export async function replacePanel(tx: Prisma.TransactionClient, assignmentId: number, reviewerIds: number[]) {
+  await tx.assignmentPanelMember.deleteMany({ where: { assignmentId } });
+  if (reviewerIds.length > 0) {
+    await tx.assignmentPanelMember.createMany({
+      data: reviewerIds.map((reviewerId) => ({ assignmentId, reviewerId }))
+    });
+  }
+}
+
+export async function panelMemberIds(assignmentId: number) {
+  const members = await prisma.assignmentPanelMember.findMany({
+    where: { assignmentId },
+    select: { reviewerId: true }
+  });
+  return members.map((m) => m.reviewerId);
+}
+
+/**
+ * Panel, votes on the current submission and where the count stands. Null for
+ * assignments that are not reviewed by a panel. `open` means members can still
+ * vote; a panel category without members is waiting for the HOD to appoint one.
+ */
+export async function getPanelReview(assignment: PanelAssignment) {
+  const [members, settings] = await Promise.all([
+    prisma.assignmentPanelMember.findMany({
+      where: { assignmentId: assignment.id },
+      orderBy: { id: 'asc' },
+      select: { reviewer: { select: panelMemberSelect } }
+    }),
+    getDepartmentSettings(assignment.student.departmentId)
+  ]);
+
+  if (members.length === 0 && !(settings.panelCategories as string[]).includes(assignment.category)) {
+    return null;
+  }
+
+  const submission = await prisma.assignmentHistory.findFirst({
+    where: { assignmentId: assignment.id, action: 'SUBMITTED' },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true }
+  });
+  const votes = submission
+    ? await prisma.assignmentPanelVote.findMany({
+        where: { submissionId: submission.id },
+        select: { reviewerId: true, vote: true, remarks: true, signature: true, createdAt: true }
+      })
+    : [];
+
+  const outcome = panelOutcome(settings.panelQuorum, members.length, votes);
+  const inReview = IN_REVIEW_STATUSES.includes(assignment.status);
+
+  return {
+    quorum: settings.panelQuorum,
+    submissionId: submission?.id ?? null,
+    members: members.map(({ reviewer }, index) => {
+      const vote = votes.find((v) => v.reviewerId === reviewer.id);
+      return {
+        ...reviewer,
+        isChair: index === 0,
+        vote: vote ? { vote: vote.vote, remarks: vote.remarks, signature: vote.signature, createdAt: vote.createdAt } : null
+      };
+    }),
+    approvals: votes.filter((v) => v.vote === 'APPROVE').length,
+    rejections: votes.filter((v) => v.vote === 'REJECT').length,
+    outcome,
+    awaitingPanel: inReview && members.length === 0,
+    open: inReview && members.length > 0 && submission !== null && outcome === null
+  };
+}
+
+// Approve, reject and change requests are the panel's call while a vote is undecided, and stay blocked if its decision
+// never got recorded. Once it has, later approval stages go on as usual.
+export async function assertNoOpenPanel(assignment: PanelAssignment) {
+  const panel = await getPanelReview(assignment);
+  if (panel?.awaitingPanel) {
+    throw new PanelReviewError('The HOD has to appoint a review panel before this assignment can be decided', 409);
+  }
+  if (panel?.open) {
+    throw new PanelReviewError('This assignment is decided by a panel vote; record your vote instead', 409);
+  }
+  if (panel?.outcome && panel.submissionId !== null) {
+    const decision = await prisma.assignmentHistory.findFirst({
+      where: {
+        assignmentId: assignment.id,
+        id: { gt: panel.submissionId },
+        action: { in: ['STAGE_APPROVED', 'APPROVED', 'REJECTED'] }
+      },
+      select: { id: true }
+    });
+    if (!decision) {
+      throw new PanelReviewError('The review panel has already decided this submission', 409);
+    }
+  }
+}
+
+// Resolves the next approver and reads the file before anything is written, so a broken chain or
+// a missing file cannot strand a decided vote
+async function prepareApproval(assignment: PanelAssignment & { approvalStage: number | null }, voterId: number) {
+  const chain = await resolveChainPosition(assignment);
+  const signApproval = await approvalSigner(assignment.id, voterId, chain.next ? 'STAGE_APPROVED' : 'APPROVED');
+  return { chain, signApproval };
+}
+
+/**
+ * Records one member's vote with its own history entry and, in the same
+ * transaction, applies the panel's decision once the quorum rule settles it
+ * on the committed votes: approval moves on through the approval chain like a
+ * single reviewer's would, rejection goes back to the student with the
+ * rejecting members' remarks.
+ */
+export async function recordPanelVote(options: {
+  assignmentId: number;
+  voter: { id: number; role: string; name: string };
+  vote: PanelVote;
+  remarks: string | null;
+  signature: string;
+}) {
+  const { assignmentId, voter, vote } = options;
+
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      category: true,
+      approvalStage: true,
+      studentId: true,
+      student: { select: { departmentId: true, email: true } }
+    }
+  });
+  if (!assignment) {
+    throw new PanelReviewError('Assignment not found', 404);
+  }
+
+  const panel = await getPanelReview(assignment);
+  const member = panel?.members.find((m) => m.id === voter.id);
+  if (!panel || !member) {
+    throw new PanelReviewError('You are not on the review panel for this assignment', 403);
+  }
+  if (!panel.open || panel.submissionId === null) {
+    throw new PanelReviewError('This panel is not taking votes: the assignment is not in review or has been decided', 409);
+  }
+  if (member.vote) {
+    throw new PanelReviewError('You have already voted on this submission', 409);
+  }
+
+  // Any approving vote may turn out to be the deciding one, so it is prepared for; a failure only
+  // matters if it does
+  const approval =
+    vote === 'APPROVE'
+      ? await prepareApproval(assignment, voter.id).catch((error: unknown) => ({ error }))
+      : null;
+  const signatureImageId = vote === 'APPROVE' ? await currentSignatureImageId(voter.id) : null;
+
+  const submissionId = panel.submissionId;
+  const signature = `Panel: ${panel.members.map((m) => m.name).join(', ')}`;
+
+  let decided;
+  try {
+    decided = await prisma.$transaction(async (tx) => {
+      await tx.assignmentPanelVote.create({
+        data: {
+          assignmentId,
+          submissionId,
+          reviewerId: voter.id,
+          vote,
+          remarks: options.remarks,
+          signature: options.signature
+        }
+      });
+      await recordHistory(tx, {
+        assignmentId,
+        reviewerId: voter.id,
+        action: vote === 'APPROVE' ? 'PANEL_VOTE_APPROVE' : 'PANEL_VOTE_REJECT',
+        stage: assignment.approvalStage,
+        remark: options.remarks,
+        signature: options.signature,
+        signatureImageId
+      });
+
+      // Count what is committed, not what was read before the vote went in
+      const [current, latestSubmission, memberIds, votes] = await Promise.all([
+        tx.assignment.findUniqueOrThrow({ where: { id: assignmentId }, select: { status: true } }),
+        tx.assignmentHistory.findFirst({
+          where: { assignmentId, action: 'SUBMITTED' },
+          orderBy: { createdAt: 'desc' },
+          select: { id: true }
+        }),
+        tx.assignmentPanelMember.findMany({ where: { assignmentId }, select: { reviewerId: true } }),
+        tx.assignmentPanelVote.findMany({
+          where: { submissionId },
+          orderBy: { id: 'asc' },
+          select: { reviewerId: true, vote: true, remarks: true }
+        })
+      ]);
+      if (
+        !IN_REVIEW_STATUSES.includes(current.status) ||
+        latestSubmission?.id !== submissionId ||
+        memberIds.length !== panel.members.length ||
+        memberIds.some((m) => !panel.members.some((p) => p.id === m.reviewerId))
+      ) {
+        throw new PanelReviewError('The assignment or its panel changed while you were voting; reload and try again', 409);
+      }
+
+      const panelSize = panel.members.length;
+      if (panelOutcome(panel.quorum, panelSize, votes.filter((v) => v.reviewerId !== voter.id)) !== null) {
+        throw new PanelReviewError('The review panel has already decided this submission', 409);
+      }
+      const outcome = panelOutcome(panel.quorum, panelSize, votes);
+      const approvals = votes.filter((v) => v.vote === 'APPROVE').length;
+      const rejections = votes.length - approvals;
+      if (!outcome) {
+        return { outcome, approvals, rejections, next: null, feedback: null };
+      }
+
+      const summary = `Panel decision (${panel.quorum.toLowerCase()}, ${panelSize} members): ${approvals} approve, ${rejections} reject.`;
+      const otherMembers = panel.members
+        .filter((m) => m.id !== voter.id)
+        .map((m) => ({
+          message: `The panel has ${outcome === 'APPROVE' ? 'approved' : 'rejected'} "${assignment.title}".`,
+          type: 'PANEL_DECIDED',
+          userId: m.id
+        }));
+
+      if (outcome === 'REJECT') {
+        const feedback = votes.flatMap((v) => (v.vote === 'REJECT' && v.remarks ? [v.remarks] : [])).join(' / ');
+
+        await applyTransition(tx, {
+          assignmentId,
+          action: 'REJECT',
+          actor: voter,
+          data: { reviewerId: null, approvalStage: null },
+          history: { stage: assignment.approvalStage, remark: feedback ? `${summary} ${feedback}` : summary, signature },
+          notifications: [
+            {
+              message: `Your assignment "${assignment.title}" has been rejected by the review panel.`,
+              type: 'ASSIGNMENT_REJECTED',
+              userId: assignment.studentId
+            },
+            ...otherMembers
+          ]
+        });
+        return { outcome, approvals, rejections, next: null, feedback: feedback || summary };
+      }
+
+      if (!approval || 'error' in approval) {
+        throw approval?.error ?? new Error('Panel approval was not prepared');
+      }
+      // The deciding approval needs the same complete rubric as a single reviewer's
+      await assertRubricComplete(assignment, tx);
+      const { chain, signApproval } = approval;
+      const currentStage = chain.current?.order ?? null;
+      if (chain.next) {
+        const next = chain.next;
+        await applyTransition(tx, {
+          assignmentId,
+          action: 'ADVANCE_STAGE',
+          actor: voter,
+          data: { reviewerId: next.approver.id, approvalStage: next.order },
+          history: { stage: currentStage, remark: summary, signature },
+          afterHistory: signApproval,
+          notifications: [
+            {
+              message: `Assignment "${assignment.title}" is awaiting your approval (stage ${next.order} of ${chain.totalStages}: ${next.name}).`,
+              type: 'ASSIGNMENT_STAGE_PENDING',
+              userId: next.approver.id
+            },
+            {
+              message: `Your assignment "${assignment.title}" passed panel review and moved to ${next.name}.`,
+              type: 'ASSIGNMENT_STAGE_APPROVED',
+              userId: assignment.studentId
+            },
+            ...otherMembers
+          ]
+        });
+        return { outcome, approvals, rejections, next: { name: next.name, approver: next.approver.name }, feedback: null };
+      }
+
+      await applyTransition(tx, {
+        assignmentId,
+        action: 'APPROVE',
+        actor: voter,
+        history: { stage: currentStage, remark: summary, signature },
+        afterHistory: signApproval,
+        notifications: [
+          {
+            message: `Your assignment "${assignment.title}" has been approved by the review panel.`,
+            type: 'ASSIGNMENT_APPROVED',
+            userId: assignment.studentId
+          },
+          ...otherMembers
+        ]
+      });
+      return { outcome, approvals, rejections, next: null, feedback: null };
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new PanelReviewError('You have already voted on this submission', 409);
+    }
+    throw error;
+  }
+
+  const { feedback, ...result } = decided;
+  if (feedback !== null) {
+    await sendRejectionEmail(assignment.student.email, assignment.title, feedback);
+  }
+  return result;
+}
@@ -0,0 +1,77 @@
+import prisma from '../prisma';
+import { ASSIGNMENT_CATEGORIES, AssignmentCategoryValue } from './courses';
+import { IN_REVIEW_STATUSES } from './assignmentTransitions';
+import { notOutOfOffice } from './delegation';
+
+export class ReviewerAssignmentError extends Error {
+  readonly status = 409;
+}
+
+export function parseSpecialisations(value: unknown): { error: string } | { specialisations: string | null } {
+  if (value === null || value === undefined || value === '') {
+    return { specialisations: null };
+  }
+
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  const categories = Array.from(new Set(list.map((c) => String(c).trim().toUpperCase()).filter(Boolean)));
+  const invalid = categories.find((c) => !(ASSIGNMENT_CATEGORIES as readonly string[]).includes(c));
+  if (invalid) {
+    return { error: `Invalid specialisation ${invalid}. Allowed: ${ASSIGNMENT_CATEGORIES.join(', ')}` };
+  }
+
+  return { specialisations: categories.length ? categories.join(',') : null };
+}
+
+export function specialisationList(user: { specialisations: string | null }): AssignmentCategoryValue[] {
+  return (user.specialisations ?? '').split(',').filter(Boolean) as AssignmentCategoryValue[];
+}
+
+// Open reviews per reviewer: everything sitting in their queue
+export async function openReviewCounts(reviewerIds: number[]) {
+  const counts = await prisma.assignment.groupBy({
+    by: ['reviewerId'],
+    where: { reviewerId: { in: reviewerIds }, status: { in: IN_REVIEW_STATUSES } },
+    _count: { _all: true }
+  });
+
+  return new Map(reviewerIds.map((id) => [id, counts.find((c) => c.reviewerId === id)?._count._all ?? 0]));
+}
+
+/**
+ * Picks the professor with the fewest open reviews among those accepting work
+ * and not out of office.
+ * Specialists in the assignment's category are preferred; professors without
+ * specialisations take anything and are the fallback. Ties go to the professor
+ * who joined first so the choice is stable.
+ */
+export async function pickReviewer(departmentId: number, category: string) {
+  const professors = await prisma.user.findMany({
+    where: { departmentId, role: 'PROFESSOR', acceptingReviews: true, ...notOutOfOffice() },
+    select: { id: true, name: true, email: true, specialisations: true },
+    orderBy: { id: 'asc' }
+  });
+
+  const specialists = professors.filter((p) => specialisationList(p).includes(category as AssignmentCategoryValue));
+  const generalists = professors.filter((p) => specialisationList(p).length === 0);
+  const candidates = specialists.length > 0 ? specialists : generalists;
+
+  if (candidates.length === 0) {
+    throw new ReviewerAssignmentError(
+      professors.length === 0
+        ? 'No professor in your department is currently accepting reviews'
+        : `No professor in your department is currently accepting ${category.toLowerCase()} reviews`
+    );
+  }
+
+  const counts = await openReviewCounts(candidates.map((c) => c.id));
+  const [chosen] = [...candidates].sort((a, b) => counts.get(a.id)! - counts.get(b.id)!);
+  const openReviews = counts.get(chosen!.id)!;
+
+  const who = specialists.length > 0 ? `${category.toLowerCase()} specialist` : 'available reviewer';
+  const reason =
+    candidates.length === 1
+      ? `Assigned automatically: the only ${who} in your department`
+      : `Assigned automatically: the ${who} with the fewest open reviews (${openReviews}) among ${candidates.length} candidates`;
+
+  return { reviewer: chosen!, reason, openReviews };
+}
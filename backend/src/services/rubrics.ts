@@ -0,0 +1,366 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+
+export const MAX_RUBRIC_CRITERIA = 20;
+
+export class RubricError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400
+  ) {
+    super(message);
+  }
+}
+
+type CriterionInput = {
+  id?: number | string;
+  name?: string;
+  description?: string | null;
+  weight?: number | string;
+  maxScore?: number | string;
+};
+type BandInput = { label?: string; minPercent?: number | string };
+
+export interface ParsedCriterion {
+  id: number | null;
+  order: number;
+  name: string;
+  description: string | null;
+  weight: number;
+  maxScore: number;
+}
+
+export interface ParsedBand {
+  label: string;
+  minPercent: number;
+}
+
+export function parseRubricInput(
+  body: unknown
+): { error: string } | { name: string; criteria: ParsedCriterion[]; bands: ParsedBand[] } {
+  const { name, criteria, bands } = (body ?? {}) as { name?: unknown; criteria?: unknown; bands?: unknown };
+
+  const rubricName = typeof name === 'string' ? name.trim() : '';
+  if (!rubricName) {
+    return { error: 'Rubric name is required' };
+  }
+
+  if (!Array.isArray(criteria) || criteria.length === 0) {
+    return { error: 'At least one criterion is required' };
+  }
+  if (criteria.length > MAX_RUBRIC_CRITERIA) {
+    return { error: `A rubric can have at most ${MAX_RUBRIC_CRITERIA} criteria` };
+  }
+
+  const parsedCriteria: ParsedCriterion[] = [];
+  for (let i = 0; i < criteria.length; i++) {
+    const criterion = criteria[i] as CriterionInput;
+    const criterionName = typeof criterion?.name === 'string' ? criterion.name.trim() : '';
+    const weight = Number(criterion?.weight);
+    const maxScore = Number(criterion?.maxScore);
+
+    if (!criterionName) {
+      return { error: `Criterion ${i + 1} needs a name` };
+    }
+    if (!Number.isFinite(weight) || weight <= 0) {
+      return { error: `Criterion ${i + 1} needs a weight greater than 0` };
+    }
+    if (!Number.isInteger(maxScore) || maxScore < 1) {
+      return { error: `Criterion ${i + 1} needs a maximum score of at least 1` };
+    }
+
+    const id = criterion.id !== undefined && criterion.id !== null ? Number(criterion.id) : null;
+    parsedCriteria.push({
+      id: id !== null && Number.isInteger(id) ? id : null,
+      order: i + 1,
+      name: criterionName,
+      description:
+        typeof criterion.description === 'string' && criterion.description.trim()
+          ? criterion.description.trim()
+          : null,
+      weight,
+      maxScore
+    });
+  }
+
+  const parsedBands: ParsedBand[] = [];
+  if (bands !== undefined && bands !== null) {
+    if (!Array.isArray(bands)) {
+      return { error: 'Score bands must be a list' };
+    }
+    for (let i = 0; i < bands.length; i++) {
+      const band = bands[i] as BandInput;
+      const label = typeof band?.label === 'string' ? band.label.trim() : '';
+      const minPercent = Number(band?.minPercent);
+      if (!label) {
+        return { error: `Score band ${i + 1} needs a label` };
+      }
+      if (!Number.isFinite(minPercent) || minPercent < 0 || minPercent > 100) {
+        return { error: `Score band ${i + 1} needs a minimum percentage between 0 and 100` };
+      }
+      if (parsedBands.some((b) => b.minPercent === minPercent)) {
+        return { error: `Two score bands start at ${minPercent}%` };
+      }
+      parsedBands.push({ label, minPercent });
+    }
+  }
+
+  return { name: rubricName, criteria: parsedCriteria, bands: parsedBands };
+}
+
+export const rubricInclude = {
+  department: { select: { id: true, name: true } },
+  criteria: { orderBy: { order: 'asc' as const } },
+  bands: { orderBy: { minPercent: 'desc' as const } }
+};
+
+export function formatRubric(rubric: RubricWithParts) {
+  return {
+    id: rubric.id,
+    departmentId: rubric.departmentId,
+    department: rubric.department ? { id: rubric.department.id, name: rubric.department.name } : undefined,
+    category: rubric.category,
+    name: rubric.name,
+    criteria: rubric.criteria.map((c) => ({
+      id: c.id,
+      order: c.order,
+      name: c.name,
+      description: c.description,
+      weight: c.weight,
+      maxScore: c.maxScore
+    })),
+    bands: rubric.bands.map((b) => ({ label: b.label, minPercent: b.minPercent })),
+    createdAt: rubric.createdAt
+  };
+}
+
+export async function findRubric(
+  departmentId: number | null,
+  category: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  if (!departmentId) return null;
+
+  return db.rubric.findUnique({
+    where: {
+      departmentId_category: {
+        departmentId,
+        category: category as 'ASSIGNMENT' | 'THESIS' | 'REPORT'
+      }
+    },
+    include: rubricInclude
+  });
+}
+
+type RubricWithParts = NonNullable<Awaited<ReturnType<typeof findRubric>>>;
+
+/**
+ * Replaces a rubric's criteria and bands. Criteria sent back with their id are
+ * updated in place so scores already given against them survive; a criterion
+ * that has been scored cannot be removed, nor have its maximum lowered below a
+ * score already given.
+ */
+export async function replaceRubricParts(
+  rubricId: number,
+  input: { name: string; criteria: ParsedCriterion[]; bands: ParsedBand[] }
+) {
+  const existing = await prisma.rubricCriterion.findMany({
+    where: { rubricId },
+    select: { id: true, name: true, _count: { select: { scores: true } } }
+  });
+
+  const keptIds = new Set(input.criteria.map((c) => c.id).filter((id): id is number => id !== null));
+  const unknown = Array.from(keptIds).find((id) => !existing.some((c) => c.id === id));
+  if (unknown !== undefined) {
+    throw new RubricError(`Criterion ${unknown} does not belong to this rubric`);
+  }
+
+  const removed = existing.filter((c) => !keptIds.has(c.id));
+  const scored = removed.find((c) => c._count.scores > 0);
+  if (scored) {
+    throw new RubricError(
+      `"${scored.name}" has already been used to score assignments and cannot be removed`,
+      409
+    );
+  }
+
+  const highestScores = await prisma.assignmentScore.groupBy({
+    by: ['criterionId'],
+    where: { criterionId: { in: Array.from(keptIds) } },
+    _max: { score: true }
+  });
+  for (const { criterionId, _max } of highestScores) {
+    const criterion = input.criteria.find((c) => c.id === criterionId)!;
+    if (_max.score !== null && _max.score > criterion.maxScore) {
+      throw new RubricError(
+        `"${criterion.name}" already has a score of ${_max.score}, so its maximum score cannot be lower`,
+        409
+      );
+    }
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await tx.rubricCriterion.deleteMany({ where: { id: { in: removed.map((c) => c.id) } } });
+    for (const { id, ...criterion } of input.criteria) {
+      if (id !== null) {
+        await tx.rubricCriterion.update({ where: { id }, data: criterion });
+      } else {
+        await tx.rubricCriterion.create({ data: { ...criterion, rubricId } });
+      }
+    }
+    await tx.rubricBand.deleteMany({ where: { rubricId } });
+    await tx.rubricBand.createMany({ data: input.bands.map((band) => ({ ...band, rubricId })) });
+
+    return tx.rubric.update({
+      where: { id: rubricId },
+      data: { name: input.name },
+      include: rubricInclude
+    });
+  });
+}
+
+function bandFor(bands: Array<{ label: string; minPercent: number }>, percent: number) {
+  const band = [...bands].sort((a, b) => b.minPercent - a.minPercent).find((b) => percent >= b.minPercent);
+  return band?.label ?? null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Weighted grade: each criterion contributes score / maxScore scaled by its
+ * share of the total weight. A late penalty scales the result down; the band
+ * is taken from the penalised figure. Only complete once every criterion is scored.
+ */
+export function computeGrade(
+  rubric: RubricWithParts,
+  scores: Array<{ criterionId: number; score: number }>,
+  latePenaltyPercent: number = 0
+) {
+  const totalWeight = rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
+  let weighted = 0;
+  let scoredCount = 0;
+
+  for (const criterion of rubric.criteria) {
+    const score = scores.find((s) => s.criterionId === criterion.id);
+    if (!score) continue;
+    scoredCount++;
+    weighted += criterion.weight * (score.score / criterion.maxScore);
+  }
+
+  const percent = totalWeight > 0 ? round((weighted / totalWeight) * 100) : 0;
+  const finalPercent = round(percent * (1 - latePenaltyPercent / 100));
+  const complete = scoredCount === rubric.criteria.length;
+
+  return {
+    percent,
+    latePenaltyPercent,
+    finalPercent,
+    band: complete ? bandFor(rubric.bands, finalPercent) : null,
+    complete,
+    scoredCriteria: scoredCount,
+    totalCriteria: rubric.criteria.length
+  };
+}
+
+// Rubric, the scores given so far and the rolled-up grade; null when no rubric applies
+export async function getAssignmentGrading(
+  assignment: {
+    id: number;
+    category: string;
+    latePenaltyPercent?: number | null;
+    student: { departmentId: number | null };
+  },
+  db: Prisma.TransactionClient = prisma
+) {
+  const rubric = await findRubric(assignment.student.departmentId, assignment.category, db);
+  if (!rubric) return null;
+
+  const scores = await db.assignmentScore.findMany({
+    where: { assignmentId: assignment.id, criterion: { rubricId: rubric.id } },
+    select: {
+      criterionId: true,
+      score: true,
+      comment: true,
+      updatedAt: true,
+      reviewer: { select: { id: true, name: true } }
+    }
+  });
+
+  return {
+    rubric: formatRubric(rubric),
+    scores: scores.map((s) => {
+      const criterion = rubric.criteria.find((c) => c.id === s.criterionId);
+      return {
+        ...s,
+        band: criterion ? bandFor(rubric.bands, (s.score / criterion.maxScore) * 100) : null
+      };
+    }),
+    grade: computeGrade(rubric, scores, assignment.latePenaltyPercent ?? 0)
+  };
+}
+
+/**
+ * Upserts the reviewer's scores. Criteria left out keep whatever score they had.
+ */
+export async function saveAssignmentScores(
+  assignment: {
+    id: number;
+    category: string;
+    latePenaltyPercent: number | null;
+    student: { departmentId: number | null };
+  },
+  reviewerId: number,
+  input: unknown
+) {
+  const rubric = await findRubric(assignment.student.departmentId, assignment.category);
+  if (!rubric) {
+    throw new RubricError('No rubric applies to this assignment', 404);
+  }
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new RubricError('At least one score is required');
+  }
+
+  const entries = input.map((raw, i) => {
+    const entry = raw as { criterionId?: unknown; score?: unknown; comment?: unknown };
+    const criterion = rubric.criteria.find((c) => c.id === Number(entry?.criterionId));
+    if (!criterion) {
+      throw new RubricError(`Score ${i + 1} refers to a criterion that is not part of this rubric`);
+    }
+    const score = Number(entry.score);
+    if (!Number.isFinite(score) || score < 0 || score > criterion.maxScore) {
+      throw new RubricError(`Score for "${criterion.name}" must be between 0 and ${criterion.maxScore}`);
+    }
+    const comment = typeof entry.comment === 'string' && entry.comment.trim() ? entry.comment.trim() : null;
+    return { criterionId: criterion.id, score, comment };
+  });
+
+  await prisma.$transaction(
+    entries.map((entry) =>
+      prisma.assignmentScore.upsert({
+        where: { assignmentId_criterionId: { assignmentId: assignment.id, criterionId: entry.criterionId } },
+        create: { ...entry, assignmentId: assignment.id, reviewerId },
+        update: { score: entry.score, comment: entry.comment, reviewerId }
+      })
+    )
+  );
+
+  return getAssignmentGrading(assignment);
+}
+
+// Approval is blocked until every criterion of the applicable rubric has a score
+export async function assertRubricComplete(
+  assignment: {
+    id: number;
+    category: string;
+    student: { departmentId: number | null };
+  },
+  db: Prisma.TransactionClient = prisma
+) {
+  const grading = await getAssignmentGrading(assignment, db);
+  if (grading && !grading.grade.complete) {
+    throw new RubricError(
+      `Score every rubric criterion before approving (${grading.grade.scoredCriteria} of ${grading.grade.totalCriteria} scored)`,
+      409
+    );
+  }
+}
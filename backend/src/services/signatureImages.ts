@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { PDFDocument } from 'pdf-lib';
+import prisma from '../prisma';
+import { createSignedUrl } from './fileAccess';
+
+export const SIGNATURE_MAX_BYTES = 256 * 1024; // 256KB
+const MAX_WIDTH = 1200;
+const MAX_HEIGHT = 600;
+const MIN_WIDTH = 50;
+const MIN_HEIGHT = 20;
+
+export type SignatureMimeType = 'image/png' | 'image/jpeg';
+
+export class SignatureImageError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400
+  ) {
+    super(message);
+  }
+}
+
+// Goes by the file's bytes rather than the name or the browser's content type
+function detectType(data: Buffer): SignatureMimeType | null {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  return null;
+}
+
+// Decoding with pdf-lib both checks the image is well formed and that it can go on approval documents
+async function imageSize(data: Buffer, mimeType: SignatureMimeType) {
+  try {
+    const doc = await PDFDocument.create();
+    const image = mimeType === 'image/png' ? await doc.embedPng(data) : await doc.embedJpg(data);
+    return { width: image.width, height: image.height };
+  } catch {
+    throw new SignatureImageError('The signature image could not be read. Upload a PNG or JPEG file.');
+  }
+}
+
+export function signatureImageUrl(id: number) {
+  return createSignedUrl(`/files/signatures/${id}`, `signature:${id}`).url;
+}
+
+function formatSignatureImage(image: { id: number; width: number; height: number; createdAt: Date }) {
+  return {
+    id: image.id,
+    width: image.width,
+    height: image.height,
+    createdAt: image.createdAt,
+    url: signatureImageUrl(image.id)
+  };
+}
+
+export async function getSignatureImage(userId: number) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { signatureImage: { select: { id: true, width: true, height: true, createdAt: true } } }
+  });
+  return user?.signatureImage ? formatSignatureImage(user.signatureImage) : null;
+}
+
+// Images that no approval refers to can go; the rest stay with the history that shows them
+async function pruneSignatureImage(id: number) {
+  await prisma.signatureImage.deleteMany({ where: { id, history: { none: {} }, currentFor: null } });
+}
+
+export async function saveSignatureImage(userId: number, data: Buffer) {
+  if (data.length === 0) {
+    throw new SignatureImageError('The signature image is empty');
+  }
+  if (data.length > SIGNATURE_MAX_BYTES) {
+    throw new SignatureImageError(`Signature image exceeds ${SIGNATURE_MAX_BYTES / 1024}KB limit`);
+  }
+  const mimeType = detectType(data);
+  if (!mimeType) {
+    throw new SignatureImageError('Only PNG and JPEG signature images are allowed');
+  }
+  const { width, height } = await imageSize(data, mimeType);
+  if (width > MAX_WIDTH || height > MAX_HEIGHT) {
+    throw new SignatureImageError(`Signature image must be at most ${MAX_WIDTH}x${MAX_HEIGHT} pixels`);
+  }
+  if (width < MIN_WIDTH || height < MIN_HEIGHT) {
+    throw new SignatureImageError(`Signature image must be at least ${MIN_WIDTH}x${MIN_HEIGHT} pixels`);
+  }
+
+  const previous = await prisma.user.findUnique({ where: { id: userId }, select: { signatureImageId: true } });
+  const image = await prisma.signatureImage.create({
+    data: {
+      user: { connect: { id: userId } },
+      mimeType,
+      data: new Uint8Array(data),
+      width,
+      height,
+      checksum: crypto.createHash('sha256').update(data).digest('hex'),
+      currentFor: { connect: { id: userId } }
+    },
+    select: { id: true, width: true, height: true, createdAt: true }
+  });
+  if (previous?.signatureImageId) {
+    await pruneSignatureImage(previous.signatureImageId);
+  }
+  return formatSignatureImage(image);
+}
+
+export async function removeSignatureImage(userId: number) {
+  const previous = await prisma.user.findUnique({ where: { id: userId }, select: { signatureImageId: true } });
+  if (!previous?.signatureImageId) return;
+  await prisma.user.update({ where: { id: userId }, data: { signatureImageId: null } });
+  await pruneSignatureImage(previous.signatureImageId);
+}
+
+// The reviewer's current image id, to attach to an approval they are about to record
+export async function currentSignatureImageId(userId: number) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { signatureImageId: true } });
+  return user?.signatureImageId ?? null;
+}
@@ -0,0 +1,215 @@
+import prisma from '../prisma';
+import { getDepartmentSettings, DepartmentSettingsValues } from './departmentSettings';
+import { AssignmentTransitionError, IN_REVIEW_STATUSES, transitionAssignment } from './assignmentTransitions';
+import { DELEGATION_SIGNATURE } from './delegation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SLA_ESCALATION_SIGNATURE = 'SLA escalation';
+
+export type SlaStage = 'REMINDER' | 'ESCALATION';
+
+// History actions that put an assignment in a new reviewer's queue
+const QUEUE_ACTIONS = ['SUBMITTED', 'FORWARDED', 'RETURNED', 'TAKEN_OVER', 'STAGE_APPROVED'];
+
+async function findQueuedAssignments(departmentId?: number) {
+  const assignments = await prisma.assignment.findMany({
+    where: {
+      status: { in: IN_REVIEW_STATUSES },
+      reviewerId: { not: null },
+      ...(departmentId ? { student: { departmentId } } : {})
+    },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      submittedAt: true,
+      createdAt: true,
+      slaRemindedAt: true,
+      escalatedAt: true,
+      student: {
+        select: { id: true, name: true, email: true, departmentId: true, department: { select: { id: true, name: true } } }
+      },
+      reviewer: { select: { id: true, name: true, email: true, role: true } },
+      _count: { select: { panelMembers: true } },
+      history: {
+        where: {
+          action: { in: QUEUE_ACTIONS },
+          // A delegate covers for the reviewer, so the clock keeps running
+          OR: [{ signature: null }, { signature: { not: DELEGATION_SIGNATURE } }]
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { createdAt: true }
+      }
+    }
+  });
+
+  // The clock restarts whenever the assignment lands in a new queue (submit, forward, return...), not on
+  // votes, comments or other entries made while it sits there
+  return assignments.map(({ history, ...assignment }) => ({
+    ...assignment,
+    waitingSince: history[0]?.createdAt ?? assignment.submittedAt ?? assignment.createdAt
+  }));
+}
+
+function daysBetween(from: Date, to: Date) {
+  return Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+function slaStage(days: number, settings: DepartmentSettingsValues): SlaStage | null {
+  if (days >= settings.slaEscalationDays) return 'ESCALATION';
+  if (days >= settings.slaReminderDays) return 'REMINDER';
+  return null;
+}
+
+// Settings and HOD lookups are shared across one sweep or report
+function departmentLookups() {
+  const settings = new Map<number | null, Promise<DepartmentSettingsValues>>();
+  const hods = new Map<number, Promise<{ id: number; name: string } | null>>();
+
+  return {
+    settings(departmentId: number | null) {
+      if (!settings.has(departmentId)) settings.set(departmentId, getDepartmentSettings(departmentId));
+      return settings.get(departmentId)!;
+    },
+    hod(departmentId: number) {
+      if (!hods.has(departmentId)) {
+        hods.set(
+          departmentId,
+          prisma.user.findFirst({ where: { departmentId, role: 'HOD' }, select: { id: true, name: true } })
+        );
+      }
+      return hods.get(departmentId)!;
+    }
+  };
+}
+
+/**
+ * One pass over every reviewer queue. Past the reminder threshold the reviewer
+ * is reminded once per stint in their queue; past the escalation threshold the
+ * assignment is forwarded to the department's HOD. Assignments already with the
+ * HOD (or in a department without one) and panel reviews, whose reviewer is the
+ * chair, are only ever reminded.
+ */
+export async function runSlaSweep(now: Date = new Date()) {
+  const lookups = departmentLookups();
+  let reminded = 0;
+  let escalated = 0;
+
+  for (const assignment of await findQueuedAssignments()) {
+    const reviewer = assignment.reviewer!;
+    const departmentId = assignment.student.departmentId;
+    const settings = await lookups.settings(departmentId);
+    const days = daysBetween(assignment.waitingSince, now);
+    const stage = slaStage(days, settings);
+    if (!stage) continue;
+
+    if (stage === 'ESCALATION' && departmentId && reviewer.role !== 'HOD' && assignment._count.panelMembers === 0) {
+      const hod = await lookups.hod(departmentId);
+      if (hod && hod.id !== reviewer.id) {
+        try {
+          await transitionAssignment({
+            assignmentId: assignment.id,
+            action: 'FORWARD',
+            actor: { id: reviewer.id, role: reviewer.role },
+            data: { reviewerId: hod.id, escalatedAt: now, slaRemindedAt: null },
+            history: {
+              remark: `No review action for ${days} days (SLA ${settings.slaEscalationDays} days). Escalated to ${hod.name} automatically.`,
+              signature: SLA_ESCALATION_SIGNATURE
+            },
+            notifications: [
+              {
+                message: `Assignment "${assignment.title}" was escalated to you after ${days} days without review by ${reviewer.name}.`,
+                type: 'ASSIGNMENT_ESCALATED',
+                userId: hod.id
+              },
+              {
+                message: `Assignment "${assignment.title}" was escalated to ${hod.name} after ${days} days in your queue.`,
+                type: 'ASSIGNMENT_ESCALATED',
+                userId: reviewer.id
+              }
+            ]
+          });
+          escalated++;
+          continue;
+        } catch (error) {
+          // The reviewer acted while the sweep was running
+          if (error instanceof AssignmentTransitionError) continue;
+          throw error;
+        }
+      }
+    }
+
+    if (!assignment.slaRemindedAt || assignment.slaRemindedAt < assignment.waitingSince) {
+      await prisma.$transaction([
+        prisma.assignment.update({ where: { id: assignment.id }, data: { slaRemindedAt: now } }),
+        prisma.notification.create({
+          data: {
+            message: `Reminder: assignment "${assignment.title}" has been waiting for your review for ${days} days.`,
+            type: 'SLA_REMINDER',
+            userId: reviewer.id,
+            assignmentId: assignment.id,
+            read: false
+          }
+        })
+      ]);
+      reminded++;
+    }
+  }
+
+  return { reminded, escalated };
+}
+
+let sweepRunning = false;
+
+export function startSlaScheduler(intervalMinutes: number = Number(process.env.SLA_CHECK_INTERVAL_MINUTES) || 60) {
+  const tick = async () => {
+    if (sweepRunning) return;
+    sweepRunning = true;
+    try {
+      // Reminders and escalations show up as notifications and history entries, so nothing is logged
+      await runSlaSweep();
+    } catch (error) {
+      console.error('SLA sweep error:', error);
+    } finally {
+      sweepRunning = false;
+    }
+  };
+
+  void tick();
+  return setInterval(tick, intervalMinutes * 60 * 1000);
+}
+
+// In-review assignments past their department's reminder threshold, longest waiting first
+export async function getOverdueReport(departmentId?: number, now: Date = new Date()) {
+  const lookups = departmentLookups();
+  const items = [];
+
+  for (const assignment of await findQueuedAssignments(departmentId)) {
+    const settings = await lookups.settings(assignment.student.departmentId);
+    const days = daysBetween(assignment.waitingSince, now);
+    const stage = slaStage(days, settings);
+    if (!stage) continue;
+
+    items.push({
+      id: assignment.id,
+      title: assignment.title,
+      status: assignment.status,
+      department: assignment.student.department,
+      student: { id: assignment.student.id, name: assignment.student.name, email: assignment.student.email },
+      reviewer: assignment.reviewer,
+      submittedAt: assignment.submittedAt,
+      waitingSince: assignment.waitingSince,
+      daysWaiting: days,
+      stage,
+      slaReminderDays: settings.slaReminderDays,
+      slaEscalationDays: settings.slaEscalationDays,
+      remindedAt: assignment.slaRemindedAt,
+      escalatedAt: assignment.escalatedAt
+    });
+  }
+
+  items.sort((a, b) => b.daysWaiting - a.daysWaiting);
+  return items;
+}
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import pdfParse from 'pdf-parse';
+import { diffLines } from 'diff';
+import { resolveUploadPath } from './fileAccess';
+
+export interface DiffSegment {
+  type: 'added' | 'removed' | 'unchanged';
+  value: string;
+}
+
+// PDF text comes out with ragged spacing; normalise it so layout noise is not reported as a change
+function normaliseText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+export async function extractPdfText(storedPath: string): Promise<string> {
+  const buffer = await fs.promises.readFile(resolveUploadPath(storedPath));
+  const parsed = await pdfParse(buffer);
+  return normaliseText(parsed.text);
+}
+
+export function diffText(previous: string, current: string) {
+  const segments: DiffSegment[] = diffLines(previous, current).map((part) => ({
+    type: part.added ? 'added' : part.removed ? 'removed' : 'unchanged',
+    value: part.value
+  }));
+
+  const countLines = (type: DiffSegment['type']) =>
+    segments
+      .filter((s) => s.type === type)
+      .reduce((total, s) => total + s.value.split('\n').filter(Boolean).length, 0);
+
+  return {
+    segments,
+    stats: { addedLines: countLines('added'), removedLines: countLines('removed') }
+  };
+}
@@ -0,0 +1,58 @@
+import prisma from '../prisma';
+import { groupMemberIds } from './groupMembers';
+import { DELEGATION_SIGNATURE } from './delegation';
+import { SLA_ESCALATION_SIGNATURE } from './sla';
+import { PANEL_APPOINTMENT_SIGNATURE } from './panelReview';
+
+export class WithdrawalError extends Error {
+  readonly status = 409;
+}
+
+// Routing done for the reviewer rather than by them: delegation, SLA escalation and panel appointment
+function isRoutingEntry(signature: string | null) {
+  return (
+    signature === DELEGATION_SIGNATURE ||
+    signature === SLA_ESCALATION_SIGNATURE ||
+    (signature?.startsWith(`${PANEL_APPOINTMENT_SIGNATURE} `) ?? false)
+  );
+}
+
+/**
+ * A submission can be taken back only while no reviewer has touched it: since
+ * the latest submission nobody has made a review decision, forward, stage
+ * approval or panel vote, and nobody but the student's group has commented,
+ * scored it or started an approval. Rerouting it to someone else's queue does
+ * not count.
+ */
+export async function assertWithdrawable(assignment: { id: number; studentId: number }) {
+  const submission = await prisma.assignmentHistory.findFirst({
+    where: { assignmentId: assignment.id, action: 'SUBMITTED' },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, createdAt: true }
+  });
+  if (!submission) {
+    throw new WithdrawalError('This assignment has not been submitted');
+  }
+
+  const since = submission.createdAt;
+  const authors = [assignment.studentId, ...(await groupMemberIds(assignment.id))];
+  const [later, comments, scores, approvals] = await Promise.all([
+    prisma.assignmentHistory.findMany({
+      where: { assignmentId: assignment.id, id: { gt: submission.id } },
+      select: { signature: true }
+    }),
+    prisma.assignmentComment.count({
+      where: { assignmentId: assignment.id, authorId: { notIn: authors }, createdAt: { gte: since } }
+    }),
+    prisma.assignmentScore.count({ where: { assignmentId: assignment.id, updatedAt: { gte: since } } }),
+    // Challenges are re-issued in place, so lastSentAt tells this round's from ones left over from earlier rounds
+    prisma.otpChallenge.count({ where: { assignmentId: assignment.id, lastSentAt: { gte: since } } })
+  ]);
+
+  if (later.some((entry) => !isRoutingEntry(entry.signature))) {
+    throw new WithdrawalError('This assignment has already moved on in review and can no longer be withdrawn');
+  }
+  if (comments > 0 || scores > 0 || approvals > 0) {
+    throw new WithdrawalError('Your reviewer has already started on this assignment, so it can no longer be withdrawn');
+  }
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { assignReviewPanel, fetchForwardRecipients, ForwardRecipient } from '../../services/api';
+
+interface AppointPanelDialogProps {
+  assignment: { id: number; title: string };
+  minSize: number;
+  // The HOD can sit on the panel too; colleagues come from the forward recipients
+  self: { id: number; email: string };
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const AppointPanelDialog = ({ assignment, minSize, self, onClose, onSaved }: AppointPanelDialogProps) => {
+  const [candidates, setCandidates] = useState<ForwardRecipient[]>([]);
+  // In the order ticked; the first one chairs the panel
+  const [selected, setSelected] = useState<number[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchForwardRecipients()
+      .then((res) =>
+        setCandidates([{ id: self.id, name: 'Me', email: self.email, role: 'HOD' }, ...res.data.recipients])
+      )
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load reviewers')));
+  }, [self.id, self.email]);
+
+  const toggle = (id: number) =>
+    setSelected(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id]);
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      setSaving(true);
+      const res = await assignReviewPanel(assignment.id, selected);
+      onSaved(res.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to appoint the panel'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1001,
+        padding: '1rem'
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: '500px', width: '100%', position: 'relative' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0 }}>Review panel</h2>
+        <p style={{ fontSize: '0.875rem', color: '#64748b' }}>
+          Choose at least {minSize} reviewers for "{assignment.title}". The first one you tick chairs the panel.
+        </p>
+        {candidates.map((c) => (
+          <label key={c.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+            <input type="checkbox" checked={selected.includes(c.id)} onChange={() => toggle(c.id)} disabled={saving} />
+            {c.name} ({c.role})
+            {selected[0] === c.id && <span className="chip">Chair</span>}
+          </label>
+        ))}
+
+        {error && <div className="form__error" style={{ marginTop: '0.75rem' }}>{error}</div>}
+
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', marginTop: '1rem' }}>
+          <button type="button" className="button button--ghost" onClick={onClose} disabled={saving}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="button button--primary"
+            onClick={handleSave}
+            disabled={saving || selected.length < minSize}
+          >
+            {saving ? 'Saving...' : 'Appoint panel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AppointPanelDialog;
@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  fetchAssignmentComments,
+  postAssignmentComment,
+  AssignmentComment,
+  AssignmentCommentThread,
+  CommentScope,
+  CommentUser
+} from '../../services/api';
+
+interface CommentThreadProps {
+  assignmentId: number;
+  scope: CommentScope;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+// Highlight "@Name" for each mentioned user
+const renderBody = (comment: AssignmentComment) => {
+  if (comment.mentions.length === 0) return comment.body;
+  const names = comment.mentions.map((m) => m.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = comment.body.split(new RegExp(`(@(?:${names.join('|')}))`, 'g'));
+  return parts.map((part, i) =>
+    i % 2 === 1 ? (
+      <strong key={i} style={{ color: '#1d4ed8' }}>
+        {part}
+      </strong>
+    ) : (
+      part
+    )
+  );
+};
+
+interface ComposerProps {
+  participants: CommentUser[];
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string, mentionIds: number[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const Composer = ({ participants, placeholder, submitLabel, onSubmit, onCancel }: ComposerProps) => {
+  const [body, setBody] = useState('');
+  const [mentioned, setMentioned] = useState<CommentUser[]>([]);
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const addMention = (user: CommentUser) => {
+    setBody((prev) => `${prev}${prev && !prev.endsWith(' ') ? ' ' : ''}@${user.name} `);
+    setMentioned((prev) => (prev.some((u) => u.id === user.id) ? prev : [...prev, user]));
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    setError(null);
+    try {
+      setPosting(true);
+      // Only keep mentions whose "@Name" is still in the text
+      const mentionIds = mentioned.filter((u) => body.includes(`@${u.name}`)).map((u) => u.id);
+      await onSubmit(body.trim(), mentionIds);
+      setBody('');
+      setMentioned([]);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to post comment'));
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div>
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+        maxLength={2000}
+        style={{
+          width: '100%',
+          padding: '0.75rem',
+          borderRadius: '8px',
+          border: '1px solid #e2e8f0',
+          fontFamily: 'inherit'
+        }}
+      />
+      {error && <div className="form__error" style={{ marginTop: '0.5rem' }}>{error}</div>}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem', flexWrap: 'wrap' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', flexWrap: 'wrap' }}>
+          {participants.length > 0 && (
+            <span style={{ fontSize: '0.8125rem', color: '#64748b' }}>Mention:</span>
+          )}
+          {participants.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              className="chip"
+              onClick={() => addMention(p)}
+              style={{ cursor: 'pointer', border: 'none' }}
+            >
+              @{p.name}
+            </button>
+          ))}
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          {onCancel && (
+            <button type="button" className="button button--ghost" onClick={onCancel} disabled={posting}>
+              Cancel
+            </button>
+          )}
+          <button type="button" className="button" onClick={handleSubmit} disabled={posting || !body.trim()}>
+            {posting ? 'Posting...' : submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CommentThread = ({ assignmentId, scope }: CommentThreadProps) => {
+  const { user } = useAuth();
+  const [threads, setThreads] = useState<AssignmentCommentThread[]>([]);
+  const [participants, setParticipants] = useState<CommentUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+
+  const loadComments = async () => {
+    try {
+      setError(null);
+      const res = await fetchAssignmentComments(scope, assignmentId);
+      setThreads(res.data.threads);
+      setParticipants(res.data.participants);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load comments'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadComments();
+  }, [assignmentId, scope]);
+
+  const mentionable = participants.filter((p) => p.id !== user?.id);
+
+  const post = async (body: string, mentionIds: number[], parentId?: number) => {
+    await postAssignmentComment(scope, assignmentId, {
+      body,
+      mentionIds,
+      ...(parentId ? { parentId } : {})
+    });
+    setReplyingTo(null);
+    await loadComments();
+  };
+
+  const renderComment = (comment: AssignmentComment, isReply: boolean) => (
+    <div
+      style={{
+        padding: '0.75rem 1rem',
+        borderRadius: '8px',
+        border: '1px solid #e2e8f0',
+        backgroundColor: comment.author.id === user?.id ? '#f8fafc' : 'white',
+        marginLeft: isReply ? '2rem' : 0
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', marginBottom: '0.375rem' }}>
+        <span>
+          <strong>{comment.author.name}</strong>
+          <span style={{ fontSize: '0.8125rem', color: '#64748b', marginLeft: '0.375rem' }}>
+            ({comment.author.role})
+          </span>
+        </span>
+        <span style={{ fontSize: '0.8125rem', color: '#64748b' }}>{formatDate(comment.createdAt)}</span>
+      </div>
+      <p style={{ margin: 0, whiteSpace: 'pre-wrap' }}>{renderBody(comment)}</p>
+    </div>
+  );
+
+  return (
+    <div className="card" style={{ marginBottom: '1.5rem' }}>
+      <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>Discussion</h2>
+
+      {error && <div className="form__error" style={{ marginBottom: '1rem' }}>{error}</div>}
+
+      {loading ? (
+        <p style={{ color: '#64748b' }}>Loading comments...</p>
+      ) : threads.length === 0 ? (
+        <p style={{ color: '#64748b' }}>No comments yet. Start the conversation below.</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem', marginBottom: '1.5rem' }}>
+          {threads.map((thread) => (
+            <div key={thread.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+              {renderComment(thread, false)}
+              {thread.replies.map((reply) => (
+                <div key={reply.id}>{renderComment(reply, true)}</div>
+              ))}
+              <div style={{ marginLeft: '2rem' }}>
+                {replyingTo === thread.id ? (
+                  <Composer
+                    participants={mentionable}
+                    placeholder="Write a reply..."
+                    submitLabel="Reply"
+                    onSubmit={(body, mentionIds) => post(body, mentionIds, thread.id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    className="button button--ghost"
+                    style={{ padding: '0.25rem 0.75rem', fontSize: '0.875rem' }}
+                    onClick={() => setReplyingTo(thread.id)}
+                  >
+                    Reply
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Composer
+        participants={mentionable}
+        placeholder="Ask a question or leave a note..."
+        submitLabel="Comment"
+        onSubmit={(body, mentionIds) => post(body, mentionIds)}
+      />
+    </div>
+  );
+};
+
+export default CommentThread;
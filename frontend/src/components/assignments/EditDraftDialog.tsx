@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { updateDraftAssignment, Assignment, AssignmentCategory } from '../../services/api';
+
+interface EditDraftDialogProps {
+  assignment: Assignment;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+const categoryLabels: Record<AssignmentCategory, string> = {
+  ASSIGNMENT: 'Assignment',
+  THESIS: 'Thesis',
+  REPORT: 'Report'
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const EditDraftDialog = ({ assignment, onClose, onSaved }: EditDraftDialogProps) => {
+  const [title, setTitle] = useState(assignment.title);
+  const [description, setDescription] = useState(assignment.description ?? '');
+  const [category, setCategory] = useState<AssignmentCategory>(assignment.category);
+  const [file, setFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const categories = assignment.brief?.allowedCategories ?? (Object.keys(categoryLabels) as AssignmentCategory[]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    if (selected && selected.type !== 'application/pdf') {
+      setError('Only PDF files are allowed');
+      setFile(null);
+      return;
+    }
+    setError(null);
+    setFile(selected);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      setSaving(true);
+      const response = await updateDraftAssignment(assignment.id, {
+        title,
+        description,
+        category,
+        file
+      });
+      onSaved(response.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update draft'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1001,
+        padding: '1rem'
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: '500px', width: '100%', position: 'relative' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0 }}>Edit Draft</h2>
+        <form className="form" onSubmit={handleSave}>
+          <div className="form__group">
+            <label htmlFor="draftTitle" className="form__label">Title</label>
+            <input
+              id="draftTitle"
+              type="text"
+              className="form__input"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="form__group">
+            <label htmlFor="draftDescription" className="form__label">Description</label>
+            <textarea
+              id="draftDescription"
+              className="form__input form__textarea"
+              rows={4}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="form__group">
+            <label htmlFor="draftCategory" className="form__label">Category</label>
+            <select
+              id="draftCategory"
+              className="form__input form__select"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as AssignmentCategory)}
+              disabled={saving}
+            >
+              {categories.map((c) => (
+                <option key={c} value={c}>
+                  {categoryLabels[c]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form__group">
+            <label htmlFor="draftFile" className="form__label">Replace file (optional)</label>
+            <input
+              id="draftFile"
+              type="file"
+              accept="application/pdf"
+              className="form__input"
+              onChange={handleFileChange}
+              disabled={saving}
+            />
+            {file && (
+              <p style={{ fontSize: '0.875rem', color: '#666', marginTop: '0.25rem' }}>
+                {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)
+              </p>
+            )}
+          </div>
+
+          {error && <div className="form__error">{error}</div>}
+
+          <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', marginTop: '1rem' }}>
+            <button type="button" className="button button--ghost" onClick={onClose} disabled={saving}>
+              Cancel
+            </button>
+            <button type="submit" className="button button--primary" disabled={saving || !title.trim()}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditDraftDialog;
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { castPanelVote, PanelReview } from '../../services/api';
+
+interface PanelReviewCardProps {
+  panel: PanelReview;
+  // When set, the member with this user id can cast their vote on the assignment
+  assignmentId?: number;
+  voterId?: number;
+  onVoted?: (message: string) => void;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const voteColors = { APPROVE: '#16a34a', REJECT: '#dc2626' };
+
+const PanelReviewCard = ({ panel, assignmentId, voterId, onVoted }: PanelReviewCardProps) => {
+  const [vote, setVote] = useState<'APPROVE' | 'REJECT'>('APPROVE');
+  const [remarks, setRemarks] = useState('');
+  const [signature, setSignature] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const me = panel.members.find((m) => m.id === voterId);
+  const canVote = assignmentId !== undefined && panel.open && me !== undefined && me.vote === null;
+
+  const handleVote = async () => {
+    if (assignmentId === undefined) return;
+    setError(null);
+    try {
+      setSaving(true);
+      const res = await castPanelVote(assignmentId, {
+        vote,
+        signature: signature.trim(),
+        ...(remarks.trim() ? { remarks: remarks.trim() } : {})
+      });
+      onVoted?.(res.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to record your vote'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const status = panel.awaitingPanel
+    ? 'Waiting for the HOD to appoint the panel'
+    : panel.outcome
+      ? `Decided: ${panel.outcome === 'APPROVE' ? 'approved' : 'rejected'}`
+      : `${panel.approvals} approve · ${panel.rejections} reject · ${panel.members.length - panel.approvals - panel.rejections} to vote`;
+
+  return (
+    <div className="card" style={{ marginBottom: '1.5rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+        <h2 style={{ margin: 0 }}>Review panel</h2>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <span className="chip">{panel.quorum === 'UNANIMOUS' ? 'Unanimous' : 'Majority'} vote</span>
+          <span className="chip">{status}</span>
+        </div>
+      </div>
+
+      {panel.members.length > 0 && (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '1rem 0 0' }}>
+          {panel.members.map((member) => (
+            <li key={member.id} style={{ padding: '0.5rem 0', borderBottom: '1px solid #e2e8f0' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+                <span>
+                  <strong>{member.name}</strong>{' '}
+                  <span style={{ color: '#64748b', fontSize: '0.875rem' }}>
+                    ({member.role}){member.isChair ? ' · Chair' : ''}
+                  </span>
+                </span>
+                {member.vote ? (
+                  <span style={{ color: voteColors[member.vote.vote], fontWeight: 600 }}>
+                    {member.vote.vote === 'APPROVE' ? 'Approved' : 'Rejected'}
+                  </span>
+                ) : (
+                  <span style={{ color: '#94a3b8' }}>Not voted</span>
+                )}
+              </div>
+              {member.vote?.remarks && (
+                <div style={{ fontSize: '0.875rem', color: '#475569', marginTop: '0.25rem' }}>{member.vote.remarks}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canVote && (
+        <div style={{ marginTop: '1rem', display: 'flex', flexDirection: 'column', gap: '0.75rem', maxWidth: '480px' }}>
+          <h3 style={{ margin: 0, fontSize: '1rem' }}>Your vote</h3>
+          <div style={{ display: 'flex', gap: '1.5rem' }}>
+            {(['APPROVE', 'REJECT'] as const).map((option) => (
+              <label key={option} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+                <input
+                  type="radio"
+                  name="panelVote"
+                  checked={vote === option}
+                  onChange={() => setVote(option)}
+                  disabled={saving}
+                />
+                {option === 'APPROVE' ? 'Approve' : 'Reject'}
+              </label>
+            ))}
+          </div>
+          <textarea
+            className="form__input form__textarea"
+            rows={3}
+            value={remarks}
+            onChange={(e) => setRemarks(e.target.value)}
+            placeholder={vote === 'REJECT' ? 'Why should it be rejected? (at least 10 characters)' : 'Remarks (optional)'}
+            disabled={saving}
+          />
+          <input
+            type="text"
+            className="form__input"
+            value={signature}
+            onChange={(e) => setSignature(e.target.value)}
+            placeholder="Signature: your full name"
+            disabled={saving}
+          />
+          {error && <div className="form__error">{error}</div>}
+          <div>
+            <button
+              type="button"
+              className="button"
+              style={{ backgroundColor: voteColors[vote] }}
+              onClick={handleVote}
+              disabled={saving || !signature.trim() || (vote === 'REJECT' && remarks.trim().length < 10)}
+            >
+              {saving ? 'Recording...' : vote === 'APPROVE' ? 'Sign and approve' : 'Sign and reject'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PanelReviewCard;
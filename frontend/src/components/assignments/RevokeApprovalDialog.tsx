@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { revokeAssignmentApproval, RevocationTarget } from '../../services/api';
+
+interface RevokeApprovalDialogProps {
+  assignment: { id: number; title: string };
+  role: string;
+  onClose: () => void;
+  onRevoked: (message: string) => void;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const MIN_REASON_LENGTH = 20;
+
+const targets: Array<{ value: RevocationTarget; label: string; hint: string }> = [
+  { value: 'SUBMITTED', label: 'Back into review', hint: 'The last approver decides again.' },
+  { value: 'PENDING', label: 'Changes requested', hint: 'The student revises and resubmits to the same reviewer.' },
+  { value: 'REJECTED', label: 'Rejected', hint: 'The student is told it was rejected and can resubmit.' }
+];
+
+const RevokeApprovalDialog = ({ assignment, role, onClose, onRevoked }: RevokeApprovalDialogProps) => {
+  const [target, setTarget] = useState<RevocationTarget>('SUBMITTED');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRevoke = async () => {
+    setError(null);
+    try {
+      setSaving(true);
+      const res = await revokeAssignmentApproval(role, assignment.id, { status: target, reason: reason.trim() });
+      onRevoked(res.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to revoke the approval'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1001,
+        padding: '1rem'
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: '500px', width: '100%', position: 'relative' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0 }}>Revoke approval</h2>
+        <p style={{ fontSize: '0.875rem', color: '#64748b' }}>
+          "{assignment.title}" will no longer be approved. The original approval and its signature stay in the
+          history, marked as revoked. The student and the reviewer are notified.
+        </p>
+
+        {targets.map((t) => (
+          <label key={t.value} style={{ display: 'flex', alignItems: 'flex-start', gap: '0.5rem', marginBottom: '0.5rem' }}>
+            <input
+              type="radio"
+              name="revocationTarget"
+              checked={target === t.value}
+              onChange={() => setTarget(t.value)}
+              disabled={saving}
+              style={{ marginTop: '0.25rem' }}
+            />
+            <span>
+              {t.label}
+              <span style={{ display: 'block', fontSize: '0.8125rem', color: '#64748b' }}>{t.hint}</span>
+            </span>
+          </label>
+        ))}
+
+        <label className="form__label" htmlFor="revocationReason" style={{ marginTop: '0.75rem' }}>
+          Justification
+        </label>
+        <textarea
+          id="revocationReason"
+          className="form__input form__textarea"
+          rows={4}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder={`Why is this approval being revoked? (at least ${MIN_REASON_LENGTH} characters)`}
+          disabled={saving}
+        />
+
+        {error && <div className="form__error" style={{ marginTop: '0.75rem' }}>{error}</div>}
+
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', marginTop: '1rem' }}>
+          <button type="button" className="button button--ghost" onClick={onClose} disabled={saving}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="button"
+            style={{ backgroundColor: '#dc2626' }}
+            onClick={handleRevoke}
+            disabled={saving || reason.trim().length < MIN_REASON_LENGTH}
+          >
+            {saving ? 'Revoking...' : 'Revoke approval'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevokeApprovalDialog;
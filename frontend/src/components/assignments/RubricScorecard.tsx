@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { saveAssignmentScores, AssignmentGrading } from '../../services/api';
+
+interface RubricScorecardProps {
+  grading: AssignmentGrading;
+  // When set, the reviewer can edit and save scores for this assignment
+  assignmentId?: number;
+  onSaved?: (grading: AssignmentGrading) => void;
+}
+
+type Draft = Record<number, { score: string; comment: string }>;
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const toDraft = (grading: AssignmentGrading): Draft =>
+  Object.fromEntries(
+    grading.rubric.criteria.map((c) => {
+      const existing = grading.scores.find((s) => s.criterionId === c.id);
+      return [c.id, { score: existing ? String(existing.score) : '', comment: existing?.comment ?? '' }];
+    })
+  );
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderBottom: '1px solid #e2e8f0',
+  textAlign: 'left',
+  verticalAlign: 'top'
+};
+
+const RubricScorecard = ({ grading, assignmentId, onSaved }: RubricScorecardProps) => {
+  const editable = assignmentId !== undefined;
+  const [draft, setDraft] = useState<Draft>(() => toDraft(grading));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft(toDraft(grading));
+  }, [grading]);
+
+  const totalWeight = grading.rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
+
+  const handleSave = async () => {
+    if (assignmentId === undefined) return;
+    setError(null);
+    setSaved(false);
+    const scores = grading.rubric.criteria
+      .filter((c) => draft[c.id]?.score.trim())
+      .map((c) => ({
+        criterionId: c.id,
+        score: Number(draft[c.id]!.score),
+        ...(draft[c.id]!.comment.trim() ? { comment: draft[c.id]!.comment.trim() } : {})
+      }));
+    if (scores.length === 0) {
+      setError('Enter at least one score.');
+      return;
+    }
+    try {
+      setSaving(true);
+      const res = await saveAssignmentScores(assignmentId, scores);
+      setSaved(true);
+      onSaved?.(res.data.grading);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save scores'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card" style={{ marginBottom: '1.5rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        <h2 style={{ margin: 0 }}>{grading.rubric.name}</h2>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <span className="chip">
+            {grading.grade.complete
+              ? `Grade: ${grading.grade.finalPercent}%`
+              : `${grading.grade.scoredCriteria} of ${grading.grade.totalCriteria} scored`}
+          </span>
+          {grading.grade.complete && grading.grade.latePenaltyPercent > 0 && (
+            <span className="chip" style={{ color: '#b91c1c' }}>
+              {grading.grade.percent}% − {grading.grade.latePenaltyPercent}% late penalty
+            </span>
+          )}
+          {grading.grade.band && (
+            <span className="chip" style={{ color: '#1d4ed8' }}>{grading.grade.band}</span>
+          )}
+        </div>
+      </div>
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9375rem' }}>
+          <thead>
+            <tr style={{ color: '#64748b', fontSize: '0.8125rem' }}>
+              <th style={cellStyle}>Criterion</th>
+              <th style={cellStyle}>Weight</th>
+              <th style={cellStyle}>Score</th>
+              <th style={cellStyle}>Comment</th>
+            </tr>
+          </thead>
+          <tbody>
+            {grading.rubric.criteria.map((criterion) => {
+              const score = grading.scores.find((s) => s.criterionId === criterion.id);
+              const entry = draft[criterion.id] ?? { score: '', comment: '' };
+              return (
+                <tr key={criterion.id}>
+                  <td style={cellStyle}>
+                    <strong>{criterion.name}</strong>
+                    {criterion.description && (
+                      <div style={{ fontSize: '0.8125rem', color: '#64748b' }}>{criterion.description}</div>
+                    )}
+                  </td>
+                  <td style={cellStyle}>
+                    {totalWeight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : '—'}
+                  </td>
+                  <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                    {editable ? (
+                      <>
+                        <input
+                          type="number"
+                          className="form__input"
+                          min={0}
+                          max={criterion.maxScore}
+                          step="0.5"
+                          value={entry.score}
+                          onChange={(e) => {
+                            setDraft({ ...draft, [criterion.id]: { ...entry, score: e.target.value } });
+                            setSaved(false);
+                          }}
+                          style={{ width: '80px' }}
+                        />{' '}
+                        / {criterion.maxScore}
+                      </>
+                    ) : score ? (
+                      <>
+                        {score.score} / {criterion.maxScore}
+                        {score.band && (
+                          <div style={{ fontSize: '0.8125rem', color: '#64748b' }}>{score.band}</div>
+                        )}
+                      </>
+                    ) : (
+                      <span style={{ color: '#94a3b8' }}>Not scored</span>
+                    )}
+                  </td>
+                  <td style={cellStyle}>
+                    {editable ? (
+                      <input
+                        type="text"
+                        className="form__input"
+                        value={entry.comment}
+                        onChange={(e) => {
+                          setDraft({ ...draft, [criterion.id]: { ...entry, comment: e.target.value } });
+                          setSaved(false);
+                        }}
+                        placeholder="Optional"
+                      />
+                    ) : (
+                      <span style={{ whiteSpace: 'pre-wrap' }}>{score?.comment || '—'}</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {grading.rubric.bands.length > 0 && (
+        <p style={{ fontSize: '0.8125rem', color: '#64748b', marginBottom: 0 }}>
+          Bands: {grading.rubric.bands.map((b) => `${b.label} from ${b.minPercent}%`).join(' · ')}
+        </p>
+      )}
+
+      {editable && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginTop: '1rem' }}>
+          <button type="button" className="button" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save scores'}
+          </button>
+          {saved && <span style={{ color: '#16a34a', fontSize: '0.875rem' }}>Scores saved</span>}
+          {error && <span className="form__error">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RubricScorecard;
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { fetchClassmates, updateGroupMembers, Assignment, GroupMember } from '../../services/api';
+
+interface TeamDialogProps {
+  assignment: Assignment;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const TeamDialog = ({ assignment, onClose, onSaved }: TeamDialogProps) => {
+  const [classmates, setClassmates] = useState<GroupMember[]>([]);
+  const [maxGroupSize, setMaxGroupSize] = useState(0);
+  const [selected, setSelected] = useState<number[]>((assignment.members ?? []).map((m) => m.id));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchClassmates()
+      .then((res) => {
+        setClassmates(res.data.classmates);
+        setMaxGroupSize(res.data.maxGroupSize);
+      })
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load classmates')))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // The owner takes one of the places
+  const maxTeammates = Math.max(maxGroupSize - 1, 0);
+
+  const toggle = (id: number) =>
+    setSelected(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id]);
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      setSaving(true);
+      const res = await updateGroupMembers(assignment.id, selected);
+      onSaved(res.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update the team'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1001,
+        padding: '1rem'
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: '500px', width: '100%', position: 'relative' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0 }}>Team</h2>
+        <p style={{ fontSize: '0.875rem', color: '#64748b' }}>
+          Pick up to {maxTeammates} classmates to work on "{assignment.title}" with you. Everyone on the team can
+          follow its review, comment and resubmit it; only you can edit, submit or withdraw it.
+        </p>
+
+        {loading ? (
+          <p>Loading classmates...</p>
+        ) : classmates.length === 0 ? (
+          <p style={{ color: '#64748b' }}>There are no other students in your department.</p>
+        ) : (
+          <div style={{ maxHeight: '320px', overflowY: 'auto' }}>
+            {classmates.map((c) => (
+              <label key={c.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(c.id)}
+                  onChange={() => toggle(c.id)}
+                  disabled={saving || (!selected.includes(c.id) && selected.length >= maxTeammates)}
+                />
+                {c.name}
+                <span style={{ color: '#64748b', fontSize: '0.875rem' }}>{c.email}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {error && <div className="form__error" style={{ marginTop: '0.75rem' }}>{error}</div>}
+
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', marginTop: '1rem' }}>
+          <button type="button" className="button button--ghost" onClick={onClose} disabled={saving}>
+            Cancel
+          </button>
+          <button type="button" className="button button--primary" onClick={handleSave} disabled={saving || loading}>
+            {saving ? 'Saving...' : selected.length === 0 ? 'Work alone' : 'Save team'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamDialog;
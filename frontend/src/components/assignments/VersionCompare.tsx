@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import {
+  fetchAssignmentVersions,
+  fetchVersionCompare,
+  AssignmentVersion,
+  VersionCompareResponse
+} from '../../services/api';
+
+interface VersionCompareProps {
+  assignmentId: number;
+  onClose: () => void;
+}
+
+type CompareData = VersionCompareResponse['data'];
+
+const paneStyle: React.CSSProperties = {
+  border: '1px solid #e2e8f0',
+  borderRadius: '8px',
+  padding: '1rem',
+  maxHeight: '520px',
+  overflowY: 'auto',
+  whiteSpace: 'pre-wrap',
+  fontSize: '0.875rem',
+  lineHeight: 1.6,
+  backgroundColor: 'white'
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const VersionCompare = ({ assignmentId, onClose }: VersionCompareProps) => {
+  const [versions, setVersions] = useState<AssignmentVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [data, setData] = useState<CompareData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAssignmentVersions(assignmentId)
+      .then((res) => {
+        const list = res.data.versions;
+        setVersions(list);
+        if (list.length >= 2) {
+          setFromVersion(list[list.length - 2]!.version);
+          setToVersion(list[list.length - 1]!.version);
+        } else {
+          setError('This assignment has only one version, so there is nothing to compare.');
+          setLoading(false);
+        }
+      })
+      .catch((err) => {
+        setError(getErrorMessage(err, 'Failed to load versions'));
+        setLoading(false);
+      });
+  }, [assignmentId]);
+
+  useEffect(() => {
+    if (fromVersion == null || toVersion == null) return;
+    if (fromVersion >= toVersion) {
+      setError('Pick an older version on the left and a newer one on the right.');
+      setData(null);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    fetchVersionCompare(assignmentId, { from: fromVersion, to: toVersion })
+      .then((res) => setData(res.data))
+      .catch((err) => {
+        setData(null);
+        setError(getErrorMessage(err, 'Failed to compare versions'));
+      })
+      .finally(() => setLoading(false));
+  }, [assignmentId, fromVersion, toVersion]);
+
+  const versionSelect = (value: number | null, onChange: (v: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(Number(e.target.value))}
+      style={{ padding: '0.25rem 0.5rem', borderRadius: '6px', border: '1px solid #e2e8f0' }}
+    >
+      {versions.map((v) => (
+        <option key={v.id} value={v.version}>
+          Version {v.version}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="card" style={{ marginBottom: '1.5rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', gap: '1rem', flexWrap: 'wrap' }}>
+        <h2 style={{ margin: 0 }}>Compare versions</h2>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          {data && (
+            <>
+              <span className="chip" style={{ color: '#15803d' }}>+{data.stats.addedLines} lines</span>
+              <span className="chip" style={{ color: '#b91c1c' }}>−{data.stats.removedLines} lines</span>
+            </>
+          )}
+          <button type="button" className="button button--ghost" onClick={onClose}>
+            Close compare
+          </button>
+        </div>
+      </div>
+
+      {data?.feedback && (
+        <div
+          style={{
+            position: 'sticky',
+            top: 0,
+            zIndex: 1,
+            marginBottom: '1rem',
+            padding: '0.75rem 1rem',
+            borderRadius: '8px',
+            border: '1px solid #fecaca',
+            backgroundColor: '#fef2f2'
+          }}
+        >
+          <strong style={{ color: '#b91c1c' }}>
+            {data.feedback.action === 'REJECTED' ? 'Rejection feedback' : 'Changes requested'} by{' '}
+            {data.feedback.reviewer.name}
+          </strong>
+          <span style={{ fontSize: '0.75rem', color: '#64748b', marginLeft: '0.5rem' }}>
+            {new Date(data.feedback.createdAt).toLocaleString()}
+          </span>
+          <p style={{ margin: '0.5rem 0 0', whiteSpace: 'pre-wrap' }}>
+            {data.feedback.remark || 'No remark was left.'}
+          </p>
+        </div>
+      )}
+
+      {error && <div className="form__error" style={{ marginBottom: '1rem' }}>{error}</div>}
+
+      {versions.length >= 2 && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 1fr)', gap: '1rem' }}>
+          <div>
+            <div style={{ marginBottom: '0.5rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <strong>Previous</strong>
+              {versionSelect(fromVersion, setFromVersion)}
+            </div>
+            <div style={paneStyle}>
+              {loading
+                ? 'Extracting text...'
+                : data?.segments
+                    .filter((s) => s.type !== 'added')
+                    .map((s, i) => (
+                      <span
+                        key={i}
+                        style={
+                          s.type === 'removed'
+                            ? { backgroundColor: '#fee2e2', textDecoration: 'line-through', color: '#991b1b' }
+                            : undefined
+                        }
+                      >
+                        {s.value}
+                      </span>
+                    ))}
+            </div>
+          </div>
+          <div>
+            <div style={{ marginBottom: '0.5rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <strong>Current</strong>
+              {versionSelect(toVersion, setToVersion)}
+            </div>
+            <div style={paneStyle}>
+              {loading
+                ? 'Extracting text...'
+                : data?.segments
+                    .filter((s) => s.type !== 'removed')
+                    .map((s, i) => (
+                      <span
+                        key={i}
+                        style={s.type === 'added' ? { backgroundColor: '#dcfce7', color: '#166534' } : undefined}
+                      >
+                        {s.value}
+                      </span>
+                    ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionCompare;
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import {
+  fetchAssignmentVersions,
+  fetchAssignmentVersionLink,
+  AssignmentVersion
+} from '../../services/api';
+
+interface VersionTimelineProps {
+  assignmentId: number;
+  // Bump to refetch after a resubmission adds a version
+  refreshKey?: number;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const VersionTimeline = ({ assignmentId, refreshKey = 0 }: VersionTimelineProps) => {
+  const [versions, setVersions] = useState<AssignmentVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchAssignmentVersions(assignmentId)
+      .then((res) => {
+        if (!cancelled) setVersions(res.data.versions);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load file versions');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [assignmentId, refreshKey]);
+
+  const handleDownload = async (version: number) => {
+    try {
+      window.location.href = await fetchAssignmentVersionLink(assignmentId, version, true);
+    } catch {
+      setError('Failed to download this version. Please try again.');
+    }
+  };
+
+  const latest = versions[versions.length - 1]?.version;
+
+  return (
+    <div className="card" style={{ marginBottom: '1.5rem' }}>
+      <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>File Versions</h2>
+
+      {error && <div className="form__error" style={{ marginBottom: '1rem' }}>{error}</div>}
+
+      {loading ? (
+        <p style={{ color: '#64748b', margin: 0 }}>Loading versions...</p>
+      ) : versions.length === 0 ? (
+        <p style={{ color: '#64748b', margin: 0 }}>No files uploaded yet.</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          {[...versions].reverse().map((v) => (
+            <div
+              key={v.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '1rem',
+                padding: '0.75rem 1rem',
+                border: '1px solid #e2e8f0',
+                borderRadius: '8px',
+                backgroundColor: v.version === latest ? '#f8fafc' : 'white'
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <strong>Version {v.version}</strong>
+                  {v.version === latest && <span className="chip">Current</span>}
+                </div>
+                <div style={{ fontSize: '0.875rem', color: '#64748b', marginTop: '0.25rem' }}>
+                  {v.fileName} · {formatSize(v.size)} · {formatDate(v.uploadedAt)}
+                  {v.uploadedBy && ` · by ${v.uploadedBy.name}`}
+                </div>
+                <div
+                  style={{ fontSize: '0.75rem', color: '#94a3b8', fontFamily: 'monospace', marginTop: '0.25rem' }}
+                  title={v.checksum}
+                >
+                  sha256 {v.checksum.slice(0, 16)}…
+                </div>
+              </div>
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={() => handleDownload(v.version)}
+              >
+                Download
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionTimeline;
@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import {
+  fetchDepartmentSettings,
+  updateDepartmentSettings,
+  AssignmentCategory,
+  DepartmentSettings,
+  LatePolicy,
+  PanelQuorum
+} from '../../services/api';
+
+interface DepartmentSettingsCardProps {
+  departmentId: number;
+}
+
+const latePolicyOptions: Array<{ value: LatePolicy; label: string; hint: string }> = [
+  { value: 'HARD_CUTOFF', label: 'Hard cutoff', hint: 'Nothing is accepted after the deadline.' },
+  { value: 'GRACE_PERIOD', label: 'Grace period', hint: 'Accepted (and flagged late) for a number of hours after the deadline.' },
+  { value: 'PENALTY', label: 'Late with penalty', hint: 'Always accepted; the grade is reduced for every started day late.' }
+];
+
+const categoryOptions: Array<{ value: AssignmentCategory; label: string }> = [
+  { value: 'ASSIGNMENT', label: 'Assignment' },
+  { value: 'THESIS', label: 'Thesis' },
+  { value: 'REPORT', label: 'Report' }
+];
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const DepartmentSettingsCard = ({ departmentId }: DepartmentSettingsCardProps) => {
+  const [settings, setSettings] = useState<DepartmentSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDepartmentSettings(departmentId)
+      .then((res) => setSettings(res.data.settings))
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load department settings')));
+  }, [departmentId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+    setMessage(null);
+    setError(null);
+    try {
+      setSaving(true);
+      const res = await updateDepartmentSettings(departmentId, settings);
+      setSettings(res.data.settings);
+      setMessage(res.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update department settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return <div className="card">{error ? <div className="form__error">{error}</div> : 'Loading settings...'}</div>;
+  }
+
+  return (
+    <div className="card">
+      <h2>Department Rules</h2>
+      <p>Decide what happens when students submit after a deadline and how long reviews may take.</p>
+
+      <form className="form" onSubmit={handleSubmit} noValidate>
+        <div className="form__group">
+          <label className="form__label" htmlFor="latePolicy">
+            Late policy
+          </label>
+          <select
+            id="latePolicy"
+            className="form__select"
+            value={settings.latePolicy}
+            onChange={(e) => setSettings({ ...settings, latePolicy: e.target.value as LatePolicy })}
+          >
+            {latePolicyOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <span style={{ fontSize: '0.875rem', color: '#64748b' }}>
+            {latePolicyOptions.find((o) => o.value === settings.latePolicy)?.hint}
+          </span>
+        </div>
+
+        {settings.latePolicy === 'GRACE_PERIOD' && (
+          <div className="form__group">
+            <label className="form__label" htmlFor="gracePeriodHours">
+              Grace period (hours)
+            </label>
+            <input
+              id="gracePeriodHours"
+              type="number"
+              min={0}
+              max={720}
+              className="form__input"
+              value={settings.gracePeriodHours}
+              onChange={(e) => setSettings({ ...settings, gracePeriodHours: Number(e.target.value) })}
+            />
+          </div>
+        )}
+
+        {settings.latePolicy === 'PENALTY' && (
+          <div className="form__group">
+            <label className="form__label" htmlFor="latePenaltyPercent">
+              Penalty per day late (%)
+            </label>
+            <input
+              id="latePenaltyPercent"
+              type="number"
+              min={0}
+              max={100}
+              step="0.5"
+              className="form__input"
+              value={settings.latePenaltyPercent}
+              onChange={(e) => setSettings({ ...settings, latePenaltyPercent: Number(e.target.value) })}
+            />
+          </div>
+        )}
+
+        <h3 style={{ marginBottom: 0 }}>Review SLA</h3>
+        <p style={{ marginTop: 0, fontSize: '0.875rem', color: '#64748b' }}>
+          Reviewers are reminded once an assignment has waited this long in their queue, and it is escalated to the
+          HOD after the second threshold.
+        </p>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, minmax(0, 1fr))', gap: '1rem' }}>
+          <div className="form__group">
+            <label className="form__label" htmlFor="slaReminderDays">
+              Remind after (days)
+            </label>
+            <input
+              id="slaReminderDays"
+              type="number"
+              min={1}
+              max={90}
+              className="form__input"
+              value={settings.slaReminderDays}
+              onChange={(e) => setSettings({ ...settings, slaReminderDays: Number(e.target.value) })}
+            />
+          </div>
+          <div className="form__group">
+            <label className="form__label" htmlFor="slaEscalationDays">
+              Escalate to HOD after (days)
+            </label>
+            <input
+              id="slaEscalationDays"
+              type="number"
+              min={2}
+              max={90}
+              className="form__input"
+              value={settings.slaEscalationDays}
+              onChange={(e) => setSettings({ ...settings, slaEscalationDays: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <h3 style={{ marginBottom: 0 }}>Reviewer Assignment</h3>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <input
+            type="checkbox"
+            checked={settings.autoAssignReviewers}
+            onChange={(e) => setSettings({ ...settings, autoAssignReviewers: e.target.checked })}
+          />
+          Assign reviewers automatically
+        </label>
+        <span style={{ fontSize: '0.875rem', color: '#64748b' }}>
+          Students no longer pick a professor; each submission goes to the available professor with the fewest open
+          reviews, preferring specialists in the submission's category.
+        </span>
+
+        <h3 style={{ marginBottom: 0 }}>Panel Review</h3>
+        <p style={{ marginTop: 0, fontSize: '0.875rem', color: '#64748b' }}>
+          Submissions in these categories are decided by a vote of several reviewers, chosen by the student or
+          appointed by the HOD.
+        </p>
+        <div style={{ display: 'flex', gap: '1.5rem', flexWrap: 'wrap' }}>
+          {categoryOptions.map((option) => (
+            <label key={option.value} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              <input
+                type="checkbox"
+                checked={settings.panelCategories.includes(option.value)}
+                onChange={(e) =>
+                  setSettings({
+                    ...settings,
+                    panelCategories: e.target.checked
+                      ? [...settings.panelCategories, option.value]
+                      : settings.panelCategories.filter((c) => c !== option.value)
+                  })
+                }
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        {settings.panelCategories.length > 0 && (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, minmax(0, 1fr))', gap: '1rem' }}>
+            <div className="form__group">
+              <label className="form__label" htmlFor="panelQuorum">
+                Quorum rule
+              </label>
+              <select
+                id="panelQuorum"
+                className="form__select"
+                value={settings.panelQuorum}
+                onChange={(e) => setSettings({ ...settings, panelQuorum: e.target.value as PanelQuorum })}
+              >
+                <option value="MAJORITY">Majority (a tie rejects)</option>
+                <option value="UNANIMOUS">Unanimous</option>
+              </select>
+            </div>
+            <div className="form__group">
+              <label className="form__label" htmlFor="panelMinSize">
+                Minimum panel size
+              </label>
+              <input
+                id="panelMinSize"
+                type="number"
+                min={2}
+                max={9}
+                className="form__input"
+                value={settings.panelMinSize}
+                onChange={(e) => setSettings({ ...settings, panelMinSize: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+        )}
+
+        {message && <div className="form__success">{message}</div>}
+        {error && <div className="form__error">{error}</div>}
+
+        <div>
+          <button type="submit" className="button" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Settings'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DepartmentSettingsCard;
@@ -1,5 +1,6 @@
 import { NavLink, Outlet, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
+import NotificationBell from './NotificationBell';
 
 const links = [
   { to: '/dashboard', label: 'Dashboard', roles: ['ADMIN'] },
@@ -7,9 +8,14 @@ const links = [
   { to: '/departments/create', label: 'Create Department', roles: ['ADMIN'] },
   { to: '/users', label: 'Users', roles: ['ADMIN'] },
   { to: '/users/create', label: 'Create User', roles: ['ADMIN'] },
+  { to: '/reports/overdue', label: 'Overdue Reviews', roles: ['ADMIN'] },
+  { to: '/hod/dashboard', label: 'Department Queue', roles: ['HOD'] },
+  { to: '/reports/approved', label: 'Approved Assignments', roles: ['ADMIN', 'HOD'] },
   { to: '/professor/dashboard', label: 'Pending Reviews', roles: ['PROFESSOR', 'HOD'] },
+  { to: '/professor/courses', label: 'Courses & Briefs', roles: ['PROFESSOR', 'HOD'] },
   { to: '/student/dashboard', label: 'Student Dashboard', roles: ['STUDENT'] },
-  { to: '/student/assignments/upload', label: 'Upload Assignment', roles: ['STUDENT'] }
+  { to: '/student/assignments/upload', label: 'Upload Assignment', roles: ['STUDENT'] },
+  { to: '/notifications', label: 'Notifications', roles: ['STUDENT', 'PROFESSOR', 'HOD'] }
 ];
 
 const AppLayout = () => {
@@ -53,9 +59,13 @@ const AppLayout = () => {
             <h1 className="header__title">University Assignment Approval Platform</h1>
             <p className="header__subtitle">Welcome back, {user?.email}</p>
           </div>
-          <button type="button" className="button button--ghost" onClick={handleLogout}>
-            Logout
-          </button>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+            {/* Administrators are not users and get no notifications */}
+            {user && user.role !== 'ADMIN' && <NotificationBell />}
+            <button type="button" className="button button--ghost" onClick={handleLogout}>
+              Logout
+            </button>
+          </div>
         </header>
 
         <main className="content">
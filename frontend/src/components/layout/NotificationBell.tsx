@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import {
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  markAllNotificationsRead,
+  markNotificationRead,
+  AppNotification
+} from '../../services/api';
+
+// Fired by the notifications page so the badge follows changes made there
+export const NOTIFICATIONS_CHANGED_EVENT = 'notifications:changed';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [recent, setRecent] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refreshCount = useCallback(() => {
+    fetchUnreadNotificationCount()
+      .then((res) => setUnreadCount(res.data.unreadCount))
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    refreshCount();
+    const timer = window.setInterval(refreshCount, POLL_INTERVAL_MS);
+    window.addEventListener(NOTIFICATIONS_CHANGED_EVENT, refreshCount);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener(NOTIFICATIONS_CHANGED_EVENT, refreshCount);
+    };
+  }, [refreshCount]);
+
+  useEffect(() => {
+    setOpen(false);
+  }, [location.pathname]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const toggle = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+    setOpen(true);
+    setLoading(true);
+    try {
+      const res = await fetchNotifications({ pageSize: 8 });
+      setRecent(res.data.notifications);
+      setUnreadCount(res.data.unreadCount);
+    } catch {
+      setRecent([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    if (!notification.read) {
+      try {
+        const res = await markNotificationRead(notification.id);
+        setUnreadCount(res.data.unreadCount);
+        setRecent((prev) => prev.map((n) => (n.id === notification.id ? { ...n, read: true } : n)));
+      } catch {
+        // The link still works if marking fails
+      }
+    }
+    if (notification.assignmentId) {
+      navigate(`/student/assignments/${notification.assignmentId}`);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      const res = await markAllNotificationsRead();
+      setUnreadCount(res.data.unreadCount);
+      setRecent((prev) => prev.map((n) => ({ ...n, read: true })));
+    } catch {
+      // ignore
+    }
+  };
+
+  return (
+    <div ref={containerRef} style={{ position: 'relative' }}>
+      <button
+        type="button"
+        className="button button--ghost"
+        onClick={toggle}
+        aria-label={`Notifications${unreadCount ? `, ${unreadCount} unread` : ''}`}
+        aria-expanded={open}
+        style={{ position: 'relative', fontSize: '1.125rem', lineHeight: 1 }}
+      >
+        <span aria-hidden="true">🔔</span>
+        {unreadCount > 0 && (
+          <span
+            style={{
+              position: 'absolute',
+              top: '-0.25rem',
+              right: '-0.25rem',
+              minWidth: '1.25rem',
+              height: '1.25rem',
+              padding: '0 0.3rem',
+              borderRadius: '999px',
+              background: '#dc2626',
+              color: '#fff',
+              fontSize: '0.75rem',
+              fontWeight: 600,
+              lineHeight: '1.25rem',
+              textAlign: 'center'
+            }}
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          className="card"
+          style={{
+            position: 'absolute',
+            right: 0,
+            top: 'calc(100% + 0.5rem)',
+            width: 'min(360px, 90vw)',
+            padding: 0,
+            zIndex: 1000,
+            boxShadow: '0 10px 25px rgba(15, 23, 42, 0.15)'
+          }}
+        >
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              padding: '0.75rem 1rem',
+              borderBottom: '1px solid #e2e8f0'
+            }}
+          >
+            <strong>Notifications</strong>
+            {unreadCount > 0 && (
+              <button type="button" className="button button--ghost" onClick={handleMarkAllRead}>
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <p style={{ margin: 0, padding: '1rem', color: '#64748b' }}>Loading...</p>
+          ) : recent.length === 0 ? (
+            <p style={{ margin: 0, padding: '1rem', color: '#64748b' }}>No notifications yet.</p>
+          ) : (
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0, maxHeight: '360px', overflowY: 'auto' }}>
+              {recent.map((n) => (
+                <li key={n.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleOpenNotification(n)}
+                    style={{
+                      display: 'block',
+                      width: '100%',
+                      textAlign: 'left',
+                      padding: '0.75rem 1rem',
+                      border: 'none',
+                      borderBottom: '1px solid #e2e8f0',
+                      background: n.read ? 'transparent' : 'rgba(59, 130, 246, 0.06)',
+                      cursor: 'pointer',
+                      font: 'inherit'
+                    }}
+                  >
+                    <span style={{ display: 'block', fontWeight: n.read ? 400 : 600 }}>{n.message}</span>
+                    <small style={{ color: '#64748b' }}>{new Date(n.createdAt).toLocaleString()}</small>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div style={{ padding: '0.75rem 1rem', textAlign: 'center' }}>
+            <Link to="/notifications">View all notifications</Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import {
+  fetchForwardRecipients,
+  fetchReviewerAvailability,
+  handOverReviews,
+  updateReviewerAvailability,
+  AssignmentCategory,
+  ForwardRecipient,
+  ReviewerAvailability,
+  ReviewerAvailabilityPayload
+} from '../../services/api';
+
+const categoryOptions: Array<{ value: AssignmentCategory; label: string }> = [
+  { value: 'ASSIGNMENT', label: 'Assignment' },
+  { value: 'THESIS', label: 'Thesis' },
+  { value: 'REPORT', label: 'Report' }
+];
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const ReviewerAvailabilityCard = () => {
+  const [availability, setAvailability] = useState<ReviewerAvailability | null>(null);
+  const [colleagues, setColleagues] = useState<ForwardRecipient[]>([]);
+  const [away, setAway] = useState({ from: '', until: '', delegateId: '' });
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyAvailability = (next: ReviewerAvailability) => {
+    setAvailability(next);
+    setAway({
+      from: toLocalInput(next.outOfOfficeFrom),
+      until: toLocalInput(next.outOfOfficeUntil),
+      delegateId: next.delegate ? String(next.delegate.id) : ''
+    });
+  };
+
+  useEffect(() => {
+    fetchReviewerAvailability()
+      .then((res) => applyAvailability(res.data.availability))
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load availability')));
+    fetchForwardRecipients()
+      .then((res) => setColleagues(res.data.recipients))
+      .catch(() => setColleagues([]));
+  }, []);
+
+  const save = async (payload: ReviewerAvailabilityPayload) => {
+    setMessage(null);
+    setError(null);
+    try {
+      setSaving(true);
+      const res = await updateReviewerAvailability(payload);
+      applyAvailability(res.data.availability);
+      setMessage(res.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update availability'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveOutOfOffice = () =>
+    save({
+      outOfOfficeFrom: away.from ? new Date(away.from).toISOString() : null,
+      outOfOfficeUntil: away.until ? new Date(away.until).toISOString() : null,
+      delegateId: away.delegateId ? Number(away.delegateId) : null
+    });
+
+  const handleHandOver = async () => {
+    if (!availability?.delegate) return;
+    const confirmed = window.confirm(
+      `Forward all ${availability.openReviews} open review(s) to ${availability.delegate.name}?`
+    );
+    if (!confirmed) return;
+    setMessage(null);
+    setError(null);
+    try {
+      setSaving(true);
+      const res = await handOverReviews();
+      applyAvailability(res.data.availability);
+      setMessage(res.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to hand over reviews'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!availability) {
+    return error ? <div className="card form__error" style={{ marginBottom: '2rem' }}>{error}</div> : null;
+  }
+
+  const toggleSpecialisation = (category: AssignmentCategory) =>
+    save({
+      specialisations: availability.specialisations.includes(category)
+        ? availability.specialisations.filter((c) => c !== category)
+        : [...availability.specialisations, category]
+    });
+
+  return (
+    <div className="card" style={{ marginBottom: '2rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+        <h2 style={{ margin: 0, fontSize: '1.125rem' }}>Review availability</h2>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          {availability.isOutOfOffice && (
+            <span className="chip" style={{ color: '#b45309' }}>
+              Out of office
+              {availability.delegate ? ` · routed to ${availability.delegate.name}` : ''}
+            </span>
+          )}
+          <span className="chip">{availability.openReviews} open review{availability.openReviews !== 1 ? 's' : ''}</span>
+        </div>
+      </div>
+      <p style={{ fontSize: '0.875rem', color: '#64748b' }}>
+        Used when your department assigns reviewers automatically. Leave every category unticked to take any
+        submission.
+      </p>
+      <div style={{ display: 'flex', gap: '1.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+          <input
+            type="checkbox"
+            checked={availability.acceptingReviews}
+            disabled={saving}
+            onChange={(e) => save({ acceptingReviews: e.target.checked })}
+          />
+          Accepting new reviews
+        </label>
+        <span style={{ color: '#64748b' }}>Specialisations:</span>
+        {categoryOptions.map((option) => (
+          <label key={option.value} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+            <input
+              type="checkbox"
+              checked={availability.specialisations.includes(option.value)}
+              disabled={saving}
+              onChange={() => toggleSpecialisation(option.value)}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      <h3 style={{ fontSize: '1rem', marginBottom: '0.25rem' }}>Out of office</h3>
+      <p style={{ fontSize: '0.875rem', color: '#64748b', marginTop: 0 }}>
+        Submissions and resubmissions that reach you during this window are forwarded to your delegate.
+      </p>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0, 1fr))', gap: '1rem' }}>
+        <div className="form__group">
+          <label className="form__label" htmlFor="outOfOfficeFrom">From</label>
+          <input
+            id="outOfOfficeFrom"
+            type="datetime-local"
+            className="form__input"
+            value={away.from}
+            onChange={(e) => setAway({ ...away, from: e.target.value })}
+          />
+        </div>
+        <div className="form__group">
+          <label className="form__label" htmlFor="outOfOfficeUntil">Until</label>
+          <input
+            id="outOfOfficeUntil"
+            type="datetime-local"
+            className="form__input"
+            value={away.until}
+            onChange={(e) => setAway({ ...away, until: e.target.value })}
+          />
+        </div>
+        <div className="form__group">
+          <label className="form__label" htmlFor="delegateId">Delegate</label>
+          <select
+            id="delegateId"
+            className="form__select"
+            value={away.delegateId}
+            onChange={(e) => setAway({ ...away, delegateId: e.target.value })}
+          >
+            <option value="">No delegate</option>
+            {colleagues.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name} ({c.role})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <button
+          type="button"
+          className="button"
+          onClick={saveOutOfOffice}
+          disabled={saving || Boolean(away.from) !== Boolean(away.until)}
+        >
+          Save out-of-office
+        </button>
+        {availability.outOfOfficeFrom && (
+          <button
+            type="button"
+            className="button button--ghost"
+            onClick={() => save({ outOfOfficeFrom: null, outOfOfficeUntil: null })}
+            disabled={saving}
+          >
+            End window
+          </button>
+        )}
+        {availability.delegate && availability.openReviews > 0 && (
+          <button type="button" className="button button--ghost" onClick={handleHandOver} disabled={saving}>
+            Hand over {availability.openReviews} open review{availability.openReviews !== 1 ? 's' : ''} now
+          </button>
+        )}
+      </div>
+
+      {message && <div className="form__success" style={{ marginTop: '0.75rem' }}>{message}</div>}
+      {error && <div className="form__error" style={{ marginTop: '0.75rem' }}>{error}</div>}
+    </div>
+  );
+};
+
+export default ReviewerAvailabilityCard;
@@ -0,0 +1,202 @@
+import { PointerEvent, useEffect, useRef, useState } from 'react';
+import {
+  deleteReviewerSignature,
+  fetchReviewerSignature,
+  signatureImageSrc,
+  uploadReviewerSignature,
+  ReviewerSignature
+} from '../../services/api';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const CANVAS_WIDTH = 480;
+const CANVAS_HEIGHT = 160;
+// Mirrors the backend limit so oversized files fail before uploading
+const MAX_BYTES = 256 * 1024;
+
+const ReviewerSignatureCard = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [signature, setSignature] = useState<ReviewerSignature | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [hasStrokes, setHasStrokes] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReviewerSignature()
+      .then((res) => setSignature(res.data.signature))
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load your signature')))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  const pointFor = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = pointFor(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#0f172a';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = pointFor(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasStrokes(true);
+  };
+
+  const stopDrawing = () => {
+    drawing.current = false;
+  };
+
+  const clearCanvas = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    setHasStrokes(false);
+  };
+
+  const save = async (image: Blob, fileName?: string) => {
+    setMessage(null);
+    setError(null);
+    if (image.size > MAX_BYTES) {
+      setError('Signature image must be 256KB or smaller.');
+      return;
+    }
+    try {
+      setSaving(true);
+      const res = await uploadReviewerSignature(image, fileName);
+      setSignature(res.data.signature);
+      setMessage(res.message);
+      clearCanvas();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save your signature'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDrawing = () => {
+    canvasRef.current?.toBlob((blob) => {
+      if (blob) void save(blob);
+    }, 'image/png');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      setMessage(null);
+      setError('Only PNG and JPEG signature images are allowed.');
+      return;
+    }
+    void save(file, file.name);
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm('Stop attaching this signature to your approvals? Past approvals keep it.')) return;
+    setMessage(null);
+    setError(null);
+    try {
+      setSaving(true);
+      const res = await deleteReviewerSignature();
+      setSignature(null);
+      setMessage(res.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to remove your signature'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!loaded) return null;
+
+  return (
+    <div className="card" style={{ marginBottom: '2rem' }}>
+      <h2 style={{ margin: 0, fontSize: '1.125rem' }}>Signature</h2>
+      <p style={{ fontSize: '0.875rem', color: '#64748b' }}>
+        Attached to every approval you make and shown on the history timeline, approval certificates and stamped
+        PDFs. PNG or JPEG, up to 256KB and 1200x600 pixels.
+      </p>
+
+      {signature ? (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+          <img
+            src={signatureImageSrc(signature.url)}
+            alt="Your signature"
+            style={{ maxHeight: 80, maxWidth: 240, border: '1px solid #e2e8f0', borderRadius: 4, background: '#fff' }}
+          />
+          <span style={{ fontSize: '0.875rem', color: '#64748b' }}>
+            Saved {new Date(signature.createdAt).toLocaleDateString()}
+          </span>
+          <button type="button" className="button button--ghost" onClick={handleRemove} disabled={saving}>
+            Remove
+          </button>
+        </div>
+      ) : (
+        <p style={{ fontSize: '0.875rem', color: '#b45309' }}>No signature registered yet.</p>
+      )}
+
+      <label className="form__label">{signature ? 'Draw a new signature' : 'Draw your signature'}</label>
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={stopDrawing}
+        onPointerLeave={stopDrawing}
+        style={{
+          display: 'block',
+          width: '100%',
+          maxWidth: CANVAS_WIDTH,
+          aspectRatio: `${CANVAS_WIDTH} / ${CANVAS_HEIGHT}`,
+          border: '1px dashed #cbd5e1',
+          borderRadius: 4,
+          background: '#fff',
+          touchAction: 'none',
+          cursor: 'crosshair'
+        }}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center', marginTop: '0.75rem' }}>
+        <button type="button" className="button" onClick={saveDrawing} disabled={saving || !hasStrokes}>
+          {saving ? 'Saving...' : 'Save signature'}
+        </button>
+        <button type="button" className="button button--ghost" onClick={clearCanvas} disabled={saving || !hasStrokes}>
+          Clear
+        </button>
+        <span style={{ color: '#64748b' }}>or</span>
+        <input type="file" accept="image/png,image/jpeg" onChange={handleFileChange} disabled={saving} />
+      </div>
+
+      {message && <div className="form__success" style={{ marginTop: '0.75rem' }}>{message}</div>}
+      {error && <div className="form__error" style={{ marginTop: '0.75rem' }}>{error}</div>}
+    </div>
+  );
+};
+
+export default ReviewerSignatureCard;
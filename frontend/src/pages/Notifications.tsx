@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  deleteNotification,
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  AppNotification,
+  NotificationsResponse
+} from '../services/api';
+import { NOTIFICATIONS_CHANGED_EVENT } from '../components/layout/NotificationBell';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+// ASSIGNMENT_CHANGES_REQUESTED -> Assignment changes requested
+const formatType = (type: string) => {
+  const words = type.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const PAGE_SIZE = 20;
+
+const NotificationsPage = () => {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [types, setTypes] = useState<string[]>([]);
+  const [pagination, setPagination] = useState<NotificationsResponse['data']['pagination'] | null>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [type, setType] = useState('');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    fetchNotifications({ page, pageSize: PAGE_SIZE, type, unread: unreadOnly })
+      .then((res) => {
+        if (!active) return;
+        setNotifications(res.data.notifications);
+        setTypes(res.data.types);
+        setPagination(res.data.pagination);
+        setUnreadCount(res.data.unreadCount);
+        setError(null);
+      })
+      .catch((err) => {
+        if (active) setError(getErrorMessage(err, 'Failed to load notifications'));
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [page, type, unreadOnly, reloadKey]);
+
+  // Keeps the header badge in step and refetches the page
+  const changed = (nextUnread: number) => {
+    setUnreadCount(nextUnread);
+    window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleMarkRead = async (notification: AppNotification) => {
+    setMessage(null);
+    try {
+      const res = await markNotificationRead(notification.id);
+      changed(res.data.unreadCount);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to mark notification as read'));
+    }
+  };
+
+  const handleDelete = async (notification: AppNotification) => {
+    setMessage(null);
+    try {
+      const res = await deleteNotification(notification.id);
+      // Step back if that was the last notification on the page
+      if (notifications.length === 1 && page > 1) setPage(page - 1);
+      changed(res.data.unreadCount);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete notification'));
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    setMessage(null);
+    try {
+      const res = await markAllNotificationsRead(type || undefined);
+      setMessage(res.message);
+      changed(res.data.unreadCount);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to mark notifications as read'));
+    }
+  };
+
+  const handleView = async (notification: AppNotification) => {
+    if (!notification.read) {
+      try {
+        await markNotificationRead(notification.id);
+        window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+      } catch {
+        // The link still works if marking fails
+      }
+    }
+    navigate(`/student/assignments/${notification.assignmentId}`);
+  };
+
+  return (
+    <div>
+      <div className="page__header" style={{ marginBottom: '1.5rem' }}>
+        <h1 className="page__title">Notifications</h1>
+        <p className="page__subtitle">
+          {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up'}
+        </p>
+      </div>
+
+      <div
+        className="card"
+        style={{ marginBottom: '1.5rem', display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'center' }}
+      >
+        <select
+          className="form__select"
+          value={type}
+          onChange={(e) => {
+            setType(e.target.value);
+            setPage(1);
+          }}
+          style={{ maxWidth: '280px' }}
+        >
+          <option value="">All types</option>
+          {types.map((t) => (
+            <option key={t} value={t}>
+              {formatType(t)}
+            </option>
+          ))}
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+          <input
+            type="checkbox"
+            checked={unreadOnly}
+            onChange={(e) => {
+              setUnreadOnly(e.target.checked);
+              setPage(1);
+            }}
+          />
+          Unread only
+        </label>
+        <button
+          type="button"
+          className="button button--ghost"
+          style={{ marginLeft: 'auto' }}
+          onClick={handleMarkAllRead}
+          disabled={unreadCount === 0}
+        >
+          Mark all{type ? ` ${formatType(type).toLowerCase()}` : ''} as read
+        </button>
+      </div>
+
+      {message && <div className="card form__success" style={{ marginBottom: '1.5rem' }}>{message}</div>}
+      {error && <div className="card form__error" style={{ marginBottom: '1.5rem' }}>{error}</div>}
+
+      {loading ? (
+        <div className="card">Loading notifications...</div>
+      ) : notifications.length === 0 ? (
+        <div className="card">
+          <p style={{ color: '#64748b', margin: 0 }}>No notifications.</p>
+        </div>
+      ) : (
+        <div className="card">
+          <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+            {notifications.map((n) => (
+              <li
+                key={n.id}
+                style={{
+                  padding: '0.75rem',
+                  borderBottom: '1px solid #e2e8f0',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  gap: '1rem',
+                  backgroundColor: n.read ? 'transparent' : 'rgba(59, 130, 246, 0.06)'
+                }}
+              >
+                <div>
+                  <p style={{ margin: 0, fontWeight: n.read ? 400 : 600 }}>{n.message}</p>
+                  <small style={{ color: '#64748b' }}>
+                    {formatType(n.type)} · {new Date(n.createdAt).toLocaleString()}
+                  </small>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                  {n.assignmentId && (
+                    <button type="button" className="button button--ghost" onClick={() => handleView(n)}>
+                      View
+                    </button>
+                  )}
+                  {!n.read && (
+                    <button type="button" className="button button--ghost" onClick={() => handleMarkRead(n)}>
+                      Mark read
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="button button--ghost"
+                    style={{ color: '#dc2626' }}
+                    onClick={() => handleDelete(n)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {pagination && pagination.totalPages > 1 && (
+            <div
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                marginTop: '1rem'
+              }}
+            >
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+              >
+                Previous
+              </button>
+              <span style={{ color: '#64748b' }}>
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.totalPages}
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationsPage;
@@ -0,0 +1,144 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { verifyApproval, ApprovalVerification } from '../services/api';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const statusStyles: Record<ApprovalVerification['status'], { color: string; label: string }> = {
+  VALID: { color: '#16a34a', label: 'Genuine approval' },
+  REVOKED: { color: '#b45309', label: 'Genuine, but revoked' },
+  INVALID: { color: '#dc2626', label: 'Could not be verified' }
+};
+
+const CheckRow = ({ label, ok }: { label: string; ok: boolean | null }) => (
+  <li style={{ display: 'flex', justifyContent: 'space-between', padding: '0.375rem 0', borderBottom: '1px solid #e2e8f0' }}>
+    <span>{label}</span>
+    <strong style={{ color: ok === null ? '#64748b' : ok ? '#16a34a' : '#dc2626' }}>
+      {ok === null ? 'Unknown' : ok ? 'Yes' : 'No'}
+    </strong>
+  </li>
+);
+
+const VerifyApprovalPage = () => {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(code ?? '');
+  const [result, setResult] = useState<ApprovalVerification | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!code) return;
+    let active = true;
+    setLoading(true);
+    setResult(null);
+    setError(null);
+    verifyApproval(code)
+      .then((res) => {
+        if (active) setResult(res.data);
+      })
+      .catch((err) => {
+        if (active) setError(getErrorMessage(err, 'Failed to verify the approval'));
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [code]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) navigate(`/verify/${input.trim()}`);
+  };
+
+  const status = result ? statusStyles[result.status] : null;
+
+  return (
+    <div className="login-page">
+      <div className="card" style={{ width: 'min(560px, 100%)', padding: '2rem' }}>
+        <h1 style={{ marginTop: 0, fontSize: '1.5rem' }}>Verify an approval</h1>
+        <p style={{ color: '#64748b' }}>
+          Enter the verification code printed on an approval to check it was signed by the reviewer named on it.
+        </p>
+
+        <form onSubmit={handleSubmit} style={{ display: 'flex', gap: '0.5rem', marginBottom: '1.5rem' }}>
+          <input
+            className="form__input"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Verification code"
+            style={{ fontFamily: 'monospace' }}
+          />
+          <button type="submit" className="button" disabled={loading || !input.trim()}>
+            Verify
+          </button>
+        </form>
+
+        {loading && <p>Checking signature...</p>}
+        {error && <div className="form__error">{error}</div>}
+
+        {result && status && (
+          <div>
+            <div
+              style={{
+                padding: '0.75rem 1rem',
+                borderRadius: '6px',
+                border: `1px solid ${status.color}`,
+                color: status.color,
+                fontWeight: 600,
+                marginBottom: '1rem'
+              }}
+            >
+              {status.label}
+            </div>
+
+            <p style={{ margin: '0 0 0.5rem' }}>
+              <strong>{result.approval.assignmentTitle}</strong> by {result.approval.studentName}
+              {result.approval.department ? ` (${result.approval.department})` : ''}
+            </p>
+            <p style={{ margin: '0 0 0.5rem' }}>
+              {result.approval.decision === 'APPROVED'
+                ? 'Approved'
+                : result.approval.stage != null
+                  ? `Stage ${result.approval.stage} approved`
+                  : 'Stage approved'}{' '}
+              by {result.approval.reviewer.name} ({result.approval.reviewer.role}) on{' '}
+              {new Date(result.approval.signedAt).toLocaleString()}
+            </p>
+            {result.revoked && (
+              <p style={{ margin: '0 0 0.5rem', color: '#b45309' }}>
+                Revoked on {new Date(result.revoked.revokedAt).toLocaleString()}
+                {result.revoked.reason ? `: ${result.revoked.reason}` : ''}
+              </p>
+            )}
+
+            <ul style={{ listStyle: 'none', padding: 0, margin: '1rem 0' }}>
+              <CheckRow label="Certificate issued by the university CA" ok={result.checks.certificate} />
+              <CheckRow label="Signature matches the reviewer's key" ok={result.checks.signature} />
+              <CheckRow label="Matches the approval record" ok={result.checks.matchesRecord} />
+              <CheckRow label="File unchanged since approval" ok={result.checks.fileUnchanged} />
+            </ul>
+
+            <div style={{ fontSize: '0.8125rem', color: '#64748b', wordBreak: 'break-all' }}>
+              <div>File SHA-256: {result.approval.fileChecksum}</div>
+              <div>
+                Certificate {result.certificate.serial} · {result.certificate.issuer} · valid until{' '}
+                {new Date(result.certificate.notAfter).toLocaleDateString()}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyApprovalPage;
@@ -4,6 +4,7 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { fetchDepartment, updateDepartment } from '../../services/api';
+import DepartmentSettingsCard from '../../components/departments/DepartmentSettingsCard';
 
 const departmentSchema = z.object({
   name: z.string().min(2, { message: 'Department name is required' }).max(120),
@@ -131,60 +132,64 @@ const EditDepartmentPage = () => {
   }
 
   return (
-    <div className="card">
-      <h2>Edit Department</h2>
-      <p>Update department details to keep information accurate.</p>
-
-      <form className="form" onSubmit={handleSubmit(onSubmit)} noValidate>
-        <div className="form__group">
-          <label className="form__label" htmlFor="name">
-            Department Name
-          </label>
-          <input
-            id="name"
-            type="text"
-            className="form__input"
-            placeholder="Department name"
-            {...register('name')}
-          />
-          {errors.name && <span className="form__error">{errors.name.message}</span>}
-        </div>
-
-        <div className="form__group">
-          <label className="form__label" htmlFor="type">
-            Program Type
-          </label>
-          <select id="type" className="form__select" {...register('type')}>
-            <option value="UG">Undergraduate (UG)</option>
-            <option value="PG">Postgraduate (PG)</option>
-            <option value="RESEARCH">Research</option>
-          </select>
-          {errors.type && <span className="form__error">{errors.type.message}</span>}
-        </div>
-
-        <div className="form__group">
-          <label className="form__label" htmlFor="address">
-            Address
-          </label>
-          <textarea
-            id="address"
-            rows={3}
-            className="form__textarea"
-            placeholder="Building, Campus, City"
-            {...register('address')}
-          />
-          {errors.address && <span className="form__error">{errors.address.message}</span>}
-        </div>
-
-        {serverMessage && <div className="form__success">{serverMessage}</div>}
-        {serverError && <div className="form__error">{serverError}</div>}
-
-        <div>
-          <button type="submit" className="button" disabled={isSubmitting}>
-            {isSubmitting ? 'Saving...' : 'Save Changes'}
-          </button>
-        </div>
-      </form>
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+      <div className="card">
+        <h2>Edit Department</h2>
+        <p>Update department details to keep information accurate.</p>
+
+        <form className="form" onSubmit={handleSubmit(onSubmit)} noValidate>
+          <div className="form__group">
+            <label className="form__label" htmlFor="name">
+              Department Name
+            </label>
+            <input
+              id="name"
+              type="text"
+              className="form__input"
+              placeholder="Department name"
+              {...register('name')}
+            />
+            {errors.name && <span className="form__error">{errors.name.message}</span>}
+          </div>
+
+          <div className="form__group">
+            <label className="form__label" htmlFor="type">
+              Program Type
+            </label>
+            <select id="type" className="form__select" {...register('type')}>
+              <option value="UG">Undergraduate (UG)</option>
+              <option value="PG">Postgraduate (PG)</option>
+              <option value="RESEARCH">Research</option>
+            </select>
+            {errors.type && <span className="form__error">{errors.type.message}</span>}
+          </div>
+
+          <div className="form__group">
+            <label className="form__label" htmlFor="address">
+              Address
+            </label>
+            <textarea
+              id="address"
+              rows={3}
+              className="form__textarea"
+              placeholder="Building, Campus, City"
+              {...register('address')}
+            />
+            {errors.address && <span className="form__error">{errors.address.message}</span>}
+          </div>
+
+          {serverMessage && <div className="form__success">{serverMessage}</div>}
+          {serverError && <div className="form__error">{serverError}</div>}
+
+          <div>
+            <button type="submit" className="button" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <DepartmentSettingsCard departmentId={Number(id)} />
     </div>
   );
 };
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  fetchHodDashboard,
+  takeOverAssignment,
+  HodDashboardResponse,
+  HodQueueAssignment
+} from '../../services/api';
+import AppointPanelDialog from '../../components/assignments/AppointPanelDialog';
+import ReviewerSignatureCard from '../../components/professor/ReviewerSignatureCard';
+
+const HodDashboardPage = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [dashboardData, setDashboardData] = useState<HodDashboardResponse['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [takingOverId, setTakingOverId] = useState<number | null>(null);
+  const [panelFor, setPanelFor] = useState<HodQueueAssignment | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+  const loadDashboard = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetchHodDashboard();
+      setDashboardData(response.data);
+    } catch (err) {
+      if (
+        typeof err === 'object' &&
+        err !== null &&
+        'response' in err &&
+        (err as { response?: { data?: { message?: string } } }).response?.data?.message
+      ) {
+        setError(
+          (err as { response?: { data?: { message?: string } } }).response?.data?.message ??
+            'Failed to load dashboard'
+        );
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('Failed to load dashboard');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDashboard();
+  }, []);
+
+  const handleTakeOver = async (assignmentId: number) => {
+    setActionError(null);
+    try {
+      setTakingOverId(assignmentId);
+      await takeOverAssignment(assignmentId);
+      navigate(`/professor/assignments/${assignmentId}/review`);
+    } catch (err) {
+      const msg =
+        typeof err === 'object' &&
+        err !== null &&
+        'response' in err &&
+        (err as { response?: { data?: { message?: string } } }).response?.data?.message
+          ? (err as { response?: { data?: { message?: string } } }).response?.data?.message
+          : 'Failed to take over assignment';
+      setActionError(String(msg));
+    } finally {
+      setTakingOverId(null);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—';
+    return new Date(dateString).toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  if (loading) return <div className="card">Loading dashboard...</div>;
+  if (error) return <div className="card form__error">{error}</div>;
+  if (!dashboardData) return null;
+
+  const { department, pendingCount, assignedToMe, reviewers, panel } = dashboardData;
+
+  return (
+    <div>
+      <div className="page__header" style={{ marginBottom: '2rem' }}>
+        <h1 className="page__title">Department Queue</h1>
+        <p className="page__subtitle">
+          Everything pending review{department ? ` in ${department.name}` : ''}, grouped by reviewer
+        </p>
+      </div>
+
+      <div className="grid grid--cols-3" style={{ marginBottom: '2rem' }}>
+        <div className="card stat-card">
+          <span className="stat-card__label">Pending in department</span>
+          <span className="stat-card__value">{pendingCount}</span>
+        </div>
+        <div className="card stat-card">
+          <span className="stat-card__label">Reviewers with work</span>
+          <span className="stat-card__value">{reviewers.length}</span>
+        </div>
+        <div className="card stat-card">
+          <span className="stat-card__label">Assigned to me</span>
+          <span className="stat-card__value">{assignedToMe}</span>
+        </div>
+      </div>
+
+      <ReviewerSignatureCard />
+
+      {actionMessage && (
+        <div className="card form__success" style={{ marginBottom: '1.5rem' }}>
+          {actionMessage}
+        </div>
+      )}
+
+      {actionError && (
+        <div className="card form__error" style={{ marginBottom: '1.5rem' }}>
+          {actionError}
+        </div>
+      )}
+
+      {reviewers.length === 0 ? (
+        <div className="card">
+          <p style={{ color: '#64748b', margin: 0 }}>No assignments pending review in your department.</p>
+        </div>
+      ) : (
+        reviewers.map((group) => (
+          <div className="card" key={group.reviewer?.id ?? 0}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+              <h2 style={{ margin: 0, fontSize: '1.125rem' }}>
+                {group.reviewer ? `${group.reviewer.name} (${group.reviewer.role})` : 'Unassigned'}
+              </h2>
+              <span className="chip">
+                {group.pendingCount} pending · oldest {group.oldestDaysPending} day{group.oldestDaysPending !== 1 ? 's' : ''}
+              </span>
+            </div>
+            <div className="table-wrapper">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Student name</th>
+                    <th>Title</th>
+                    <th>Submitted date</th>
+                    <th>Days pending</th>
+                    <th style={{ width: '180px' }}>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.assignments.map((a) => (
+                    <tr key={a.id}>
+                      <td>{a.studentName}</td>
+                      <td>
+                        {a.title}
+                        {a.approvalStage != null && (
+                          <small style={{ display: 'block', color: '#64748b' }}>Stage {a.approvalStage}</small>
+                        )}
+                        {(panel.categories as string[]).includes(a.category) && (
+                          <small style={{ display: 'block', color: a.panelSize ? '#64748b' : '#b45309' }}>
+                            {a.panelSize ? `Panel of ${a.panelSize}` : 'Needs a review panel'}
+                          </small>
+                        )}
+                      </td>
+                      <td>{formatDate(a.submittedAt)}</td>
+                      <td>
+                        <span
+                          style={{
+                            fontWeight: 600,
+                            color: a.daysPending > 7 ? '#dc2626' : a.daysPending > 3 ? '#ea580c' : '#0f172a'
+                          }}
+                        >
+                          {a.daysPending} day{a.daysPending !== 1 ? 's' : ''}
+                        </span>
+                      </td>
+                      <td>
+                        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                          {group.reviewer?.id === user?.id ? (
+                            <button
+                              type="button"
+                              className="button"
+                              onClick={() => navigate(`/professor/assignments/${a.id}/review`)}
+                            >
+                              Review
+                            </button>
+                          ) : (
+                            <button
+                              type="button"
+                              className="button"
+                              onClick={() => handleTakeOver(a.id)}
+                              disabled={takingOverId === a.id}
+                            >
+                              {takingOverId === a.id ? 'Taking over...' : 'Take over'}
+                            </button>
+                          )}
+                          {(panel.categories as string[]).includes(a.category) && (
+                            <button type="button" className="button button--ghost" onClick={() => setPanelFor(a)}>
+                              {a.panelSize ? 'Change panel' : 'Appoint panel'}
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))
+      )}
+
+      {panelFor && user && (
+        <AppointPanelDialog
+          assignment={panelFor}
+          minSize={panel.minSize}
+          self={user}
+          onClose={() => setPanelFor(null)}
+          onSaved={(message) => {
+            setPanelFor(null);
+            setActionMessage(message);
+            loadDashboard();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default HodDashboardPage;
@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import {
+  createBrief,
+  createCourse,
+  fetchCourses,
+  AssignmentCategory,
+  Course
+} from '../../services/api';
+
+const categoryOptions: Array<{ value: AssignmentCategory; label: string }> = [
+  { value: 'ASSIGNMENT', label: 'Assignment' },
+  { value: 'THESIS', label: 'Thesis' },
+  { value: 'REPORT', label: 'Report' }
+];
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const emptyBrief = {
+  title: '',
+  instructions: '',
+  dueDate: '',
+  allowedCategories: ['ASSIGNMENT'] as AssignmentCategory[]
+};
+
+const BriefForm = ({ courseId, onCreated }: { courseId: number; onCreated: () => Promise<void> }) => {
+  const [values, setValues] = useState(emptyBrief);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCategory = (category: AssignmentCategory) =>
+    setValues((prev) => ({
+      ...prev,
+      allowedCategories: prev.allowedCategories.includes(category)
+        ? prev.allowedCategories.filter((c) => c !== category)
+        : [...prev.allowedCategories, category]
+    }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      setSaving(true);
+      await createBrief(courseId, {
+        ...values,
+        dueDate: new Date(values.dueDate).toISOString()
+      });
+      setValues(emptyBrief);
+      await onCreated();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to publish brief'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="form" onSubmit={handleSubmit} style={{ marginTop: '1rem' }}>
+      <div className="form__group">
+        <label className="form__label">Title</label>
+        <input
+          type="text"
+          className="form__input"
+          value={values.title}
+          onChange={(e) => setValues({ ...values, title: e.target.value })}
+          placeholder="Lab report 2: Sorting algorithms"
+        />
+      </div>
+      <div className="form__group">
+        <label className="form__label">Instructions</label>
+        <textarea
+          className="form__input form__textarea"
+          value={values.instructions}
+          onChange={(e) => setValues({ ...values, instructions: e.target.value })}
+          rows={4}
+          placeholder="What students should hand in and how it will be assessed"
+        />
+      </div>
+      <div className="form__group">
+        <label className="form__label">Due date</label>
+        <input
+          type="datetime-local"
+          className="form__input"
+          value={values.dueDate}
+          onChange={(e) => setValues({ ...values, dueDate: e.target.value })}
+        />
+      </div>
+      <div className="form__group">
+        <label className="form__label">Allowed categories</label>
+        <div style={{ display: 'flex', gap: '1rem' }}>
+          {categoryOptions.map((option) => (
+            <label key={option.value} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              <input
+                type="checkbox"
+                checked={values.allowedCategories.includes(option.value)}
+                onChange={() => toggleCategory(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </div>
+      {error && <div className="form__error">{error}</div>}
+      <div className="form__actions">
+        <button
+          type="submit"
+          className="button"
+          disabled={
+            saving ||
+            !values.title.trim() ||
+            !values.instructions.trim() ||
+            !values.dueDate ||
+            values.allowedCategories.length === 0
+          }
+        >
+          {saving ? 'Publishing...' : 'Publish brief'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CoursesPage = () => {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [briefFormFor, setBriefFormFor] = useState<number | null>(null);
+
+  const loadCourses = async () => {
+    try {
+      setError(null);
+      const res = await fetchCourses();
+      setCourses(res.data.courses);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load courses'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCourses();
+  }, []);
+
+  const handleCreateCourse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreateError(null);
+    try {
+      setCreating(true);
+      await createCourse({ code, name });
+      setCode('');
+      setName('');
+      await loadCourses();
+    } catch (err) {
+      setCreateError(getErrorMessage(err, 'Failed to create course'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (loading) return <div className="card">Loading courses...</div>;
+
+  return (
+    <div>
+      <div className="page__header" style={{ marginBottom: '1.5rem' }}>
+        <h1 className="page__title">Courses &amp; Briefs</h1>
+        <p className="page__subtitle">Publish the assignment briefs students submit against</p>
+      </div>
+
+      {error && <div className="card form__error" style={{ marginBottom: '1.5rem' }}>{error}</div>}
+
+      <div className="card" style={{ marginBottom: '1.5rem' }}>
+        <h2 style={{ marginTop: 0, fontSize: '1.125rem' }}>New course</h2>
+        <form className="form" onSubmit={handleCreateCourse}>
+          <div style={{ display: 'grid', gridTemplateColumns: '160px minmax(0, 1fr)', gap: '1rem' }}>
+            <div className="form__group">
+              <label className="form__label">Code</label>
+              <input
+                type="text"
+                className="form__input"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="CS201"
+              />
+            </div>
+            <div className="form__group">
+              <label className="form__label">Name</label>
+              <input
+                type="text"
+                className="form__input"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Data Structures"
+              />
+            </div>
+          </div>
+          {createError && <div className="form__error">{createError}</div>}
+          <div className="form__actions">
+            <button type="submit" className="button" disabled={creating || !code.trim() || !name.trim()}>
+              {creating ? 'Creating...' : 'Create course'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {courses.length === 0 ? (
+        <div className="card">
+          <p style={{ color: '#64748b', margin: 0 }}>You have not created any courses yet.</p>
+        </div>
+      ) : (
+        courses.map((course) => (
+          <div className="card" key={course.id} style={{ marginBottom: '1.5rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+              <h2 style={{ margin: 0, fontSize: '1.125rem' }}>
+                {course.code} · {course.name}
+              </h2>
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={() => setBriefFormFor(briefFormFor === course.id ? null : course.id)}
+              >
+                {briefFormFor === course.id ? 'Cancel' : 'New brief'}
+              </button>
+            </div>
+
+            {course.briefs.length === 0 ? (
+              <p style={{ color: '#64748b' }}>No briefs published yet.</p>
+            ) : (
+              <div className="table-wrapper" style={{ marginTop: '1rem' }}>
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Brief</th>
+                      <th>Due</th>
+                      <th>Categories</th>
+                      <th>Submissions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {course.briefs.map((brief) => (
+                      <tr key={brief.id}>
+                        <td>
+                          <strong>{brief.title}</strong>
+                          <div style={{ fontSize: '0.8125rem', color: '#64748b', whiteSpace: 'pre-wrap' }}>
+                            {brief.instructions}
+                          </div>
+                        </td>
+                        <td>{new Date(brief.dueDate).toLocaleString()}</td>
+                        <td>{brief.allowedCategories.join(', ')}</td>
+                        <td>{brief.submissionCount}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {briefFormFor === course.id && (
+              <BriefForm
+                courseId={course.id}
+                onCreated={async () => {
+                  setBriefFormFor(null);
+                  await loadCourses();
+                }}
+              />
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default CoursesPage;
@@ -1,17 +1,19 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
+  fetchNotifications,
   fetchProfessorDashboard,
-  fetchProfessorNotifications,
-  markProfessorNotificationRead,
-  ProfessorDashboardResponse,
-  ProfessorNotificationsResponse
+  markNotificationRead,
+  AppNotification,
+  ProfessorDashboardResponse
 } from '../../services/api';
+import ReviewerAvailabilityCard from '../../components/professor/ReviewerAvailabilityCard';
+import ReviewerSignatureCard from '../../components/professor/ReviewerSignatureCard';
 
 const ProfessorDashboardPage = () => {
   const navigate = useNavigate();
   const [dashboardData, setDashboardData] = useState<ProfessorDashboardResponse['data'] | null>(null);
-  const [notifications, setNotifications] = useState<ProfessorNotificationsResponse['data']['notifications']>([]);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -21,7 +23,7 @@ const ProfessorDashboardPage = () => {
       setError(null);
       const [dashboardRes, notifRes] = await Promise.all([
         fetchProfessorDashboard(),
-        fetchProfessorNotifications()
+        fetchNotifications({ unread: true, pageSize: 20 })
       ]);
       setDashboardData(dashboardRes.data);
       setNotifications(notifRes.data.notifications);
@@ -52,7 +54,7 @@ const ProfessorDashboardPage = () => {
 
   const handleMarkNotificationRead = async (notificationId: number) => {
     try {
-      await markProfessorNotificationRead(notificationId);
+      await markNotificationRead(notificationId);
       setNotifications((prev) =>
         prev.map((n) => (n.id === notificationId ? { ...n, read: true } : n))
       );
@@ -77,7 +79,7 @@ const ProfessorDashboardPage = () => {
   if (error) return <div className="card form__error">{error}</div>;
   if (!dashboardData) return null;
 
-  const { pendingCount, assignments } = dashboardData;
+  const { pendingCount, assignments, groups } = dashboardData;
   const unreadCount = notifications.filter((n) => !n.read).length;
 
   return (
@@ -132,6 +134,10 @@ const ProfessorDashboardPage = () => {
         </div>
       </div>
 
+      <ReviewerAvailabilityCard />
+
+      <ReviewerSignatureCard />
+
       {notifications.length > 0 && (
         <div className="card" style={{ marginBottom: '2rem' }}>
           <h2 style={{ margin: '0 0 1rem', fontSize: '1.125rem' }}>Notifications</h2>
@@ -181,11 +187,24 @@ const ProfessorDashboardPage = () => {
         </div>
       )}
 
-      <div className="card">
-        <h2 style={{ margin: '0 0 1rem', fontSize: '1.125rem' }}>Assignments awaiting review</h2>
-        {assignments.length === 0 ? (
+      {assignments.length === 0 && (
+        <div className="card">
+          <h2 style={{ margin: '0 0 1rem', fontSize: '1.125rem' }}>Assignments awaiting review</h2>
           <p style={{ color: '#64748b', margin: 0 }}>No assignments pending review.</p>
-        ) : (
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <div className="card" key={group.brief?.id ?? 'no-brief'} style={{ marginBottom: '1.5rem' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '1rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+            <h2 style={{ margin: 0, fontSize: '1.125rem' }}>
+              {group.brief ? `${group.brief.course.code} · ${group.brief.title}` : 'Without a brief'}
+            </h2>
+            <span style={{ color: '#64748b', fontSize: '0.875rem' }}>
+              {group.brief && `Due ${formatDate(group.brief.dueDate)} · `}
+              {group.assignments.length} awaiting review
+            </span>
+          </div>
           <div className="table-wrapper">
             <table>
               <thead>
@@ -198,7 +217,7 @@ const ProfessorDashboardPage = () => {
                 </tr>
               </thead>
               <tbody>
-                {assignments.map((a) => (
+                {group.assignments.map((a) => (
                   <tr key={a.id}>
                     <td>{a.studentName}</td>
                     <td>{a.title}</td>
@@ -212,6 +231,23 @@ const ProfessorDashboardPage = () => {
                       >
                         {a.daysPending} day{a.daysPending !== 1 ? 's' : ''}
                       </span>
+                      {a.isLate && (
+                        <span
+                          className="badge"
+                          title={a.dueDate ? `Due ${new Date(a.dueDate).toLocaleString()}` : undefined}
+                          style={{
+                            marginLeft: '0.5rem',
+                            background: '#fee2e2',
+                            color: '#b91c1c',
+                            padding: '0.15rem 0.5rem',
+                            borderRadius: '9999px',
+                            fontSize: '0.75rem',
+                            fontWeight: 600
+                          }}
+                        >
+                          Late{a.latePenaltyPercent ? ` −${a.latePenaltyPercent}%` : ''}
+                        </span>
+                      )}
                     </td>
                     <td>
                       <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
@@ -236,8 +272,8 @@ const ProfessorDashboardPage = () => {
               </tbody>
             </table>
           </div>
-        )}
-      </div>
+        </div>
+      ))}
     </div>
   );
 };
@@ -1,34 +1,45 @@
-import { useEffect, useState, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
 import {
   fetchProfessorReviewAssignment,
   requestApproveOtp,
   verifyApprove,
   fetchAssignmentFileBlob,
   rejectProfessorAssignment,
+  requestAssignmentChanges,
   fetchForwardRecipients,
+  fetchReviewerSignature,
   forwardProfessorAssignment,
+  returnProfessorAssignment,
+  signatureImageSrc,
   ProfessorReviewAssignment,
-  ForwardRecipient
+  ForwardRecipient,
+  ReviewerSignature
 } from '../../services/api';
+import VersionTimeline from '../../components/assignments/VersionTimeline';
+import VersionCompare from '../../components/assignments/VersionCompare';
+import CommentThread from '../../components/assignments/CommentThread';
+import RubricScorecard from '../../components/assignments/RubricScorecard';
+import PanelReviewCard from '../../components/assignments/PanelReviewCard';
 
 type ApproveStep = 'idle' | 'signature' | 'otp_sent' | 'verifying' | 'success';
 
 const ReviewAssignmentPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [assignment, setAssignment] = useState<ProfessorReviewAssignment | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [remarks, setRemarks] = useState('');
   const [signature, setSignature] = useState('');
-  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [registeredSignature, setRegisteredSignature] = useState<ReviewerSignature | null>(null);
   const [approveStep, setApproveStep] = useState<ApproveStep>('idle');
   const [otp, setOtp] = useState('');
   const [approveError, setApproveError] = useState<string | null>(null);
   const [approveLoading, setApproveLoading] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const [rejectFeedback, setRejectFeedback] = useState('');
   const [showRejectConfirm, setShowRejectConfirm] = useState(false);
   const [rejectError, setRejectError] = useState<string | null>(null);
@@ -41,9 +52,31 @@ const ReviewAssignmentPage = () => {
   const [forwardLoading, setForwardLoading] = useState(false);
   const [forwardError, setForwardError] = useState<string | null>(null);
   const [forwardSuccess, setForwardSuccess] = useState(false);
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [returnToId, setReturnToId] = useState<number | ''>('');
+  const [returnNote, setReturnNote] = useState('');
+  const [returnLoading, setReturnLoading] = useState(false);
+  const [returnError, setReturnError] = useState<string | null>(null);
+  const [returnSuccess, setReturnSuccess] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [changeItems, setChangeItems] = useState<string[]>(['']);
+  const [changesLoading, setChangesLoading] = useState(false);
+  const [changesError, setChangesError] = useState<string | null>(null);
+  const [changesSuccess, setChangesSuccess] = useState(false);
+  const [voteMessage, setVoteMessage] = useState<string | null>(null);
+  const isHod = user?.role === 'HOD';
+  const dashboardPath = isHod ? '/hod/dashboard' : '/professor/dashboard';
 
   const assignmentId = id ? parseInt(id, 10) : NaN;
 
+  // The drawn signature from the reviewer's dashboard goes on the approval automatically
+  useEffect(() => {
+    if (approveStep !== 'signature') return;
+    fetchReviewerSignature()
+      .then((res) => setRegisteredSignature(res.data.signature))
+      .catch(() => setRegisteredSignature(null));
+  }, [approveStep]);
+
   useEffect(() => {
     if (!id || isNaN(assignmentId)) return;
     let objectUrl: string | null = null;
@@ -103,9 +136,9 @@ const ReviewAssignmentPage = () => {
   const handleRequestOtp = async () => {
     if (isNaN(assignmentId)) return;
     setApproveError(null);
-    const sig = signature.trim() || (signatureImage || undefined);
-    if (!sig) {
-      setApproveError('Please enter your signature or upload an image.');
+    const sig = signature.trim() || undefined;
+    if (!sig && !registeredSignature) {
+      setApproveError('Please enter your signature or register a drawn one on your dashboard.');
       return;
     }
     try {
@@ -135,7 +168,7 @@ const ReviewAssignmentPage = () => {
       return;
     }
     setApproveError(null);
-    const sig = signature.trim() || (signatureImage || undefined);
+    const sig = signature.trim() || undefined;
     try {
       setApproveLoading(true);
       await verifyApprove(assignmentId, {
@@ -144,7 +177,7 @@ const ReviewAssignmentPage = () => {
         signature: sig || undefined
       });
       setApproveStep('success');
-      setTimeout(() => navigate('/professor/dashboard'), 2000);
+      setTimeout(() => navigate(dashboardPath), 2000);
     } catch (err) {
       const msg =
         typeof err === 'object' &&
@@ -159,15 +192,6 @@ const ReviewAssignmentPage = () => {
     }
   };
 
-  const handleSignatureFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = () => setSignatureImage(reader.result as string);
-    reader.readAsDataURL(file);
-    e.target.value = '';
-  };
-
   const handleRejectClick = () => {
     setRejectError(null);
     if (rejectFeedback.trim().length < 10) {
@@ -185,7 +209,7 @@ const ReviewAssignmentPage = () => {
       await rejectProfessorAssignment(assignmentId, { remark: rejectFeedback.trim() });
       setRejectSuccess(true);
       setShowRejectConfirm(false);
-      setTimeout(() => navigate('/professor/dashboard'), 2000);
+      setTimeout(() => navigate(dashboardPath), 2000);
     } catch (err) {
       const msg =
         typeof err === 'object' &&
@@ -200,6 +224,35 @@ const ReviewAssignmentPage = () => {
     }
   };
 
+  const handleRequestChanges = async () => {
+    const items = changeItems.map((item) => item.trim()).filter(Boolean);
+    if (isNaN(assignmentId) || items.length === 0) {
+      setChangesError('Add at least one change the student needs to make.');
+      return;
+    }
+    setChangesError(null);
+    try {
+      setChangesLoading(true);
+      await requestAssignmentChanges(assignmentId, {
+        remark: remarks.trim() || undefined,
+        items
+      });
+      setChangesSuccess(true);
+      setTimeout(() => navigate(dashboardPath), 2000);
+    } catch (err) {
+      const msg =
+        typeof err === 'object' &&
+        err !== null &&
+        'response' in err &&
+        (err as { response?: { data?: { message?: string } } }).response?.data?.message
+          ? (err as { response?: { data?: { message?: string } } }).response?.data?.message
+          : 'Failed to request changes';
+      setChangesError(String(msg));
+    } finally {
+      setChangesLoading(false);
+    }
+  };
+
   const handleForwardClick = async () => {
     setForwardError(null);
     setSelectedRecipientId('');
@@ -234,7 +287,7 @@ const ReviewAssignmentPage = () => {
       });
       setForwardSuccess(true);
       setShowForwardModal(false);
-      setTimeout(() => navigate('/professor/dashboard'), 2000);
+      setTimeout(() => navigate(dashboardPath), 2000);
     } catch (err) {
       const msg =
         typeof err === 'object' &&
@@ -249,6 +302,55 @@ const ReviewAssignmentPage = () => {
     }
   };
 
+  const handleReturnClick = async () => {
+    setReturnError(null);
+    setReturnToId('');
+    setReturnNote('');
+    setShowReturnModal(true);
+    try {
+      const res = await fetchForwardRecipients();
+      setForwardRecipients(res.data.recipients);
+    } catch (err) {
+      const msg =
+        typeof err === 'object' &&
+        err !== null &&
+        'response' in err &&
+        (err as { response?: { data?: { message?: string } } }).response?.data?.message
+          ? (err as { response?: { data?: { message?: string } } }).response?.data?.message
+          : 'Failed to load recipients';
+      setReturnError(String(msg));
+    }
+  };
+
+  const handleConfirmReturn = async () => {
+    if (isNaN(assignmentId) || !returnNote.trim()) {
+      setReturnError('Please explain why the assignment is being sent back.');
+      return;
+    }
+    setReturnError(null);
+    try {
+      setReturnLoading(true);
+      await returnProfessorAssignment(assignmentId, {
+        note: returnNote.trim(),
+        returnToId: returnToId === '' ? undefined : Number(returnToId)
+      });
+      setReturnSuccess(true);
+      setShowReturnModal(false);
+      setTimeout(() => navigate(dashboardPath), 2000);
+    } catch (err) {
+      const msg =
+        typeof err === 'object' &&
+        err !== null &&
+        'response' in err &&
+        (err as { response?: { data?: { message?: string } } }).response?.data?.message
+          ? (err as { response?: { data?: { message?: string } } }).response?.data?.message
+          : 'Failed to send assignment back';
+      setReturnError(String(msg));
+    } finally {
+      setReturnLoading(false);
+    }
+  };
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return '—';
     return new Date(dateString).toLocaleString();
@@ -261,6 +363,11 @@ const ReviewAssignmentPage = () => {
   if (error) return <div className="card form__error">{error}</div>;
   if (!assignment) return null;
 
+  // While a panel vote is undecided nobody approves or rejects alone, and members who do not chair only vote
+  const decidesAlone =
+    assignment.reviewer?.id === user?.id &&
+    !(assignment.panel && (assignment.panel.open || assignment.panel.awaitingPanel));
+
   return (
     <div>
       <div className="page__header" style={{ marginBottom: '1.5rem' }}>
@@ -270,17 +377,37 @@ const ReviewAssignmentPage = () => {
             <p className="page__subtitle">{assignment.title}</p>
           </div>
           <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            {assignment.versionCount >= 2 && !compareMode && (
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={() => setCompareMode(true)}
+              >
+                Compare versions
+              </button>
+            )}
+            {assignment.allowedActions.includes('FORWARD') && (
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={handleForwardClick}
+              >
+                Forward
+              </button>
+            )}
+            {assignment.allowedActions.includes('RETURN') && (
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={handleReturnClick}
+              >
+                Send back
+              </button>
+            )}
             <button
               type="button"
               className="button button--ghost"
-              onClick={handleForwardClick}
-            >
-              Forward
-            </button>
-            <button
-              type="button"
-              className="button button--ghost"
-              onClick={() => navigate('/professor/dashboard')}
+              onClick={() => navigate(dashboardPath)}
             >
               Back to dashboard
             </button>
@@ -288,12 +415,35 @@ const ReviewAssignmentPage = () => {
         </div>
       </div>
 
+      {compareMode && (
+        <VersionCompare assignmentId={assignment.id} onClose={() => setCompareMode(false)} />
+      )}
+
       <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 1fr)', gap: '1.5rem', marginBottom: '1.5rem' }} className="review-grid">
         <div className="card">
           <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>Assignment details</h2>
           <p><strong>Student:</strong> {assignment.student.name} ({assignment.student.email})</p>
+          {assignment.members.length > 0 && (
+            <p>
+              <strong>Team:</strong> {assignment.members.map((m) => `${m.name} (${m.email})`).join(', ')}
+            </p>
+          )}
+          {assignment.brief && (
+            <p>
+              <strong>Brief:</strong> {assignment.brief.course.code} · {assignment.brief.title} (due{' '}
+              {new Date(assignment.brief.dueDate).toLocaleString()})
+            </p>
+          )}
           <p><strong>Category:</strong> {getCategoryLabel(assignment.category)}</p>
-          <p><strong>Submitted:</strong> {formatDate(assignment.submittedAt)}</p>
+          <p>
+            <strong>Submitted:</strong> {formatDate(assignment.submittedAt)}
+            {assignment.isLate && (
+              <span style={{ color: '#b91c1c', fontWeight: 600, marginLeft: '0.5rem' }}>
+                Late{assignment.latePenaltyPercent ? ` (−${assignment.latePenaltyPercent}% penalty)` : ''}
+              </span>
+            )}
+          </p>
+          {assignment.dueDate && <p><strong>Due:</strong> {formatDate(assignment.dueDate)}</p>}
           {assignment.description && (
             <p><strong>Description:</strong><br /><span style={{ whiteSpace: 'pre-wrap' }}>{assignment.description}</span></p>
           )}
@@ -325,61 +475,168 @@ const ReviewAssignmentPage = () => {
         </div>
       </div>
 
-      <div className="card" style={{ marginBottom: '1.5rem' }}>
-        <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>Remarks (optional)</h2>
-        <textarea
-          value={remarks}
-          onChange={(e) => setRemarks(e.target.value)}
-          placeholder="Add any remarks for the student or for records..."
-          rows={3}
-          style={{
-            width: '100%',
-            padding: '0.75rem',
-            borderRadius: '8px',
-            border: '1px solid #e2e8f0',
-            fontFamily: 'inherit'
+      <VersionTimeline assignmentId={assignment.id} />
+
+      <CommentThread assignmentId={assignment.id} scope="professor" />
+
+      {voteMessage && (
+        <div className="card" style={{ marginBottom: '1.5rem', backgroundColor: '#ecfdf5', borderColor: '#10b981' }}>
+          <p style={{ margin: 0, color: '#047857', fontWeight: 600 }}>{voteMessage} Redirecting to dashboard...</p>
+        </div>
+      )}
+
+      {assignment.panel && !voteMessage && (
+        <PanelReviewCard
+          panel={assignment.panel}
+          assignmentId={assignment.id}
+          voterId={user?.id}
+          onVoted={(message) => {
+            setVoteMessage(message);
+            setTimeout(() => navigate(dashboardPath), 2000);
           }}
         />
-      </div>
+      )}
 
-      <div className="card" style={{ marginBottom: '1.5rem' }}>
-        <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>Reject assignment</h2>
-        {rejectSuccess ? (
-          <p style={{ color: 'green', fontWeight: 600 }}>Assignment rejected. The student has been notified. Redirecting...</p>
-        ) : (
-          <>
-            <p style={{ marginBottom: '1rem' }}>Provide feedback for the student (required, at least 10 characters). They will see this and can resubmit after making improvements.</p>
-            <textarea
-              value={rejectFeedback}
-              onChange={(e) => { setRejectFeedback(e.target.value); setRejectError(null); }}
-              placeholder="Explain what needs to be improved..."
-              rows={4}
-              minLength={10}
-              required
-              style={{
-                width: '100%',
-                padding: '0.75rem',
-                borderRadius: '8px',
-                border: '1px solid #e2e8f0',
-                fontFamily: 'inherit'
-              }}
-            />
-            <p style={{ fontSize: '0.875rem', color: '#64748b', marginTop: '0.25rem' }}>
-              {rejectFeedback.length} characters (minimum 10)
-            </p>
-            {rejectError && <p style={{ color: '#dc2626', marginTop: '0.5rem' }}>{rejectError}</p>}
-            <button
-              type="button"
-              className="button"
-              style={{ marginTop: '1rem', backgroundColor: '#dc2626' }}
-              onClick={handleRejectClick}
-              disabled={rejectLoading || rejectFeedback.trim().length < 10}
-            >
-              Reject assignment
-            </button>
-          </>
-        )}
-      </div>
+      {(decidesAlone || assignment.allowedActions.includes('REQUEST_CHANGES')) && (
+        <div className="card" style={{ marginBottom: '1.5rem' }}>
+          <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>Remarks (optional)</h2>
+          <textarea
+            value={remarks}
+            onChange={(e) => setRemarks(e.target.value)}
+            placeholder="Add any remarks for the student or for records..."
+            rows={3}
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              borderRadius: '8px',
+              border: '1px solid #e2e8f0',
+              fontFamily: 'inherit'
+            }}
+          />
+        </div>
+      )}
+
+      {assignment.changeRequest && (
+        <div className="card" style={{ marginBottom: '1.5rem' }}>
+          <h2 style={{ marginTop: 0, marginBottom: '0.5rem' }}>Previously requested changes</h2>
+          <p style={{ marginTop: 0, fontSize: '0.875rem', color: '#64748b' }}>
+            Requested by {assignment.changeRequest.requestedBy.name} on {formatDate(assignment.changeRequest.requestedAt)}
+          </p>
+          <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+            {assignment.changeRequest.items.map((item) => (
+              <li key={item.id} style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.375rem' }}>
+                <span style={{ color: item.resolvedAt ? '#16a34a' : '#94a3b8' }}>
+                  {item.resolvedAt ? '✓' : '○'}
+                </span>
+                <span>{item.description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {assignment.allowedActions.includes('REQUEST_CHANGES') && (
+        <div className="card" style={{ marginBottom: '1.5rem' }}>
+          <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>Request changes</h2>
+          {changesSuccess ? (
+            <p style={{ color: 'green', fontWeight: 600 }}>Changes requested. The student has been notified. Redirecting...</p>
+          ) : (
+            <>
+              <p style={{ marginBottom: '1rem' }}>
+                For smaller fixes: list what needs to change. The assignment stays with you and comes straight back once
+                the student resubmits. Remarks above are included as a note.
+              </p>
+              {changeItems.map((item, index) => (
+                <div key={index} style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                  <input
+                    type="text"
+                    className="form__input"
+                    value={item}
+                    onChange={(e) => {
+                      const next = [...changeItems];
+                      next[index] = e.target.value;
+                      setChangeItems(next);
+                      setChangesError(null);
+                    }}
+                    placeholder={`Change ${index + 1}`}
+                    style={{ flex: 1 }}
+                  />
+                  {changeItems.length > 1 && (
+                    <button
+                      type="button"
+                      className="button button--ghost"
+                      onClick={() => setChangeItems(changeItems.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+              <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+                <button
+                  type="button"
+                  className="button button--ghost"
+                  onClick={() => setChangeItems([...changeItems, ''])}
+                  disabled={changeItems.length >= 20}
+                >
+                  Add item
+                </button>
+                <button
+                  type="button"
+                  className="button"
+                  style={{ backgroundColor: '#d97706' }}
+                  onClick={handleRequestChanges}
+                  disabled={changesLoading || changeItems.every((item) => !item.trim())}
+                >
+                  {changesLoading ? 'Sending...' : 'Request changes'}
+                </button>
+              </div>
+              {changesError && <p style={{ color: '#dc2626', marginTop: '0.5rem' }}>{changesError}</p>}
+            </>
+          )}
+        </div>
+      )}
+
+      {decidesAlone && (
+        <div className="card" style={{ marginBottom: '1.5rem' }}>
+          <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>Reject assignment</h2>
+          {rejectSuccess ? (
+            <p style={{ color: 'green', fontWeight: 600 }}>Assignment rejected. The student has been notified. Redirecting...</p>
+          ) : (
+            <>
+              <p style={{ marginBottom: '1rem' }}>Provide feedback for the student (required, at least 10 characters). They will see this and can resubmit after making improvements.</p>
+              <textarea
+                value={rejectFeedback}
+                onChange={(e) => { setRejectFeedback(e.target.value); setRejectError(null); }}
+                placeholder="Explain what needs to be improved..."
+                rows={4}
+                minLength={10}
+                required
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  borderRadius: '8px',
+                  border: '1px solid #e2e8f0',
+                  fontFamily: 'inherit'
+                }}
+              />
+              <p style={{ fontSize: '0.875rem', color: '#64748b', marginTop: '0.25rem' }}>
+                {rejectFeedback.length} characters (minimum 10)
+              </p>
+              {rejectError && <p style={{ color: '#dc2626', marginTop: '0.5rem' }}>{rejectError}</p>}
+              <button
+                type="button"
+                className="button"
+                style={{ marginTop: '1rem', backgroundColor: '#dc2626' }}
+                onClick={handleRejectClick}
+                disabled={rejectLoading || rejectFeedback.trim().length < 10}
+              >
+                Reject assignment
+              </button>
+            </>
+          )}
+        </div>
+      )}
 
       {showRejectConfirm && (
         <div
@@ -499,122 +756,218 @@ const ReviewAssignmentPage = () => {
         </div>
       )}
 
-      {forwardSuccess && (
-        <div className="card" style={{ marginBottom: '1.5rem', backgroundColor: '#ecfdf5', borderColor: '#10b981' }}>
-          <p style={{ margin: 0, color: '#047857', fontWeight: 600 }}>Assignment forwarded. The new reviewer has been notified. Redirecting to dashboard...</p>
-        </div>
-      )}
-
-      <div className="card">
-        <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>Approve assignment</h2>
-
-        {approveStep === 'success' && (
-          <p style={{ color: 'green', fontWeight: 600 }}>Assignment approved. Redirecting to dashboard...</p>
-        )}
-
-        {approveStep === 'signature' && (
-          <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', maxWidth: '400px' }}>
-            <p>Enter your digital signature (text) or upload an image, then request an OTP to approve.</p>
-            <div>
-              <label className="form__label">Signature (text)</label>
-              <input
-                type="text"
-                value={signature}
-                onChange={(e) => setSignature(e.target.value)}
-                placeholder="Your full name or signature text"
+      {showReturnModal && (
+        <div
+          style={{
+            position: 'fixed',
+            inset: 0,
+            background: 'rgba(0,0,0,0.5)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 1000
+          }}
+          onClick={() => !returnLoading && setShowReturnModal(false)}
+        >
+          <div
+            className="card"
+            style={{ maxWidth: '440px', margin: '1rem', width: '100%' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 style={{ marginTop: 0 }}>Send assignment back</h3>
+            <p style={{ marginBottom: '1rem' }}>Return this assignment to a professor for further review. By default it goes back to whoever sent it to you.</p>
+            <div style={{ marginBottom: '1rem' }}>
+              <label className="form__label">Send back to</label>
+              <select
+                value={returnToId}
+                onChange={(e) => setReturnToId(e.target.value === '' ? '' : Number(e.target.value))}
                 className="form__input"
-              />
+                style={{ width: '100%' }}
+              >
+                <option value="">Previous reviewer</option>
+                {forwardRecipients.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.name} ({r.email}) – {r.role}
+                  </option>
+                ))}
+              </select>
             </div>
-            <div>
-              <label className="form__label">Or upload signature image</label>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/*"
-                onChange={handleSignatureFileChange}
-                style={{ display: 'block', marginTop: '0.25rem' }}
+            <div style={{ marginBottom: '1rem' }}>
+              <label className="form__label">Note (required)</label>
+              <textarea
+                value={returnNote}
+                onChange={(e) => setReturnNote(e.target.value)}
+                placeholder="Explain what still needs attention..."
+                rows={3}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  borderRadius: '8px',
+                  border: '1px solid #e2e8f0',
+                  fontFamily: 'inherit'
+                }}
               />
-              {signatureImage && (
-                <div style={{ marginTop: '0.5rem' }}>
-                  <img src={signatureImage} alt="Signature" style={{ maxHeight: 80, border: '1px solid #e2e8f0', borderRadius: 4 }} />
-                  <button
-                    type="button"
-                    className="button button--ghost"
-                    style={{ marginLeft: '0.5rem' }}
-                    onClick={() => setSignatureImage(null)}
-                  >
-                    Remove
-                  </button>
-                </div>
-              )}
             </div>
-            {approveError && <p style={{ color: '#dc2626' }}>{approveError}</p>}
-            <div style={{ display: 'flex', gap: '0.5rem' }}>
+            {returnError && <p style={{ color: '#dc2626', marginBottom: '0.5rem' }}>{returnError}</p>}
+            <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
               <button
                 type="button"
-                className="button"
-                onClick={handleRequestOtp}
-                disabled={approveLoading || (!signature.trim() && !signatureImage)}
+                className="button button--ghost"
+                onClick={() => setShowReturnModal(false)}
+                disabled={returnLoading}
               >
-                {approveLoading ? 'Sending...' : 'Send OTP to my email'}
+                Cancel
               </button>
               <button
                 type="button"
-                className="button button--ghost"
-                onClick={() => { setApproveStep('idle'); setApproveError(null); }}
+                className="button"
+                onClick={handleConfirmReturn}
+                disabled={returnLoading || !returnNote.trim()}
               >
-                Cancel
+                {returnLoading ? 'Sending...' : 'Send back'}
               </button>
             </div>
           </div>
-        )}
+        </div>
+      )}
 
-        {approveStep === 'otp_sent' && (
-          <div style={{ maxWidth: '400px' }}>
-            <p style={{ marginBottom: '1rem' }}>OTP has been sent to your email. Enter it below to complete approval.</p>
-            <div style={{ marginBottom: '1rem' }}>
-              <label className="form__label">OTP</label>
-              <input
-                type="text"
-                value={otp}
-                onChange={(e) => setOtp(e.target.value.replace(/\D/g, '').slice(0, 6))}
-                placeholder="6-digit code"
-                maxLength={6}
-                className="form__input"
-                style={{ width: '120px', letterSpacing: '0.5em', fontSize: '1.25rem' }}
-              />
+      {returnSuccess && (
+        <div className="card" style={{ marginBottom: '1.5rem', backgroundColor: '#ecfdf5', borderColor: '#10b981' }}>
+          <p style={{ margin: 0, color: '#047857', fontWeight: 600 }}>Assignment sent back. The professor has been notified. Redirecting to dashboard...</p>
+        </div>
+      )}
+
+      {forwardSuccess && (
+        <div className="card" style={{ marginBottom: '1.5rem', backgroundColor: '#ecfdf5', borderColor: '#10b981' }}>
+          <p style={{ margin: 0, color: '#047857', fontWeight: 600 }}>Assignment forwarded. The new reviewer has been notified. Redirecting to dashboard...</p>
+        </div>
+      )}
+
+      {assignment.grading && (
+        <RubricScorecard
+          grading={assignment.grading}
+          assignmentId={assignment.id}
+          onSaved={(grading) => setAssignment({ ...assignment, grading })}
+        />
+      )}
+
+      {decidesAlone && (
+        <div className="card">
+          <h2 style={{ marginTop: 0, marginBottom: '1rem' }}>Approve assignment</h2>
+
+          {approveStep === 'success' && (
+            <p style={{ color: 'green', fontWeight: 600 }}>Assignment approved. Redirecting to dashboard...</p>
+          )}
+
+          {approveStep === 'signature' && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', maxWidth: '400px' }}>
+              <p>Enter your digital signature (text), then request an OTP to approve.</p>
+              <div>
+                <label className="form__label">Signature (text)</label>
+                <input
+                  type="text"
+                  value={signature}
+                  onChange={(e) => setSignature(e.target.value)}
+                  placeholder="Your full name or signature text"
+                  className="form__input"
+                />
+              </div>
+              <div>
+                <label className="form__label">Drawn signature</label>
+                {registeredSignature ? (
+                  <div style={{ marginTop: '0.25rem' }}>
+                    <img
+                      src={signatureImageSrc(registeredSignature.url)}
+                      alt="Your signature"
+                      style={{ maxHeight: 80, maxWidth: '100%', border: '1px solid #e2e8f0', borderRadius: 4 }}
+                    />
+                    <p style={{ margin: '0.25rem 0 0', fontSize: '0.875rem', color: '#64748b' }}>
+                      Attached to this approval and shown on its certificate.
+                    </p>
+                  </div>
+                ) : (
+                  <p style={{ margin: '0.25rem 0 0', fontSize: '0.875rem', color: '#64748b' }}>
+                    None registered. <Link to={dashboardPath}>Draw one on your dashboard</Link> to attach it to your
+                    approvals.
+                  </p>
+                )}
+              </div>
+              {approveError && <p style={{ color: '#dc2626' }}>{approveError}</p>}
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button
+                  type="button"
+                  className="button"
+                  onClick={handleRequestOtp}
+                  disabled={approveLoading || (!signature.trim() && !registeredSignature)}
+                >
+                  {approveLoading ? 'Sending...' : 'Send OTP to my email'}
+                </button>
+                <button
+                  type="button"
+                  className="button button--ghost"
+                  onClick={() => { setApproveStep('idle'); setApproveError(null); }}
+                >
+                  Cancel
+                </button>
+              </div>
             </div>
-            {approveError && <p style={{ color: '#dc2626', marginBottom: '0.5rem' }}>{approveError}</p>}
-            <div style={{ display: 'flex', gap: '0.5rem' }}>
+          )}
+
+          {approveStep === 'otp_sent' && (
+            <div style={{ maxWidth: '400px' }}>
+              <p style={{ marginBottom: '1rem' }}>OTP has been sent to your email. Enter it below to complete approval.</p>
+              <div style={{ marginBottom: '1rem' }}>
+                <label className="form__label">OTP</label>
+                <input
+                  type="text"
+                  value={otp}
+                  onChange={(e) => setOtp(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  placeholder="6-digit code"
+                  maxLength={6}
+                  className="form__input"
+                  style={{ width: '120px', letterSpacing: '0.5em', fontSize: '1.25rem' }}
+                />
+              </div>
+              {approveError && <p style={{ color: '#dc2626', marginBottom: '0.5rem' }}>{approveError}</p>}
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button
+                  type="button"
+                  className="button"
+                  onClick={handleVerify}
+                  disabled={approveLoading || otp.length !== 6}
+                >
+                  {approveLoading ? 'Verifying...' : 'Verify and approve'}
+                </button>
+                <button
+                  type="button"
+                  className="button button--ghost"
+                  onClick={() => { setApproveStep('signature'); setOtp(''); setApproveError(null); }}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {approveStep === 'idle' && (
+            <>
+              {assignment.grading && !assignment.grading.grade.complete && (
+                <p style={{ marginTop: 0, color: '#64748b' }}>
+                  Score every rubric criterion above before approving.
+                </p>
+              )}
               <button
                 type="button"
                 className="button"
-                onClick={handleVerify}
-                disabled={approveLoading || otp.length !== 6}
+                onClick={() => setApproveStep('signature')}
+                disabled={!!assignment.grading && !assignment.grading.grade.complete}
               >
-                {approveLoading ? 'Verifying...' : 'Verify and approve'}
+                Approve assignment
               </button>
-              <button
-                type="button"
-                className="button button--ghost"
-                onClick={() => { setApproveStep('signature'); setOtp(''); setApproveError(null); }}
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
-        )}
-
-        {approveStep === 'idle' && (
-          <button
-            type="button"
-            className="button"
-            onClick={() => setApproveStep('signature')}
-          >
-            Approve assignment
-          </button>
-        )}
-      </div>
+            </>
+          )}
+        </div>
+      )}
 
     </div>
   );
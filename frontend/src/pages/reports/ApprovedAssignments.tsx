@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  fetchAllDepartments,
+  fetchApprovedAssignments,
+  ApprovedAssignment,
+  DepartmentListResponse
+} from '../../services/api';
+import RevokeApprovalDialog from '../../components/assignments/RevokeApprovalDialog';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const formatDate = (value: string | null | undefined) => (value ? new Date(value).toLocaleString() : '—');
+
+const ApprovedAssignmentsPage = () => {
+  const { user } = useAuth();
+  const role = user?.role ?? '';
+  const isAdmin = role === 'ADMIN';
+  const [departments, setDepartments] = useState<DepartmentListResponse['data']['items']>([]);
+  const [departmentId, setDepartmentId] = useState('');
+  const [assignments, setAssignments] = useState<ApprovedAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [toRevoke, setToRevoke] = useState<ApprovedAssignment | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    fetchAllDepartments()
+      .then((res) => setDepartments(res.data.items))
+      .catch(() => setDepartments([]));
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (!role) return;
+    let active = true;
+    setLoading(true);
+    fetchApprovedAssignments(role, departmentId ? Number(departmentId) : undefined)
+      .then((res) => {
+        if (!active) return;
+        setAssignments(res.data.assignments);
+        setError(null);
+      })
+      .catch((err) => {
+        if (active) setError(getErrorMessage(err, 'Failed to load approved assignments'));
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [role, departmentId, reloadKey]);
+
+  return (
+    <div>
+      <div className="page__header" style={{ marginBottom: '1.5rem' }}>
+        <h1 className="page__title">Approved Assignments</h1>
+        <p className="page__subtitle">
+          Final approvals{isAdmin ? '' : ' in your department'}. Revoke one that was made by mistake or involves misconduct.
+        </p>
+      </div>
+
+      {isAdmin && (
+        <div className="card" style={{ marginBottom: '1.5rem' }}>
+          <select
+            className="form__select"
+            value={departmentId}
+            onChange={(e) => setDepartmentId(e.target.value)}
+            style={{ maxWidth: '280px' }}
+          >
+            <option value="">All departments</option>
+            {departments.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {message && <div className="card form__success" style={{ marginBottom: '1.5rem' }}>{message}</div>}
+      {error && <div className="card form__error" style={{ marginBottom: '1.5rem' }}>{error}</div>}
+
+      {loading ? (
+        <div className="card">Loading approved assignments...</div>
+      ) : assignments.length === 0 ? (
+        <div className="card">
+          <p style={{ color: '#64748b', margin: 0 }}>No approved assignments.</p>
+        </div>
+      ) : (
+        <div className="card">
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Assignment</th>
+                  <th>Department</th>
+                  <th>Approved by</th>
+                  <th>Approved</th>
+                  <th style={{ width: '160px' }}>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {assignments.map((a) => (
+                  <tr key={a.id}>
+                    <td>
+                      <strong>{a.title}</strong>
+                      <div style={{ fontSize: '0.8125rem', color: '#64748b' }}>{a.student.name}</div>
+                    </td>
+                    <td>{a.student.department?.name ?? '—'}</td>
+                    <td>{a.approval?.reviewer?.name ?? a.approval?.signature ?? '—'}</td>
+                    <td>{formatDate(a.approval?.createdAt)}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="button button--ghost"
+                        style={{ color: '#dc2626' }}
+                        onClick={() => {
+                          setMessage(null);
+                          setToRevoke(a);
+                        }}
+                      >
+                        Revoke approval
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {toRevoke && (
+        <RevokeApprovalDialog
+          assignment={toRevoke}
+          role={role}
+          onClose={() => setToRevoke(null)}
+          onRevoked={(msg) => {
+            setToRevoke(null);
+            setMessage(msg);
+            setReloadKey((key) => key + 1);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ApprovedAssignmentsPage;
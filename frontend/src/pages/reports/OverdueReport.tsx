@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import {
+  fetchAllDepartments,
+  fetchOverdueReport,
+  DepartmentListResponse,
+  OverdueReportResponse
+} from '../../services/api';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  typeof err === 'object' &&
+  err !== null &&
+  'response' in err &&
+  (err as { response?: { data?: { message?: string } } }).response?.data?.message
+    ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+    : fallback;
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const OverdueReportPage = () => {
+  const [departments, setDepartments] = useState<DepartmentListResponse['data']['items']>([]);
+  const [departmentId, setDepartmentId] = useState('');
+  const [report, setReport] = useState<OverdueReportResponse['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAllDepartments()
+      .then((res) => setDepartments(res.data.items))
+      .catch(() => setDepartments([]));
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    fetchOverdueReport(departmentId ? Number(departmentId) : undefined)
+      .then((res) => {
+        if (!active) return;
+        setReport(res.data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (active) setError(getErrorMessage(err, 'Failed to load overdue report'));
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [departmentId]);
+
+  return (
+    <div>
+      <div className="page__header" style={{ marginBottom: '1.5rem' }}>
+        <h1 className="page__title">Overdue Reviews</h1>
+        <p className="page__subtitle">Assignments that have waited in a reviewer's queue past their department's SLA</p>
+      </div>
+
+      <div className="card" style={{ marginBottom: '1.5rem' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+          <select
+            className="form__select"
+            value={departmentId}
+            onChange={(e) => setDepartmentId(e.target.value)}
+            style={{ maxWidth: '280px' }}
+          >
+            <option value="">All departments</option>
+            {departments.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name}
+              </option>
+            ))}
+          </select>
+          {report && (
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <span className="chip">{report.summary.total} overdue</span>
+              <span className="chip" style={{ color: '#dc2626' }}>
+                {report.summary.escalationDue} past escalation
+              </span>
+              <span className="chip">{report.summary.escalated} escalated to HOD</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="card form__error" style={{ marginBottom: '1.5rem' }}>{error}</div>}
+
+      {loading ? (
+        <div className="card">Loading report...</div>
+      ) : report && report.items.length === 0 ? (
+        <div className="card">
+          <p style={{ color: '#64748b', margin: 0 }}>No reviews are past their SLA.</p>
+        </div>
+      ) : (
+        report && (
+          <div className="card">
+            <div className="table-wrapper">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Assignment</th>
+                    <th>Department</th>
+                    <th>Reviewer</th>
+                    <th>Waiting</th>
+                    <th>Reminded</th>
+                    <th>Escalated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.items.map((item) => (
+                    <tr key={item.id}>
+                      <td>
+                        <strong>{item.title}</strong>
+                        <div style={{ fontSize: '0.8125rem', color: '#64748b' }}>
+                          {item.student.name} · {item.status}
+                        </div>
+                      </td>
+                      <td>{item.department?.name ?? '—'}</td>
+                      <td>
+                        {item.reviewer ? (
+                          <>
+                            {item.reviewer.name}
+                            {item.reviewer.role === 'HOD' && (
+                              <span className="chip" style={{ marginLeft: '0.375rem' }}>HOD</span>
+                            )}
+                          </>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td>
+                        <span
+                          style={{
+                            fontWeight: 600,
+                            color: item.stage === 'ESCALATION' ? '#dc2626' : '#ea580c'
+                          }}
+                        >
+                          {item.daysWaiting} day{item.daysWaiting !== 1 ? 's' : ''}
+                        </span>
+                        <div style={{ fontSize: '0.8125rem', color: '#64748b' }}>
+                          SLA {item.slaReminderDays} / {item.slaEscalationDays} days
+                        </div>
+                      </td>
+                      <td>{formatDate(item.remindedAt)}</td>
+                      <td>{formatDate(item.escalatedAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default OverdueReportPage;
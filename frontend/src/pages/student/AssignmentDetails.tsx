@@ -1,10 +1,25 @@
 import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { fetchAssignmentDetails, resubmitAssignment, AssignmentDetailResponse } from '../../services/api';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  fetchAssignmentDetails,
+  fetchAssignmentFileLink,
+  fetchApprovalDocumentLink,
+  resubmitAssignment,
+  withdrawAssignment,
+  signatureImageSrc,
+  AssignmentDetailResponse,
+  ApprovalDocument
+} from '../../services/api';
+import VersionTimeline from '../../components/assignments/VersionTimeline';
+import CommentThread from '../../components/assignments/CommentThread';
+import RubricScorecard from '../../components/assignments/RubricScorecard';
+import PanelReviewCard from '../../components/assignments/PanelReviewCard';
 
 const AssignmentDetailsPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [assignment, setAssignment] = useState<AssignmentDetailResponse['data']['assignment'] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -14,6 +29,11 @@ const AssignmentDetailsPage = () => {
   const [resubmitting, setResubmitting] = useState(false);
   const [resubmitError, setResubmitError] = useState<string | null>(null);
   const [resubmitSuccess, setResubmitSuccess] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [checkedItemIds, setCheckedItemIds] = useState<number[]>([]);
+  const [withdrawing, setWithdrawing] = useState(false);
+  const [withdrawMessage, setWithdrawMessage] = useState<string | null>(null);
+  const [withdrawError, setWithdrawError] = useState<string | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -64,10 +84,18 @@ const AssignmentDetailsPage = () => {
   const getActionLabel = (action: string): string => {
     const labels: Record<string, string> = {
       SUBMITTED: 'Submitted for Review',
+      STAGE_APPROVED: 'Stage Approved',
       APPROVED: 'Approved',
       REJECTED: 'Rejected',
+      CHANGES_REQUESTED: 'Changes Requested',
       PENDING: 'Pending Review',
-      RETURNED: 'Returned for Revision'
+      RETURNED: 'Sent Back by HOD',
+      FORWARDED: 'Forwarded',
+      TAKEN_OVER: 'Taken Over by HOD',
+      WITHDRAWN: 'Withdrawn by Student',
+      PANEL_VOTE_APPROVE: 'Panel Vote: Approve',
+      PANEL_VOTE_REJECT: 'Panel Vote: Reject',
+      APPROVAL_REVOKED: 'Approval Revoked'
     };
     return labels[action] || action;
   };
@@ -75,18 +103,68 @@ const AssignmentDetailsPage = () => {
   const getActionColor = (action: string): string => {
     const colors: Record<string, string> = {
       SUBMITTED: '#ff9800',
+      STAGE_APPROVED: '#8bc34a',
       APPROVED: '#4caf50',
       REJECTED: '#f44336',
+      CHANGES_REQUESTED: '#ffc107',
       PENDING: '#ffc107',
-      RETURNED: '#2196f3'
+      RETURNED: '#2196f3',
+      FORWARDED: '#9c27b0',
+      TAKEN_OVER: '#3f51b5',
+      WITHDRAWN: '#607d8b',
+      PANEL_VOTE_APPROVE: '#66bb6a',
+      PANEL_VOTE_REJECT: '#e57373',
+      APPROVAL_REVOKED: '#b71c1c'
     };
     return colors[action] || '#757575';
   };
 
-  const handleDownload = () => {
-    if (assignment?.filePath) {
-      const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3000';
-      window.open(`${apiUrl}/student/assignments/${assignment.id}/download`, '_blank');
+  const handleWithdraw = async () => {
+    if (!assignment) return;
+    const reason = window.prompt(
+      'Withdraw this submission and return it to draft? Optionally say why (your reviewer will see this).',
+      ''
+    );
+    if (reason === null) return;
+    setWithdrawError(null);
+    setWithdrawMessage(null);
+    try {
+      setWithdrawing(true);
+      const response = await withdrawAssignment(assignment.id, reason.trim() || undefined);
+      setWithdrawMessage(response.message);
+      await loadAssignmentDetails();
+    } catch (err) {
+      setWithdrawError(
+        typeof err === 'object' &&
+          err !== null &&
+          'response' in err &&
+          (err as { response?: { data?: { message?: string } } }).response?.data?.message
+          ? String((err as { response?: { data?: { message?: string } } }).response?.data?.message)
+          : 'Failed to withdraw assignment'
+      );
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!assignment?.filePath) return;
+    setDownloadError(null);
+    try {
+      // Signed links expire within minutes, so fetch a fresh one per click
+      window.location.href = await fetchAssignmentFileLink(assignment.id, true);
+    } catch {
+      setDownloadError('Failed to download file. Please try again.');
+    }
+  };
+
+  const handleApprovalDownload = async (document: ApprovalDocument) => {
+    if (!assignment) return;
+    setDownloadError(null);
+    try {
+      window.location.href = await fetchApprovalDocumentLink(assignment.id, document, true);
+    } catch {
+      setDownloadError('Failed to download the approval document. Please try again.');
     }
   };
 
@@ -99,6 +177,17 @@ const AssignmentDetailsPage = () => {
     return rejectionEntry?.remark || null;
   };
 
+  const openChangeItems =
+    assignment?.status === 'PENDING'
+      ? assignment.changeRequest?.items.filter((item) => !item.resolvedAt) ?? []
+      : [];
+
+  const toggleChangeItem = (itemId: number) => {
+    setCheckedItemIds((prev) =>
+      prev.includes(itemId) ? prev.filter((id) => id !== itemId) : [...prev, itemId]
+    );
+  };
+
   const handleResubmit = async () => {
     if (!assignment) return;
 
@@ -109,7 +198,8 @@ const AssignmentDetailsPage = () => {
 
       const response = await resubmitAssignment(assignment.id, {
         description: resubmitDescription || undefined,
-        file: resubmitFile || undefined
+        file: resubmitFile || undefined,
+        resolvedItemIds: checkedItemIds
       });
 
       setResubmitSuccess(response.message || 'Assignment resubmitted successfully');
@@ -215,6 +305,26 @@ const AssignmentDetailsPage = () => {
         </div>
       </div>
 
+      {assignment.status === 'PENDING' && assignment.changeRequest && (
+        <div className="card" style={{ marginBottom: '1.5rem', borderLeft: '4px solid #ffc107' }}>
+          <h2 style={{ marginTop: 0, marginBottom: '0.5rem' }}>Changes requested</h2>
+          <p style={{ marginTop: 0, color: '#666', fontSize: '0.875rem' }}>
+            {assignment.changeRequest.requestedBy.name} asked for the following before approving. Resubmit
+            when they are done and it will go straight back to them.
+          </p>
+          {assignment.changeRequest.remark && (
+            <p style={{ whiteSpace: 'pre-wrap' }}>{assignment.changeRequest.remark}</p>
+          )}
+          <ol style={{ margin: 0, paddingLeft: '1.25rem' }}>
+            {assignment.changeRequest.items.map((item) => (
+              <li key={item.id} style={{ marginBottom: '0.25rem' }}>
+                {item.description}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem', marginBottom: '1.5rem' }}>
         {/* Assignment Information */}
         <div className="card">
@@ -225,11 +335,33 @@ const AssignmentDetailsPage = () => {
             <p style={{ marginTop: '0.25rem', marginBottom: 0 }}>{assignment.title}</p>
           </div>
 
+          {assignment.brief && (
+            <div style={{ marginBottom: '1rem' }}>
+              <strong>Brief:</strong>
+              <p style={{ marginTop: '0.25rem', marginBottom: 0 }}>
+                {assignment.brief.course.code} · {assignment.brief.title} (due{' '}
+                {new Date(assignment.brief.dueDate).toLocaleString()})
+              </p>
+              <p style={{ marginTop: '0.25rem', marginBottom: 0, fontSize: '0.875rem', color: '#64748b', whiteSpace: 'pre-wrap' }}>
+                {assignment.brief.instructions}
+              </p>
+            </div>
+          )}
+
           <div style={{ marginBottom: '1rem' }}>
             <strong>Category:</strong>
             <p style={{ marginTop: '0.25rem', marginBottom: 0 }}>{getCategoryLabel(assignment.category)}</p>
           </div>
 
+          {assignment.members.length > 0 && (
+            <div style={{ marginBottom: '1rem' }}>
+              <strong>Team:</strong>
+              <p style={{ marginTop: '0.25rem', marginBottom: 0 }}>
+                {[assignment.student, ...assignment.members].map((m) => m.name).join(', ')}
+              </p>
+            </div>
+          )}
+
           <div style={{ marginBottom: '1rem' }}>
             <strong>Status:</strong>
             <p style={{ marginTop: '0.25rem', marginBottom: 0 }}>
@@ -280,10 +412,24 @@ const AssignmentDetailsPage = () => {
             <p style={{ marginTop: '0.25rem', marginBottom: 0 }}>{formatDate(assignment.createdAt)}</p>
           </div>
 
+          {assignment.dueDate && (
+            <div style={{ marginBottom: '1rem' }}>
+              <strong>Due Date:</strong>
+              <p style={{ marginTop: '0.25rem', marginBottom: 0 }}>{formatDate(assignment.dueDate)}</p>
+            </div>
+          )}
+
           {assignment.submittedAt && (
             <div style={{ marginBottom: '1rem' }}>
               <strong>Submitted Date:</strong>
-              <p style={{ marginTop: '0.25rem', marginBottom: 0 }}>{formatDate(assignment.submittedAt)}</p>
+              <p style={{ marginTop: '0.25rem', marginBottom: 0 }}>
+                {formatDate(assignment.submittedAt)}
+                {assignment.isLate && (
+                  <span style={{ color: '#b91c1c', fontWeight: 600, marginLeft: '0.5rem' }}>
+                    Late{assignment.latePenaltyPercent ? ` (−${assignment.latePenaltyPercent}% penalty)` : ''}
+                  </span>
+                )}
+              </p>
             </div>
           )}
 
@@ -295,10 +441,25 @@ const AssignmentDetailsPage = () => {
                 <div style={{ fontSize: '0.875rem', color: '#666' }}>
                   {assignment.reviewer.email} ({assignment.reviewer.role})
                 </div>
+                {assignment.reviewerAssignmentReason && (
+                  <div style={{ fontSize: '0.875rem', color: '#64748b', marginTop: '0.25rem' }}>
+                    {assignment.reviewerAssignmentReason}
+                  </div>
+                )}
               </p>
             </div>
           )}
 
+          {downloadError && (
+            <div className="form__error" style={{ marginTop: '1rem' }}>{downloadError}</div>
+          )}
+          {withdrawError && (
+            <div className="form__error" style={{ marginTop: '1rem' }}>{withdrawError}</div>
+          )}
+          {withdrawMessage && (
+            <div className="form__success" style={{ marginTop: '1rem' }}>{withdrawMessage}</div>
+          )}
+
           <div style={{ marginTop: '1.5rem', display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
             {assignment.filePath && (
               <button
@@ -309,7 +470,27 @@ const AssignmentDetailsPage = () => {
                 Download Original File
               </button>
             )}
-            {assignment.status === 'REJECTED' && (
+            {assignment.status === 'APPROVED' && (
+              <>
+                <button
+                  type="button"
+                  className="button button--ghost"
+                  onClick={() => handleApprovalDownload('certificate')}
+                >
+                  Download Approval Certificate
+                </button>
+                {assignment.filePath && (
+                  <button
+                    type="button"
+                    className="button button--ghost"
+                    onClick={() => handleApprovalDownload('stamped')}
+                  >
+                    Download Stamped PDF
+                  </button>
+                )}
+              </>
+            )}
+            {(assignment.status === 'REJECTED' || assignment.status === 'PENDING') && (
               <button
                 type="button"
                 className="button button--primary"
@@ -319,11 +500,22 @@ const AssignmentDetailsPage = () => {
                   setResubmitFile(null);
                   setResubmitError(null);
                   setResubmitSuccess(null);
+                  setCheckedItemIds([]);
                 }}
               >
                 Resubmit Assignment
               </button>
             )}
+            {(assignment.status === 'SUBMITTED' || assignment.status === 'FORWARDED') && assignment.student.id === user?.id && (
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={handleWithdraw}
+                disabled={withdrawing}
+              >
+                {withdrawing ? 'Withdrawing...' : 'Withdraw Submission'}
+              </button>
+            )}
           </div>
         </div>
 
@@ -384,6 +576,7 @@ const AssignmentDetailsPage = () => {
                       <div>
                         <strong style={{ color: getActionColor(entry.action) }}>
                           {getActionLabel(entry.action)}
+                          {entry.stage != null && ` (stage ${entry.stage})`}
                         </strong>
                         <div style={{ fontSize: '0.875rem', color: '#666', marginTop: '0.25rem' }}>
                           by {entry.reviewer.name} ({entry.reviewer.role})
@@ -406,9 +599,43 @@ const AssignmentDetailsPage = () => {
                     {entry.signature && (
                       <div style={{ marginTop: '0.75rem', paddingTop: '0.75rem', borderTop: '1px solid #e0e0e0' }}>
                         <strong style={{ fontSize: '0.875rem' }}>Signature:</strong>
-                        <p style={{ marginTop: '0.25rem', marginBottom: 0, fontStyle: 'italic' }}>
+                        <p
+                          style={{
+                            marginTop: '0.25rem',
+                            marginBottom: 0,
+                            fontStyle: 'italic',
+                            textDecoration: entry.revoked ? 'line-through' : 'none'
+                          }}
+                        >
                           {entry.signature}
                         </p>
+                        {entry.signatureImageUrl && (
+                          <img
+                            src={signatureImageSrc(entry.signatureImageUrl)}
+                            alt={`Signature of ${entry.reviewer.name}`}
+                            style={{
+                              display: 'block',
+                              marginTop: '0.5rem',
+                              maxHeight: 60,
+                              maxWidth: 220,
+                              opacity: entry.revoked ? 0.4 : 1
+                            }}
+                          />
+                        )}
+                        {entry.verificationCode && (
+                          <p style={{ marginTop: '0.25rem', marginBottom: 0, fontSize: '0.875rem' }}>
+                            Digitally signed ·{' '}
+                            <Link to={`/verify/${entry.verificationCode}`} target="_blank" rel="noreferrer">
+                              verify {entry.verificationCode}
+                            </Link>
+                          </p>
+                        )}
+                        {entry.revoked && (
+                          <p style={{ marginTop: '0.25rem', marginBottom: 0, fontSize: '0.875rem', color: '#b71c1c' }}>
+                            Revoked by {entry.revoked.by} on {formatDate(entry.revoked.createdAt)}
+                            {entry.revoked.reason ? `: ${entry.revoked.reason}` : ''}
+                          </p>
+                        )}
                       </div>
                     )}
                   </div>
@@ -428,6 +655,14 @@ const AssignmentDetailsPage = () => {
         </div>
       </div>
 
+      {assignment.panel && <PanelReviewCard panel={assignment.panel} />}
+
+      {assignment.grading && <RubricScorecard grading={assignment.grading} />}
+
+      <VersionTimeline assignmentId={assignment.id} refreshKey={assignment.history?.length ?? 0} />
+
+      <CommentThread assignmentId={assignment.id} scope="student" />
+
       {/* Resubmit Dialog */}
       {showResubmitDialog && assignment && (
         <div
@@ -500,8 +735,31 @@ const AssignmentDetailsPage = () => {
                   </p>
                 </div>
 
+                {openChangeItems.length > 0 && (
+                  <div style={{ marginBottom: '1.5rem' }}>
+                    <strong style={{ display: 'block', marginBottom: '0.5rem' }}>
+                      Confirm each requested change is done:
+                    </strong>
+                    {openChangeItems.map((item) => (
+                      <label
+                        key={item.id}
+                        style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-start', marginBottom: '0.5rem', cursor: 'pointer' }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={checkedItemIds.includes(item.id)}
+                          onChange={() => toggleChangeItem(item.id)}
+                          disabled={resubmitting}
+                          style={{ marginTop: '0.25rem' }}
+                        />
+                        <span>{item.description}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
                 {/* Show Rejection Remarks */}
-                {getRejectionRemark() && (
+                {assignment.status === 'REJECTED' && getRejectionRemark() && (
                   <div
                     style={{
                       marginBottom: '1.5rem',
@@ -615,7 +873,9 @@ const AssignmentDetailsPage = () => {
                     type="button"
                     className="button button--primary"
                     onClick={handleResubmit}
-                    disabled={resubmitting}
+                    disabled={
+                      resubmitting || openChangeItems.some((item) => !checkedItemIds.includes(item.id))
+                    }
                   >
                     {resubmitting ? 'Resubmitting...' : 'Resubmit Assignment'}
                   </button>
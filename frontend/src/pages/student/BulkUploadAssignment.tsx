@@ -1,11 +1,18 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useNavigate } from 'react-router-dom';
-import { bulkUploadAssignments, BulkUploadAssignmentResponse } from '../../services/api';
+import {
+  bulkUploadAssignments,
+  fetchBriefs,
+  AssignmentBrief,
+  AssignmentCategory,
+  BulkUploadAssignmentResponse
+} from '../../services/api';
 
 const bulkUploadSchema = z.object({
+  briefId: z.string().min(1, { message: 'Choose the brief you are submitting against' }),
   description: z.string().max(1000, { message: 'Description must be less than 1000 characters' }).optional(),
   category: z.enum(['ASSIGNMENT', 'THESIS', 'REPORT'], {
     errorMap: () => ({ message: 'Category is required' })
@@ -31,7 +38,7 @@ const bulkUploadSchema = z.object({
 
 type BulkUploadFormValues = z.infer<typeof bulkUploadSchema>;
 
-const categoryOptions = [
+const categoryOptions: Array<{ value: AssignmentCategory; label: string }> = [
   { value: 'ASSIGNMENT', label: 'Assignment' },
   { value: 'THESIS', label: 'Thesis' },
   { value: 'REPORT', label: 'Report' }
@@ -43,22 +50,39 @@ const BulkUploadAssignmentPage = () => {
   const [serverError, setServerError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadedAssignments, setUploadedAssignments] = useState<BulkUploadAssignmentResponse['data']['assignments'] | null>(null);
+  const [briefs, setBriefs] = useState<AssignmentBrief[]>([]);
 
   const {
     register,
     handleSubmit,
     reset,
+    setValue,
     formState: { errors },
     watch
   } = useForm<BulkUploadFormValues>({
     resolver: zodResolver(bulkUploadSchema),
     defaultValues: {
+      briefId: '',
       description: '',
       category: 'ASSIGNMENT'
     }
   });
 
   const selectedFiles = watch('files');
+  const selectedBrief = briefs.find((b) => String(b.id) === watch('briefId'));
+
+  useEffect(() => {
+    fetchBriefs()
+      .then((res) => setBriefs(res.data.briefs))
+      .catch(() => setServerError('Failed to load assignment briefs'));
+  }, []);
+
+  // Only offer the categories the chosen brief accepts
+  useEffect(() => {
+    if (selectedBrief && !selectedBrief.allowedCategories.includes(watch('category'))) {
+      setValue('category', selectedBrief.allowedCategories[0] ?? 'ASSIGNMENT');
+    }
+  }, [selectedBrief]);
 
   const onSubmit = async (values: BulkUploadFormValues) => {
     setServerMessage(null);
@@ -68,6 +92,7 @@ const BulkUploadAssignmentPage = () => {
 
     try {
       const formData = new FormData();
+      formData.append('briefId', values.briefId);
       if (values.description) {
         formData.append('description', values.description);
       }
@@ -84,6 +109,7 @@ const BulkUploadAssignmentPage = () => {
       
       // Reset form after successful upload
       reset({
+        briefId: '',
         description: '',
         category: 'ASSIGNMENT'
       });
@@ -148,6 +174,27 @@ const BulkUploadAssignmentPage = () => {
 
         {!uploadedAssignments && (
           <form onSubmit={handleSubmit(onSubmit)} className="form">
+            <div className="form__group">
+              <label htmlFor="briefId" className="form__label">
+                Brief (applied to all files) <span className="form__required">*</span>
+              </label>
+              <select
+                id="briefId"
+                {...register('briefId')}
+                className={`form__input form__select ${errors.briefId ? 'form__input--error' : ''}`}
+              >
+                <option value="">Select a brief</option>
+                {briefs.map((brief) => (
+                  <option key={brief.id} value={brief.id}>
+                    {brief.course.code} · {brief.title} (due {new Date(brief.dueDate).toLocaleDateString()})
+                  </option>
+                ))}
+              </select>
+              {errors.briefId && (
+                <span className="form__error-message">{errors.briefId.message}</span>
+              )}
+            </div>
+
             <div className="form__group">
               <label htmlFor="description" className="form__label">
                 Common Description (applied to all files)
@@ -173,11 +220,13 @@ const BulkUploadAssignmentPage = () => {
                 {...register('category')}
                 className={`form__input form__select ${errors.category ? 'form__input--error' : ''}`}
               >
-                {categoryOptions.map((option) => (
-                  <option key={option.value} value={option.value}>
-                    {option.label}
-                  </option>
-                ))}
+                {categoryOptions
+                  .filter((option) => !selectedBrief || selectedBrief.allowedCategories.includes(option.value))
+                  .map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
               </select>
               {errors.category && (
                 <span className="form__error-message">{errors.category.message}</span>
@@ -307,6 +356,7 @@ const BulkUploadAssignmentPage = () => {
                 onClick={() => {
                   setUploadedAssignments(null);
                   reset({
+                    briefId: '',
                     description: '',
                     category: 'ASSIGNMENT'
                   });
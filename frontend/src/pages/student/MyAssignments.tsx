@@ -3,12 +3,18 @@ import { useNavigate } from 'react-router-dom';
 import {
   fetchAssignments,
   fetchAssignmentDetails,
+  fetchAssignmentFileLink,
   fetchProfessors,
   submitAssignment,
+  withdrawAssignment,
+  deleteDraftAssignment,
   Assignment,
   AssignmentsListQuery,
-  Professor
+  Professor,
+  ProfessorsResponse
 } from '../../services/api';
+import EditDraftDialog from '../../components/assignments/EditDraftDialog';
+import TeamDialog from '../../components/assignments/TeamDialog';
 
 type SortOrder = 'newest' | 'oldest';
 
@@ -26,9 +32,16 @@ const MyAssignmentsPage = () => {
   const [assignmentToSubmit, setAssignmentToSubmit] = useState<Assignment | null>(null);
   const [professors, setProfessors] = useState<Professor[]>([]);
   const [selectedProfessorId, setSelectedProfessorId] = useState<number | ''>('');
+  const [autoAssign, setAutoAssign] = useState(false);
+  const [panelConfig, setPanelConfig] = useState<ProfessorsResponse['data']['panel'] | null>(null);
+  // Ticked panel members in order; the first one chairs the panel
+  const [panelIds, setPanelIds] = useState<number[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitSuccess, setSubmitSuccess] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [draftToEdit, setDraftToEdit] = useState<Assignment | null>(null);
+  const [teamFor, setTeamFor] = useState<Assignment | null>(null);
 
   useEffect(() => {
     loadAssignments();
@@ -39,6 +52,8 @@ const MyAssignmentsPage = () => {
     try {
       const response = await fetchProfessors();
       setProfessors(response.data.professors);
+      setAutoAssign(response.data.autoAssign);
+      setPanelConfig(response.data.panel);
     } catch (err) {
       console.error('Error loading professors:', err);
     }
@@ -96,28 +111,61 @@ const MyAssignmentsPage = () => {
     }
   };
 
+  const handleDownloadFile = async (assignmentId: number) => {
+    try {
+      window.location.href = await fetchAssignmentFileLink(assignmentId, true);
+    } catch (err) {
+      console.error('Error creating download link:', err);
+    }
+  };
+
   const handleSubmitClick = (assignment: Assignment) => {
     setAssignmentToSubmit(assignment);
-    setSelectedProfessorId('');
+    // Default to the professor who set the brief
+    const briefProfessorId = assignment.brief?.course.professor.id;
+    setSelectedProfessorId(professors.some((p) => p.id === briefProfessorId) ? briefProfessorId! : '');
+    setPanelIds([]);
     setSubmitError(null);
     setSubmitSuccess(null);
     setShowSubmitDialog(true);
   };
 
+  const panelMode = Boolean(assignmentToSubmit && panelConfig?.categories.includes(assignmentToSubmit.category));
+  const panelIncomplete = panelMode && panelIds.length > 0 && panelIds.length < (panelConfig?.minSize ?? 0);
+
+  const togglePanelMember = (id: number) =>
+    setPanelIds(panelIds.includes(id) ? panelIds.filter((p) => p !== id) : [...panelIds, id]);
+
   const handleSubmitConfirm = async () => {
-    if (!assignmentToSubmit || !selectedProfessorId) {
+    if (!assignmentToSubmit || (!panelMode && !autoAssign && !selectedProfessorId)) {
       setSubmitError('Please select a professor');
       return;
     }
+    if (panelIncomplete) {
+      setSubmitError(`Choose at least ${panelConfig?.minSize} reviewers, or none to let the HOD appoint the panel`);
+      return;
+    }
 
     try {
       setSubmitting(true);
       setSubmitError(null);
-      const response = await submitAssignment(assignmentToSubmit.id, {
-        reviewerId: selectedProfessorId as number
-      });
-
-      setSubmitSuccess(response.message || 'Assignment submitted successfully');
+      const response = await submitAssignment(
+        assignmentToSubmit.id,
+        panelMode
+          ? panelIds.length > 0
+            ? { panelReviewerIds: panelIds }
+            : {}
+          : autoAssign
+            ? {}
+            : { reviewerId: selectedProfessorId as number }
+      );
+
+      const { reviewerAssignmentReason } = response.data.assignment;
+      setSubmitSuccess(
+        [response.message || 'Assignment submitted successfully', reviewerAssignmentReason]
+          .filter(Boolean)
+          .join(' ')
+      );
       
       // Reload assignments to get updated status
       await loadAssignments();
@@ -150,6 +198,62 @@ const MyAssignmentsPage = () => {
     }
   };
 
+  const handleWithdraw = async (assignment: Assignment) => {
+    setActionMessage(null);
+    const confirmed = window.confirm(
+      `Withdraw "${assignment.title}" and return it to draft? This only works until your reviewer starts on it.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await withdrawAssignment(assignment.id);
+      setActionMessage(response.message);
+      await loadAssignments();
+    } catch (err) {
+      if (
+        typeof err === 'object' &&
+        err !== null &&
+        'response' in err &&
+        (err as { response?: { data?: { message?: string } } }).response?.data?.message
+      ) {
+        setActionMessage(
+          (err as { response?: { data?: { message?: string } } }).response?.data?.message ??
+            'Failed to withdraw assignment'
+        );
+      } else {
+        setActionMessage('Failed to withdraw assignment. Please try again.');
+      }
+    }
+  };
+
+  const handleDeleteDraft = async (assignment: Assignment) => {
+    setActionMessage(null);
+    const confirmed = window.confirm(
+      `Are you sure you want to delete the draft "${assignment.title}"? Its file will be removed. This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await deleteDraftAssignment(assignment.id);
+      setActionMessage(response.message);
+      await loadAssignments();
+    } catch (err) {
+      if (
+        typeof err === 'object' &&
+        err !== null &&
+        'response' in err &&
+        (err as { response?: { data?: { message?: string } } }).response?.data?.message
+      ) {
+        setActionMessage(
+          (err as { response?: { data?: { message?: string } } }).response?.data?.message ??
+            'Failed to delete draft'
+        );
+      } else {
+        setActionMessage('Failed to delete draft. Please try again.');
+      }
+    }
+  };
+
   const handleSubmitCancel = () => {
     setShowSubmitDialog(false);
     setAssignmentToSubmit(null);
@@ -230,7 +334,7 @@ const MyAssignmentsPage = () => {
               <option value="SUBMITTED">Submitted</option>
               <option value="APPROVED">Approved</option>
               <option value="REJECTED">Rejected</option>
-              <option value="PENDING">Pending</option>
+              <option value="PENDING">Changes Requested</option>
             </select>
           </div>
           <div style={{ flex: '1', minWidth: '200px' }}>
@@ -252,6 +356,9 @@ const MyAssignmentsPage = () => {
 
       {/* Assignments Table */}
       <div className="card">
+        {actionMessage && (
+          <div className="form__success" style={{ marginBottom: '1rem' }}>{actionMessage}</div>
+        )}
         {sortedAssignments.length === 0 ? (
           <div style={{ textAlign: 'center', padding: '2rem' }}>
             <p>No assignments found.</p>
@@ -293,7 +400,21 @@ const MyAssignmentsPage = () => {
                     }}
                     onClick={() => navigate(`/student/assignments/${assignment.id}`)}
                   >
-                    <td style={{ padding: '0.75rem', border: '1px solid #ddd' }}>{assignment.title}</td>
+                    <td style={{ padding: '0.75rem', border: '1px solid #ddd' }}>
+                      {assignment.title}
+                      {assignment.brief && (
+                        <div style={{ fontSize: '0.8125rem', color: '#64748b' }}>
+                          {assignment.brief.course.code} · {assignment.brief.title}
+                        </div>
+                      )}
+                      {assignment.members && assignment.members.length > 0 && (
+                        <div style={{ fontSize: '0.8125rem', color: '#64748b' }}>
+                          {assignment.isOwner
+                            ? `Group with ${assignment.members.map((m) => m.name).join(', ')}`
+                            : `Group led by ${assignment.owner?.name ?? 'a classmate'}`}
+                        </div>
+                      )}
+                    </td>
                     <td style={{ padding: '0.75rem', border: '1px solid #ddd' }}>
                       {getCategoryLabel(assignment.category)}
                     </td>
@@ -328,6 +449,11 @@ const MyAssignmentsPage = () => {
                       >
                         {assignment.statusLabel}
                       </span>
+                      {assignment.isLate && (
+                        <span style={{ marginLeft: '0.375rem', fontSize: '0.75rem', fontWeight: 600, color: '#c62828' }}>
+                          Late
+                        </span>
+                      )}
                     </td>
                     <td style={{ padding: '0.75rem', border: '1px solid #ddd' }}>
                       {formatDate(assignment.createdAt)}
@@ -344,7 +470,7 @@ const MyAssignmentsPage = () => {
                     </td>
                     <td style={{ padding: '0.75rem', border: '1px solid #ddd' }}>
                       <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
-                        {assignment.status === 'DRAFT' && (
+                        {assignment.status === 'DRAFT' && assignment.isOwner !== false && (
                           <button
                             type="button"
                             className="button button--primary"
@@ -357,6 +483,58 @@ const MyAssignmentsPage = () => {
                             Submit for Review
                           </button>
                         )}
+                        {assignment.status === 'DRAFT' && assignment.isOwner !== false && (
+                          <>
+                            <button
+                              type="button"
+                              className="button button--ghost"
+                              style={{ fontSize: '0.875rem', padding: '0.25rem 0.5rem' }}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setActionMessage(null);
+                                setDraftToEdit(assignment);
+                              }}
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              className="button button--ghost"
+                              style={{ fontSize: '0.875rem', padding: '0.25rem 0.5rem' }}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setActionMessage(null);
+                                setTeamFor(assignment);
+                              }}
+                            >
+                              Team
+                            </button>
+                            <button
+                              type="button"
+                              className="button button--ghost"
+                              style={{ fontSize: '0.875rem', padding: '0.25rem 0.5rem', color: '#dc2626' }}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteDraft(assignment);
+                              }}
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                        {assignment.status === 'SUBMITTED' && assignment.isOwner !== false && (
+                          <button
+                            type="button"
+                            className="button button--ghost"
+                            style={{ fontSize: '0.875rem', padding: '0.25rem 0.5rem' }}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleWithdraw(assignment);
+                            }}
+                          >
+                            Withdraw
+                          </button>
+                        )}
                         <button
                           type="button"
                           className="button button--ghost"
@@ -498,6 +676,11 @@ const MyAssignmentsPage = () => {
                       <div>
                         <div>{selectedAssignment.reviewer.name}</div>
                         <div style={{ fontSize: '0.875rem', color: '#666' }}>{selectedAssignment.reviewer.email}</div>
+                        {selectedAssignment.reviewerAssignmentReason && (
+                          <div style={{ fontSize: '0.875rem', color: '#64748b', marginTop: '0.25rem' }}>
+                            {selectedAssignment.reviewerAssignmentReason}
+                          </div>
+                        )}
                       </div>
                     ) : (
                       <span style={{ color: '#999', fontStyle: 'italic' }}>Not assigned</span>
@@ -509,14 +692,21 @@ const MyAssignmentsPage = () => {
                   <div style={{ marginBottom: '1rem' }}>
                     <strong>File:</strong>
                     <p style={{ marginTop: '0.25rem' }}>
-                      <a
-                        href={`${import.meta.env.VITE_API_URL || 'http://localhost:3000'}/uploads/assignments/${selectedAssignment.filePath.split(/[\\/]/).pop()}`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        style={{ color: '#1976d2', textDecoration: 'underline' }}
+                      <button
+                        type="button"
+                        onClick={() => handleDownloadFile(selectedAssignment.id)}
+                        style={{
+                          color: '#1976d2',
+                          textDecoration: 'underline',
+                          background: 'none',
+                          border: 'none',
+                          padding: 0,
+                          cursor: 'pointer',
+                          font: 'inherit'
+                        }}
                       >
                         Download PDF
-                      </a>
+                      </button>
                     </p>
                   </div>
                 )}
@@ -537,6 +727,30 @@ const MyAssignmentsPage = () => {
       )}
 
       {/* Submit for Review Dialog */}
+      {draftToEdit && (
+        <EditDraftDialog
+          assignment={draftToEdit}
+          onClose={() => setDraftToEdit(null)}
+          onSaved={async (message) => {
+            setDraftToEdit(null);
+            setActionMessage(message);
+            await loadAssignments();
+          }}
+        />
+      )}
+
+      {teamFor && (
+        <TeamDialog
+          assignment={teamFor}
+          onClose={() => setTeamFor(null)}
+          onSaved={async (message) => {
+            setTeamFor(null);
+            setActionMessage(message);
+            await loadAssignments();
+          }}
+        />
+      )}
+
       {showSubmitDialog && assignmentToSubmit && (
         <div
           style={{
@@ -605,30 +819,63 @@ const MyAssignmentsPage = () => {
                   </p>
                 </div>
 
-                <div className="form__group" style={{ marginBottom: '1.5rem' }}>
-                  <label htmlFor="professorSelect" className="form__label">
-                    Select Professor <span className="form__required">*</span>
-                  </label>
-                  <select
-                    id="professorSelect"
-                    value={selectedProfessorId}
-                    onChange={(e) => setSelectedProfessorId(e.target.value ? parseInt(e.target.value, 10) : '')}
-                    className="form__input form__select"
-                    disabled={submitting}
-                  >
-                    <option value="">-- Select a professor --</option>
+                {panelMode ? (
+                  <div className="form__group" style={{ marginBottom: '1.5rem' }}>
+                    <span className="form__label">Review panel</span>
+                    <p style={{ fontSize: '0.875rem', color: '#64748b', marginTop: 0 }}>
+                      This category is decided by a {panelConfig?.quorum === 'UNANIMOUS' ? 'unanimous' : 'majority'} vote.
+                      Choose at least {panelConfig?.minSize} reviewers (the first one you tick chairs the panel), or
+                      leave them all unticked to let the HOD appoint the panel.
+                    </p>
                     {professors.map((professor) => (
-                      <option key={professor.id} value={professor.id}>
+                      <label
+                        key={professor.id}
+                        style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={panelIds.includes(professor.id)}
+                          onChange={() => togglePanelMember(professor.id)}
+                          disabled={submitting}
+                        />
                         {professor.name} ({professor.email})
-                      </option>
+                        {panelIds[0] === professor.id && <span className="chip">Chair</span>}
+                      </label>
                     ))}
-                  </select>
-                  {professors.length === 0 && (
-                    <p style={{ fontSize: '0.875rem', color: '#999', marginTop: '0.5rem' }}>
-                      No professors available in your department.
-                    </p>
-                  )}
-                </div>
+                  </div>
+                ) : autoAssign ? (
+                  <p style={{ fontSize: '0.875rem', color: '#64748b', marginBottom: '1.5rem' }}>
+                    Your department assigns reviewers automatically. You will see who was assigned, and why, once
+                    you submit.
+                  </p>
+                ) : (
+                  <div className="form__group" style={{ marginBottom: '1.5rem' }}>
+                    <label htmlFor="professorSelect" className="form__label">
+                      Select Professor <span className="form__required">*</span>
+                    </label>
+                    <select
+                      id="professorSelect"
+                      value={selectedProfessorId}
+                      onChange={(e) => setSelectedProfessorId(e.target.value ? parseInt(e.target.value, 10) : '')}
+                      className="form__input form__select"
+                      disabled={submitting}
+                    >
+                      <option value="">-- Select a professor --</option>
+                      {professors.map((professor) => (
+                        <option key={professor.id} value={professor.id}>
+                          {professor.name} ({professor.email})
+                          {professor.outOfOffice &&
+                            ` - out of office${professor.outOfOffice.delegate ? `, goes to ${professor.outOfOffice.delegate.name}` : ''}`}
+                        </option>
+                      ))}
+                    </select>
+                    {professors.length === 0 && (
+                      <p style={{ fontSize: '0.875rem', color: '#999', marginTop: '0.5rem' }}>
+                        No professors available in your department.
+                      </p>
+                    )}
+                  </div>
+                )}
 
                 {submitError && (
                   <div className="form__error" style={{ marginBottom: '1rem' }}>
@@ -649,7 +896,11 @@ const MyAssignmentsPage = () => {
                     type="button"
                     className="button button--primary"
                     onClick={handleSubmitConfirm}
-                    disabled={submitting || !selectedProfessorId || professors.length === 0}
+                    disabled={
+                      submitting ||
+                      panelIncomplete ||
+                      (!panelMode && !autoAssign && (!selectedProfessorId || professors.length === 0))
+                    }
                   >
                     {submitting ? 'Submitting...' : 'Confirm Submission'}
                   </button>
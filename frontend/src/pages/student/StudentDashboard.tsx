@@ -84,7 +84,7 @@ const StudentDashboardPage = () => {
 
       <div className="grid grid--cols-3">
         <div className="card stat-card">
-          <span className="stat-card__label">Pending Assignments</span>
+          <span className="stat-card__label">Changes Requested</span>
           <span className="stat-card__value">{data.assignments.pending}</span>
         </div>
         <div className="card stat-card">
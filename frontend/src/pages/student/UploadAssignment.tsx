@@ -1,12 +1,13 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useNavigate } from 'react-router-dom';
-import { uploadAssignment } from '../../services/api';
+import { fetchBriefs, uploadAssignment, AssignmentBrief, AssignmentCategory } from '../../services/api';
 
 const assignmentSchema = z.object({
-  title: z.string().min(1, { message: 'Title is required' }).max(200, { message: 'Title must be less than 200 characters' }),
+  briefId: z.string().min(1, { message: 'Choose the brief you are submitting against' }),
+  title: z.string().max(200, { message: 'Title must be less than 200 characters' }).optional(),
   description: z.string().max(1000, { message: 'Description must be less than 1000 characters' }).optional(),
   category: z.enum(['ASSIGNMENT', 'THESIS', 'REPORT'], {
     errorMap: () => ({ message: 'Category is required' })
@@ -22,7 +23,7 @@ const assignmentSchema = z.object({
 
 type AssignmentFormValues = z.infer<typeof assignmentSchema>;
 
-const categoryOptions = [
+const categoryOptions: Array<{ value: AssignmentCategory; label: string }> = [
   { value: 'ASSIGNMENT', label: 'Assignment' },
   { value: 'THESIS', label: 'Thesis' },
   { value: 'REPORT', label: 'Report' }
@@ -33,16 +34,20 @@ const UploadAssignmentPage = () => {
   const [serverMessage, setServerMessage] = useState<string | null>(null);
   const [serverError, setServerError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [briefs, setBriefs] = useState<AssignmentBrief[]>([]);
+  const [briefsError, setBriefsError] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
     reset,
+    setValue,
     formState: { errors },
     watch
   } = useForm<AssignmentFormValues>({
     resolver: zodResolver(assignmentSchema),
     defaultValues: {
+      briefId: '',
       title: '',
       description: '',
       category: 'ASSIGNMENT'
@@ -50,6 +55,20 @@ const UploadAssignmentPage = () => {
   });
 
   const selectedFile = watch('file');
+  const selectedBrief = briefs.find((b) => String(b.id) === watch('briefId'));
+
+  useEffect(() => {
+    fetchBriefs()
+      .then((res) => setBriefs(res.data.briefs))
+      .catch(() => setBriefsError('Failed to load assignment briefs'));
+  }, []);
+
+  // Only offer the categories the chosen brief accepts
+  useEffect(() => {
+    if (selectedBrief && !selectedBrief.allowedCategories.includes(watch('category'))) {
+      setValue('category', selectedBrief.allowedCategories[0] ?? 'ASSIGNMENT');
+    }
+  }, [selectedBrief]);
 
   const onSubmit = async (values: AssignmentFormValues) => {
     setServerMessage(null);
@@ -59,7 +78,10 @@ const UploadAssignmentPage = () => {
     try {
       const file = values.file[0];
       const formData = new FormData();
-      formData.append('title', values.title);
+      formData.append('briefId', values.briefId);
+      if (values.title) {
+        formData.append('title', values.title);
+      }
       if (values.description) {
         formData.append('description', values.description);
       }
@@ -71,6 +93,7 @@ const UploadAssignmentPage = () => {
       
       // Reset form after successful upload
       reset({
+        briefId: '',
         title: '',
         description: '',
         category: 'ASSIGNMENT'
@@ -135,17 +158,55 @@ const UploadAssignmentPage = () => {
           </div>
         )}
 
+        {briefsError && (
+          <div className="form__error">
+            <p>{briefsError}</p>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit(onSubmit)} className="form">
+          <div className="form__group">
+            <label htmlFor="briefId" className="form__label">
+              Brief <span className="form__required">*</span>
+            </label>
+            <select
+              id="briefId"
+              {...register('briefId')}
+              className={`form__input form__select ${errors.briefId ? 'form__input--error' : ''}`}
+            >
+              <option value="">Select a brief</option>
+              {briefs.map((brief) => (
+                <option key={brief.id} value={brief.id}>
+                  {brief.course.code} · {brief.title} (due {new Date(brief.dueDate).toLocaleDateString()})
+                </option>
+              ))}
+            </select>
+            {errors.briefId && (
+              <span className="form__error-message">{errors.briefId.message}</span>
+            )}
+            {selectedBrief && (
+              <div className="form__file-info">
+                <p>
+                  <strong>{selectedBrief.course.name}</strong> · set by {selectedBrief.course.professor.name}
+                </p>
+                <p>
+                  <strong>Due:</strong> {new Date(selectedBrief.dueDate).toLocaleString()}
+                </p>
+                <p style={{ whiteSpace: 'pre-wrap' }}>{selectedBrief.instructions}</p>
+              </div>
+            )}
+          </div>
+
           <div className="form__group">
             <label htmlFor="title" className="form__label">
-              Title <span className="form__required">*</span>
+              Title
             </label>
             <input
               type="text"
               id="title"
               {...register('title')}
               className={`form__input ${errors.title ? 'form__input--error' : ''}`}
-              placeholder="Enter assignment title"
+              placeholder={selectedBrief ? `Defaults to "${selectedBrief.title}"` : 'Enter assignment title (optional)'}
             />
             {errors.title && (
               <span className="form__error-message">{errors.title.message}</span>
@@ -177,11 +238,13 @@ const UploadAssignmentPage = () => {
               {...register('category')}
               className={`form__input form__select ${errors.category ? 'form__input--error' : ''}`}
             >
-              {categoryOptions.map((option) => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
-              ))}
+              {categoryOptions
+                .filter((option) => !selectedBrief || selectedBrief.allowedCategories.includes(option.value))
+                .map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
             </select>
             {errors.category && (
               <span className="form__error-message">{errors.category.message}</span>
@@ -5,6 +5,7 @@ import ProtectedRoute from '../components/ProtectedRoute';
 function defaultDashboardPath(role: string | undefined): string {
   if (role === 'ADMIN') return '/dashboard';
   if (role === 'PROFESSOR') return '/professor/dashboard';
+  if (role === 'HOD') return '/hod/dashboard';
   return '/student/dashboard';
 }
 import AppLayout from '../components/layout/AppLayout';
@@ -23,6 +24,12 @@ import MyAssignmentsPage from '../pages/student/MyAssignments';
 import AssignmentDetailsPage from '../pages/student/AssignmentDetails';
 import ProfessorDashboardPage from '../pages/professor/ProfessorDashboard';
 import ReviewAssignmentPage from '../pages/professor/ReviewAssignment';
+import CoursesPage from '../pages/professor/Courses';
+import HodDashboardPage from '../pages/hod/HodDashboard';
+import OverdueReportPage from '../pages/reports/OverdueReport';
+import VerifyApprovalPage from '../pages/VerifyApproval';
+import ApprovedAssignmentsPage from '../pages/reports/ApprovedAssignments';
+import NotificationsPage from '../pages/Notifications';
 
 function AppRoutes() {
   const { isAuthenticated, user } = useAuth();
@@ -30,6 +37,8 @@ function AppRoutes() {
   return (
     <Routes>
       <Route path="/login" element={<LoginPage />} />
+      <Route path="/verify" element={<VerifyApprovalPage />} />
+      <Route path="/verify/:code" element={<VerifyApprovalPage />} />
 
       <Route element={<ProtectedRoute />}>
         <Route element={<AppLayout />}>
@@ -42,11 +51,16 @@ function AppRoutes() {
           <Route path="student/assignments" element={<MyAssignmentsPage />} />
           <Route path="professor/dashboard" element={<ProfessorDashboardPage />} />
           <Route path="professor/assignments/:id/review" element={<ReviewAssignmentPage />} />
+          <Route path="professor/courses" element={<CoursesPage />} />
+          <Route path="hod/dashboard" element={<HodDashboardPage />} />
           <Route path="departments">
             <Route index element={<DepartmentsListPage />} />
             <Route path="create" element={<CreateDepartmentPage />} />
             <Route path=":id/edit" element={<EditDepartmentPage />} />
           </Route>
+          <Route path="reports/overdue" element={<OverdueReportPage />} />
+          <Route path="reports/approved" element={<ApprovedAssignmentsPage />} />
+          <Route path="notifications" element={<NotificationsPage />} />
           <Route path="users">
             <Route index element={<UsersListPage />} />
             <Route path="create" element={<CreateUserPage />} />
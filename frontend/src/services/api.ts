@@ -104,7 +104,85 @@ export async function fetchStudentDashboard() {
   return response.data;
 }
 
+// Courses & assignment briefs
+export type AssignmentCategory = 'ASSIGNMENT' | 'THESIS' | 'REPORT';
+
+export interface AssignmentBrief {
+  id: number;
+  title: string;
+  instructions: string;
+  dueDate: string;
+  allowedCategories: AssignmentCategory[];
+  createdAt: string;
+  course: {
+    id: number;
+    code: string;
+    name: string;
+    professor: { id: number; name: string; email: string };
+  };
+}
+
+export interface Course {
+  id: number;
+  code: string;
+  name: string;
+  createdAt: string;
+  briefs: Array<AssignmentBrief & { submissionCount: number }>;
+}
+
+export interface BriefPayload {
+  title: string;
+  instructions: string;
+  dueDate: string;
+  allowedCategories: AssignmentCategory[];
+}
+
+export async function fetchBriefs() {
+  const response = await api.get<{ success: boolean; message: string; data: { briefs: AssignmentBrief[] } }>(
+    '/student/briefs'
+  );
+  return response.data;
+}
+
+export async function fetchCourses() {
+  const response = await api.get<{ success: boolean; message: string; data: { courses: Course[] } }>(
+    '/professor/courses'
+  );
+  return response.data;
+}
+
+export async function createCourse(payload: { code: string; name: string }) {
+  const response = await api.post<{ success: boolean; message: string; data: { course: Course } }>(
+    '/professor/courses',
+    payload
+  );
+  return response.data;
+}
+
+export async function createBrief(courseId: number, payload: BriefPayload) {
+  const response = await api.post<{ success: boolean; message: string; data: { brief: AssignmentBrief } }>(
+    `/professor/courses/${courseId}/briefs`,
+    payload
+  );
+  return response.data;
+}
+
+export async function updateBrief(briefId: number, payload: BriefPayload) {
+  const response = await api.put<{ success: boolean; message: string; data: { brief: AssignmentBrief } }>(
+    `/professor/briefs/${briefId}`,
+    payload
+  );
+  return response.data;
+}
+
 // Professor dashboard
+export interface ProfessorDashboardBrief {
+  id: number;
+  title: string;
+  dueDate: string;
+  course: { id: number; code: string; name: string };
+}
+
 export interface ProfessorDashboardAssignment {
   id: number;
   title: string;
@@ -112,6 +190,10 @@ export interface ProfessorDashboardAssignment {
   studentEmail: string;
   submittedAt: string | null;
   daysPending: number;
+  isLate: boolean;
+  latePenaltyPercent: number | null;
+  dueDate: string | null;
+  brief: ProfessorDashboardBrief | null;
 }
 
 export interface ProfessorDashboardResponse {
@@ -120,6 +202,7 @@ export interface ProfessorDashboardResponse {
   data: {
     pendingCount: number;
     assignments: ProfessorDashboardAssignment[];
+    groups: Array<{ brief: ProfessorDashboardBrief | null; assignments: ProfessorDashboardAssignment[] }>;
   };
 }
 
@@ -128,7 +211,8 @@ export async function fetchProfessorDashboard() {
   return response.data;
 }
 
-export interface ProfessorNotification {
+// Notifications for students, professors and HODs; administrators have none
+export interface AppNotification {
   id: number;
   message: string;
   type: string;
@@ -137,22 +221,154 @@ export interface ProfessorNotification {
   createdAt: string;
 }
 
-export interface ProfessorNotificationsResponse {
+export interface NotificationsResponse {
   success: boolean;
   message: string;
   data: {
-    notifications: ProfessorNotification[];
+    notifications: AppNotification[];
+    unreadCount: number;
+    types: string[];
+    pagination: { page: number; pageSize: number; total: number; totalPages: number };
+    filters: { type: string[]; unread: boolean };
   };
 }
 
-export async function fetchProfessorNotifications() {
-  const response = await api.get<ProfessorNotificationsResponse>('/professor/notifications');
+export async function fetchNotifications(
+  params: { page?: number; pageSize?: number; type?: string; unread?: boolean } = {}
+) {
+  const response = await api.get<NotificationsResponse>('/notifications', {
+    params: {
+      page: params.page,
+      pageSize: params.pageSize,
+      type: params.type || undefined,
+      unread: params.unread ? 'true' : undefined
+    }
+  });
   return response.data;
 }
 
-export async function markProfessorNotificationRead(notificationId: number) {
-  const response = await api.patch(`/professor/notifications/${notificationId}/read`);
-  return response.data as { success: boolean; message: string };
+export async function fetchUnreadNotificationCount() {
+  const response = await api.get<{ success: boolean; data: { unreadCount: number } }>('/notifications/unread-count');
+  return response.data;
+}
+
+export async function markNotificationRead(notificationId: number) {
+  const response = await api.patch<{ success: boolean; message: string; data: { unreadCount: number } }>(
+    `/notifications/${notificationId}/read`
+  );
+  return response.data;
+}
+
+export async function markAllNotificationsRead(type?: string) {
+  const response = await api.patch<{
+    success: boolean;
+    message: string;
+    data: { updated: number; unreadCount: number };
+  }>('/notifications/read-all', undefined, { params: { type: type || undefined } });
+  return response.data;
+}
+
+export async function deleteNotification(notificationId: number) {
+  const response = await api.delete<{ success: boolean; message: string; data: { unreadCount: number } }>(
+    `/notifications/${notificationId}`
+  );
+  return response.data;
+}
+
+export interface ChangeRequest {
+  historyId: number;
+  remark: string | null;
+  requestedAt: string;
+  requestedBy: { id: number; name: string };
+  items: Array<{ id: number; order: number; description: string; resolvedAt: string | null }>;
+}
+
+export interface RubricCriterion {
+  id: number;
+  order: number;
+  name: string;
+  description: string | null;
+  weight: number;
+  maxScore: number;
+}
+
+export interface Rubric {
+  id: number;
+  departmentId: number;
+  category: string;
+  name: string;
+  criteria: RubricCriterion[];
+  bands: Array<{ label: string; minPercent: number }>;
+  createdAt: string;
+}
+
+export interface AssignmentGrading {
+  rubric: Rubric;
+  scores: Array<{
+    criterionId: number;
+    score: number;
+    comment: string | null;
+    band: string | null;
+    updatedAt: string;
+    reviewer: { id: number; name: string };
+  }>;
+  grade: {
+    percent: number;
+    latePenaltyPercent: number;
+    finalPercent: number;
+    band: string | null;
+    complete: boolean;
+    scoredCriteria: number;
+    totalCriteria: number;
+  };
+}
+
+export interface RubricScoreInput {
+  criterionId: number;
+  score: number;
+  comment?: string;
+}
+
+// Panel review: members vote on each submission and the department's quorum rule decides
+export type PanelQuorum = 'UNANIMOUS' | 'MAJORITY';
+
+export interface PanelReview {
+  quorum: PanelQuorum;
+  submissionId: number | null;
+  members: Array<{
+    id: number;
+    name: string;
+    email: string;
+    role: string;
+    isChair: boolean;
+    vote: { vote: 'APPROVE' | 'REJECT'; remarks: string | null; signature: string | null; createdAt: string } | null;
+  }>;
+  approvals: number;
+  rejections: number;
+  outcome: 'APPROVE' | 'REJECT' | null;
+  // Panel category without members yet; the HOD has to appoint them
+  awaitingPanel: boolean;
+  open: boolean;
+}
+
+export async function castPanelVote(
+  assignmentId: number,
+  payload: { vote: 'APPROVE' | 'REJECT'; remarks?: string; signature: string }
+) {
+  const response = await api.post<{
+    success: boolean;
+    message: string;
+    data: { outcome: 'APPROVE' | 'REJECT' | null; approvals: number; rejections: number };
+  }>(`/professor/assignments/${assignmentId}/panel-vote`, payload);
+  return response.data;
+}
+
+export async function assignReviewPanel(assignmentId: number, reviewerIds: number[]) {
+  const response = await api.put<{ success: boolean; message: string }>(
+    `/hod/assignments/${assignmentId}/panel`,
+    { reviewerIds }
+  );
+  return response.data;
 }
 
 // Professor review & approve
@@ -168,15 +384,19 @@ export interface ProfessorReviewAssignment {
   createdAt: string;
   submittedAt: string | null;
   student: { id: number; name: string; email: string };
+  members: GroupMember[];
   reviewer: { id: number; name: string; email: string; role: string } | null;
-  history: Array<{
-    id: number;
-    action: string;
-    remark: string | null;
-    signature: string;
-    createdAt: string;
-    reviewer: { id: number; name: string; email: string; role: string };
-  }>;
+  approvalStage: number | null;
+  allowedActions: string[];
+  panel: PanelReview | null;
+  versionCount: number;
+  changeRequest: ChangeRequest | null;
+  grading: AssignmentGrading | null;
+  brief: AssignmentBrief | null;
+  dueDate: string | null;
+  isLate: boolean;
+  latePenaltyPercent: number | null;
+  history: AssignmentHistoryEntry[];
 }
 
 export interface ProfessorReviewResponse {
@@ -214,6 +434,25 @@ export async function verifyApprove(
   return response.data;
 }
 
+export async function saveAssignmentScores(assignmentId: number, scores: RubricScoreInput[]) {
+  const response = await api.put<{ success: boolean; message: string; data: { grading: AssignmentGrading } }>(
+    `/professor/assignments/${assignmentId}/scores`,
+    { scores }
+  );
+  return response.data;
+}
+
+export async function requestAssignmentChanges(
+  assignmentId: number,
+  payload: { remark?: string; items: string[] }
+) {
+  const response = await api.post<{ success: boolean; message: string }>(
+    `/professor/assignments/${assignmentId}/request-changes`,
+    payload
+  );
+  return response.data;
+}
+
 export async function rejectProfessorAssignment(
   assignmentId: number,
   payload: { remark: string }
@@ -255,6 +494,180 @@ export async function forwardProfessorAssignment(
   return response.data;
 }
 
+// HOD: send an assignment back down to a professor
+export async function returnProfessorAssignment(
+  assignmentId: number,
+  payload: { note: string; returnToId?: number }
+) {
+  const response = await api.post<{ success: boolean; message: string }>(
+    `/professor/assignments/${assignmentId}/return`,
+    payload
+  );
+  return response.data;
+}
+
+// HOD dashboard
+export interface HodQueueAssignment {
+  id: number;
+  title: string;
+  category: string;
+  status: string;
+  studentName: string;
+  studentEmail: string;
+  submittedAt: string | null;
+  approvalStage: number | null;
+  panelSize: number;
+  daysPending: number;
+}
+
+export interface HodReviewerGroup {
+  reviewer: { id: number; name: string; email: string; role: string } | null;
+  pendingCount: number;
+  oldestDaysPending: number;
+  assignments: HodQueueAssignment[];
+}
+
+export interface HodDashboardResponse {
+  success: boolean;
+  message: string;
+  data: {
+    department: { id: number; name: string } | null;
+    pendingCount: number;
+    assignedToMe: number;
+    reviewers: HodReviewerGroup[];
+    panel: { categories: AssignmentCategory[]; minSize: number };
+  };
+}
+
+export async function fetchHodDashboard() {
+  const response = await api.get<HodDashboardResponse>('/hod/dashboard');
+  return response.data;
+}
+
+export async function takeOverAssignment(assignmentId: number, payload: { note?: string } = {}) {
+  const response = await api.post<{ success: boolean; message: string }>(
+    `/hod/assignments/${assignmentId}/take-over`,
+    payload
+  );
+  return response.data;
+}
+
+export interface FileLinkResponse {
+  success: boolean;
+  message: string;
+  data: { url: string; expiresAt: string };
+}
+
+/** Get a short-lived signed URL for the assignment PDF that works without the auth header */
+export async function fetchAssignmentFileLink(assignmentId: number, download = false) {
+  const response = await api.get<FileLinkResponse>(`/files/assignments/${assignmentId}/link`);
+  return `${API_BASE_URL}${response.data.data.url}${download ? '&download=1' : ''}`;
+}
+
+export type ApprovalDocument = 'certificate' | 'stamped';
+
+/** Signed URL for the generated approval certificate or the stamped copy of the submitted PDF */
+export async function fetchApprovalDocumentLink(assignmentId: number, document: ApprovalDocument, download = false) {
+  const response = await api.get<FileLinkResponse>(`/files/assignments/${assignmentId}/approval/${document}/link`);
+  return `${API_BASE_URL}${response.data.data.url}${download ? '&download=1' : ''}`;
+}
+
+export interface AssignmentVersion {
+  id: number;
+  version: number;
+  fileName: string;
+  checksum: string;
+  size: number;
+  uploadedAt: string;
+  uploadedBy: { id: number; name: string; role: string } | null;
+}
+
+export async function fetchAssignmentVersions(assignmentId: number) {
+  const response = await api.get<{
+    success: boolean;
+    message: string;
+    data: { versions: AssignmentVersion[] };
+  }>(`/files/assignments/${assignmentId}/versions`);
+  return response.data;
+}
+
+export async function fetchAssignmentVersionLink(assignmentId: number, version: number, download = false) {
+  const response = await api.get<FileLinkResponse>(
+    `/files/assignments/${assignmentId}/versions/${version}/link`
+  );
+  return `${API_BASE_URL}${response.data.data.url}${download ? '&download=1' : ''}`;
+}
+
+export interface VersionCompareResponse {
+  success: boolean;
+  message: string;
+  data: {
+    from: AssignmentVersion;
+    to: AssignmentVersion;
+    segments: Array<{ type: 'added' | 'removed' | 'unchanged'; value: string }>;
+    stats: { addedLines: number; removedLines: number };
+    feedback: {
+      action: 'REJECTED' | 'CHANGES_REQUESTED';
+      remark: string | null;
+      createdAt: string;
+      reviewer: { id: number; name: string; role: string };
+    } | null;
+  };
+}
+
+export async function fetchVersionCompare(
+  assignmentId: number,
+  params: { from?: number; to?: number } = {}
+) {
+  const response = await api.get<VersionCompareResponse>(
+    `/files/assignments/${assignmentId}/versions/compare`,
+    { params }
+  );
+  return response.data;
+}
+
+export interface CommentUser {
+  id: number;
+  name: string;
+  role: string;
+}
+
+export interface AssignmentComment {
+  id: number;
+  body: string;
+  createdAt: string;
+  author: CommentUser;
+  mentions: CommentUser[];
+}
+
+export interface AssignmentCommentThread extends AssignmentComment {
+  replies: AssignmentComment[];
+}
+
+export type CommentScope = 'student' | 'professor';
+
+export async function fetchAssignmentComments(scope: CommentScope, assignmentId: number) {
+  const response = await api.get<{
+    success: boolean;
+    message: string;
+    data: { threads: AssignmentCommentThread[]; participants: CommentUser[] };
+  }>(`/${scope}/assignments/${assignmentId}/comments`);
+  return response.data;
+}
+
+export async function postAssignmentComment(
+  scope: CommentScope,
+  assignmentId: number,
+  payload: { body: string; parentId?: number; mentionIds?: number[] }
+) {
+  const response = await api.post<{
+    success: boolean;
+    message: string;
+    data: { comment: AssignmentComment };
+  }>(`/${scope}/assignments/${assignmentId}/comments`, payload);
+  return response.data;
+}
+
 /** Fetch assignment file as blob for preview/download (uses auth) */
 export async function fetchAssignmentFileBlob(assignmentId: number): Promise<Blob> {
   const response = await api.get(`/student/assignments/${assignmentId}/download`, {
@@ -263,11 +676,17 @@ export async function fetchAssignmentFileBlob(assignmentId: number): Promise<Blo
   return response.data as Blob;
 }
 
+export interface GroupMember {
+  id: number;
+  name: string;
+  email: string;
+}
+
 export interface Assignment {
   id: number;
   title: string;
   description: string | null;
-  category: 'ASSIGNMENT' | 'THESIS' | 'REPORT';
+  category: AssignmentCategory;
   status: string;
   statusLabel: string;
   statusColor: string;
@@ -279,6 +698,15 @@ export interface Assignment {
     name: string;
     email: string;
   } | null;
+  // Set when the department's auto-assign picked the reviewer
+  reviewerAssignmentReason?: string | null;
+  brief: AssignmentBrief | null;
+  dueDate: string | null;
+  isLate: boolean;
+  // Listed in the student's assignments: who created it, and the teammates on group work
+  owner?: GroupMember;
+  isOwner?: boolean;
+  members?: GroupMember[];
 }
 
 export interface AssignmentsListResponse {
@@ -313,15 +741,54 @@ export async function fetchAssignments(params?: AssignmentsListQuery) {
 export interface AssignmentHistoryEntry {
   id: number;
   action: string;
+  stage: number | null;
   remark: string | null;
   signature: string;
   createdAt: string;
+  // Administrators show up with role ADMIN
   reviewer: {
     id: number;
     name: string;
     email: string;
     role: string;
   };
+  // Set on approvals that were later revoked; the signature is kept
+  revoked: { reason: string | null; by: string; createdAt: string } | null;
+  // Signed approvals: code for the public verification page
+  verificationCode: string | null;
+  // Drawn signature the reviewer had registered, as a signed link
+  signatureImageUrl: string | null;
+}
+
+export interface ApprovalVerification {
+  status: 'VALID' | 'REVOKED' | 'INVALID';
+  checks: {
+    certificate: boolean;
+    signature: boolean;
+    matchesRecord: boolean;
+    fileUnchanged: boolean | null;
+  };
+  approval: {
+    code: string;
+    assignmentTitle: string;
+    studentName: string;
+    department: string | null;
+    decision: 'APPROVED' | 'STAGE_APPROVED';
+    stage: number | null;
+    signedAt: string;
+    fileChecksum: string;
+    reviewer: { name: string; role: string };
+  };
+  certificate: { serial: string; issuer: string; notBefore: string; notAfter: string };
+  revoked: { reason: string | null; revokedAt: string } | null;
+}
+
+// Public; works without signing in
+export async function verifyApproval(code: string) {
+  const response = await api.get<{ success: boolean; message: string; data: ApprovalVerification }>(
+    `/verify/${encodeURIComponent(code)}`
+  );
+  return response.data;
 }
 
 export interface AssignmentDetailResponse {
@@ -340,6 +807,12 @@ export interface AssignmentDetailResponse {
         email: string;
         role: string;
       } | null;
+      approvalStage: number | null;
+      panel: PanelReview | null;
+      members: GroupMember[];
+      changeRequest: ChangeRequest | null;
+      grading: AssignmentGrading | null;
+      latePenaltyPercent: number | null;
       history: AssignmentHistoryEntry[];
     };
   };
@@ -355,6 +828,7 @@ export interface Professor {
   name: string;
   email: string;
   phone: string;
+  outOfOffice: { until: string; delegate: { id: number; name: string } | null } | null;
 }
 
 export interface ProfessorsResponse {
@@ -362,6 +836,9 @@ export interface ProfessorsResponse {
   message: string;
   data: {
     professors: Professor[];
+    // The department assigns reviewers itself; students do not choose
+    autoAssign: boolean;
+    panel: { categories: AssignmentCategory[]; quorum: PanelQuorum; minSize: number };
   };
 }
 
@@ -370,6 +847,89 @@ export async function fetchProfessors() {
   return response.data;
 }
 
+export interface ReviewerAvailability {
+  acceptingReviews: boolean;
+  specialisations: AssignmentCategory[];
+  openReviews: number;
+  outOfOfficeFrom: string | null;
+  outOfOfficeUntil: string | null;
+  isOutOfOffice: boolean;
+  delegate: { id: number; name: string; email: string } | null;
+}
+
+export interface ReviewerAvailabilityPayload {
+  acceptingReviews?: boolean;
+  specialisations?: AssignmentCategory[];
+  outOfOfficeFrom?: string | null;
+  outOfOfficeUntil?: string | null;
+  delegateId?: number | null;
+}
+
+export async function fetchReviewerAvailability() {
+  const response = await api.get<{ success: boolean; data: { availability: ReviewerAvailability } }>(
+    '/professor/availability'
+  );
+  return response.data;
+}
+
+export async function updateReviewerAvailability(payload: ReviewerAvailabilityPayload) {
+  const response = await api.put<{ success: boolean; message: string; data: { availability: ReviewerAvailability } }>(
+    '/professor/availability',
+    payload
+  );
+  return response.data;
+}
+
+export async function handOverReviews() {
+  const response = await api.post<{
+    success: boolean;
+    message: string;
+    data: { reassigned: number; availability: ReviewerAvailability };
+  }>('/professor/availability/hand-over');
+  return response.data;
+}
+
+// Drawn signature attached to a reviewer's approvals; url is a short-lived signed link
+export interface ReviewerSignature {
+  id: number;
+  width: number;
+  height: number;
+  createdAt: string;
+  url: string;
+}
+
+export async function fetchReviewerSignature() {
+  const response = await api.get<{ success: boolean; data: { signature: ReviewerSignature | null } }>(
+    '/professor/signature'
+  );
+  return response.data;
+}
+
+export async function uploadReviewerSignature(image: Blob, fileName = 'signature.png') {
+  const formData = new FormData();
+  formData.append('image', image, fileName);
+  const response = await apiFileUpload.put<{ success: boolean; message: string; data: { signature: ReviewerSignature } }>(
+    '/professor/signature',
+    formData,
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data'
+      }
+    }
+  );
+  return response.data;
+}
+
+export async function deleteReviewerSignature() {
+  const response = await api.delete<{ success: boolean; message: string }>('/professor/signature');
+  return response.data;
+}
+
+/** Full URL for a signed signature image link returned by the API */
+export function signatureImageSrc(url: string) {
+  return `${API_BASE_URL}${url}`;
+}
+
 export interface SubmitAssignmentResponse {
   success: boolean;
   message: string;
@@ -386,12 +946,16 @@ export interface SubmitAssignmentResponse {
         name: string;
         email: string;
       };
+      reviewerAssignmentReason: string | null;
     };
   };
 }
 
 export interface SubmitAssignmentPayload {
-  reviewerId: number;
+  // Omitted when the department auto-assigns reviewers
+  reviewerId?: number;
+  // Panel categories only; the first reviewer chairs. Omit to let the HOD appoint the panel
+  panelReviewerIds?: number[];
 }
 
 export async function submitAssignment(assignmentId: number, payload: SubmitAssignmentPayload) {
@@ -427,6 +991,7 @@ export interface ResubmitAssignmentResponse {
 export interface ResubmitAssignmentPayload {
   description?: string;
   file?: File;
+  resolvedItemIds?: number[];
 }
 
 export async function resubmitAssignment(assignmentId: number, payload: ResubmitAssignmentPayload) {
@@ -437,6 +1002,9 @@ export async function resubmitAssignment(assignmentId: number, payload: Resubmit
   if (payload.file) {
     formData.append('file', payload.file);
   }
+  if (payload.resolvedItemIds?.length) {
+    formData.append('resolvedItemIds', JSON.stringify(payload.resolvedItemIds));
+  }
 
   const response = await apiFileUpload.post<ResubmitAssignmentResponse>(
     `/student/assignments/${assignmentId}/resubmit`,
@@ -450,6 +1018,63 @@ export async function resubmitAssignment(assignmentId: number, payload: Resubmit
   return response.data;
 }
 
+export interface UpdateDraftPayload {
+  title?: string;
+  description?: string;
+  category?: AssignmentCategory;
+  file?: File | null;
+}
+
+export async function updateDraftAssignment(assignmentId: number, payload: UpdateDraftPayload) {
+  const formData = new FormData();
+  if (payload.title !== undefined) formData.append('title', payload.title);
+  if (payload.description !== undefined) formData.append('description', payload.description);
+  if (payload.category !== undefined) formData.append('category', payload.category);
+  if (payload.file) formData.append('file', payload.file);
+
+  const response = await apiFileUpload.patch<{ success: boolean; message: string; data: { assignment: Assignment } }>(
+    `/student/assignments/${assignmentId}`,
+    formData,
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data'
+      }
+    }
+  );
+  return response.data;
+}
+
+export async function deleteDraftAssignment(assignmentId: number) {
+  const response = await api.delete<{ success: boolean; message: string }>(`/student/assignments/${assignmentId}`);
+  return response.data;
+}
+
+export async function fetchClassmates() {
+  const response = await api.get<{
+    success: boolean;
+    message: string;
+    data: { classmates: GroupMember[]; maxGroupSize: number };
+  }>('/student/classmates');
+  return response.data;
+}
+
+export async function updateGroupMembers(assignmentId: number, studentIds: number[]) {
+  const response = await api.put<{ success: boolean; message: string; data: { members: GroupMember[] } }>(
+    `/student/assignments/${assignmentId}/members`,
+    { studentIds }
+  );
+  return response.data;
+}
+
+export async function withdrawAssignment(assignmentId: number, reason?: string) {
+  const response = await api.post<{
+    success: boolean;
+    message: string;
+    data: { assignment: { id: number; title: string; status: string; statusLabel: string; statusColor: string } };
+  }>(`/student/assignments/${assignmentId}/withdraw`, reason ? { reason } : {});
+  return response.data;
+}
+
 export interface UploadAssignmentResponse {
   success: boolean;
   message: string;
@@ -609,6 +1234,104 @@ export async function deleteDepartment(id: number) {
   return response.data as { success: boolean; message: string };
 }
 
+export type LatePolicy = 'HARD_CUTOFF' | 'GRACE_PERIOD' | 'PENALTY';
+
+export interface DepartmentSettings {
+  latePolicy: LatePolicy;
+  gracePeriodHours: number;
+  latePenaltyPercent: number;
+  slaReminderDays: number;
+  slaEscalationDays: number;
+  autoAssignReviewers: boolean;
+  panelCategories: AssignmentCategory[];
+  panelQuorum: PanelQuorum;
+  panelMinSize: number;
+}
+
+export async function fetchDepartmentSettings(id: number) {
+  const response = await api.get<{ success: boolean; data: { settings: DepartmentSettings } }>(
+    `/admin/departments/${id}/settings`
+  );
+  return response.data;
+}
+
+export async function updateDepartmentSettings(id: number, payload: Partial<DepartmentSettings>) {
+  const response = await api.put<{ success: boolean; message: string; data: { settings: DepartmentSettings } }>(
+    `/admin/departments/${id}/settings`,
+    payload
+  );
+  return response.data;
+}
+
+export interface OverdueReportItem {
+  id: number;
+  title: string;
+  status: string;
+  department: { id: number; name: string } | null;
+  student: { id: number; name: string; email: string };
+  reviewer: { id: number; name: string; email: string; role: string } | null;
+  submittedAt: string | null;
+  waitingSince: string;
+  daysWaiting: number;
+  stage: 'REMINDER' | 'ESCALATION';
+  slaReminderDays: number;
+  slaEscalationDays: number;
+  remindedAt: string | null;
+  escalatedAt: string | null;
+}
+
+export interface OverdueReportResponse {
+  success: boolean;
+  data: {
+    items: OverdueReportItem[];
+    summary: { total: number; escalationDue: number; escalated: number };
+  };
+}
+
+export async function fetchOverdueReport(departmentId?: number) {
+  const response = await api.get<OverdueReportResponse>('/admin/reports/overdue', {
+    params: departmentId ? { departmentId } : {}
+  });
+  return response.data;
+}
+
+export type RevocationTarget = 'SUBMITTED' | 'PENDING' | 'REJECTED';
+
+export interface ApprovedAssignment {
+  id: number;
+  title: string;
+  category: AssignmentCategory;
+  student: { id: number; name: string; email: string; department: { id: number; name: string } | null };
+  approval: {
+    signature: string | null;
+    createdAt: string;
+    reviewer: { id: number; name: string; role: string } | null;
+  } | null;
+}
+
+// HODs get their own department; admins see every department unless they filter
+export async function fetchApprovedAssignments(role: string, departmentId?: number) {
+  const response = await api.get<{ success: boolean; data: { assignments: ApprovedAssignment[] } }>(
+    role === 'ADMIN' ? '/admin/assignments/approved' : '/hod/approved',
+    { params: departmentId ? { departmentId } : {} }
+  );
+  return response.data;
+}
+
+export async function revokeAssignmentApproval(
+  role: string,
+  assignmentId: number,
+  payload: { status: RevocationTarget; reason: string }
+) {
+  const response = await api.post<{ success: boolean; message: string }>(
+    role === 'ADMIN'
+      ? `/admin/assignments/${assignmentId}/revoke-approval`
+      : `/hod/assignments/${assignmentId}/revoke-approval`,
+    payload
+  );
+  return response.data;
+}
+
 
 export interface CreateUserPayload {
   name: string;